@@ -1,55 +1,128 @@
-import { useEffect, useRef, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import './App.css';
-import { WebAudioSynthesizer } from './synthesizer/ToneSynthesizer';
+import { SynthEngine, EngineType, FilterType, WavetableFrame, LfoWaveform, LfoDestination, LfoSyncDivision, SampleSettings } from './synthesizer/SynthEngine';
+import { createSynthEngine } from './synthesizer/engineFactory';
+import { LFO_SYNC_DIVISIONS } from './synthesizer/lfo';
+import { importSingleCycleWav } from './synthesizer/wavetable';
+import { DEFAULT_PATTERN_TIMING, planStep } from './synthesizer/patternPlayback';
+import { Arpeggiator } from './synthesizer/arpeggiator';
+import { SequencerClock } from './synthesizer/sequencerClock';
+import { DrumTracks, drumsAtStep } from './synthesizer/drums';
+import { MAX_UNISON, unisonCount, unisonNoteLimit } from './synthesizer/unison';
+import { MOD_UPDATE_INTERVAL, modMatrixActive } from './synthesizer/modMatrix';
+import { renderPattern } from './synthesizer/offlineRender';
+import { WavFormat, downloadBlob, encodeWav } from './synthesizer/wav';
 import { PatchDatabase, Patch } from './synthesizer/PatchDatabase';
-import { useSynthesizerStore, SequencerNote } from './synthesizer/store';
+import { SampleInfo, SampleLibrary } from './synthesizer/SampleLibrary';
+import { DEFAULT_SAMPLE, detectRootNote, isSampleFile, midiNoteName } from './synthesizer/sampler';
+import { useSynthesizerStore, SequencerNote, presetDisplayName } from './synthesizer/store';
 import { Knob } from './components/Knob';
 import { Keyboard } from './components/Keyboard';
 import { PatchManager } from './components/PatchManager';
 import { Sequencer } from './components/Sequencer';
+import { HarmonicEditor } from './components/HarmonicEditor';
+import { InsertChain } from './components/InsertChain';
+import { Recorder } from './components/Recorder';
+import { Visualizer } from './components/Visualizer';
+import { TuningPanel } from './components/TuningPanel';
+import { ArpeggiatorPanel } from './components/ArpeggiatorPanel';
+import { SamplerPanel } from './components/SamplerPanel';
+import { ModMatrixPanel } from './components/ModMatrixPanel';
+
+const FILTER_TYPES: FilterType[] = ['lowpass', 'highpass', 'bandpass', 'notch', 'ladder'];
+
+const LFO_WAVEFORMS: { value: LfoWaveform; label: string }[] = [
+  { value: 'sine', label: 'Sine' },
+  { value: 'triangle', label: 'Tri' },
+  { value: 'sawtooth', label: 'Saw' },
+  { value: 'square', label: 'Sqr' },
+  { value: 'sampleHold', label: 'S&H' },
+];
+
+const LFO_DESTINATIONS: { value: LfoDestination; label: string }[] = [
+  { value: 'pitch', label: 'Pitch' },
+  { value: 'cutoff', label: 'Cutoff' },
+  { value: 'amplitude', label: 'Amp' },
+  { value: 'pan', label: 'Pan' },
+  { value: 'pulseWidth', label: 'PW' },
+];
 
 function App() {
-  const synthRef = useRef<WebAudioSynthesizer | null>(null);
+  const synthRef = useRef<SynthEngine | null>(null);
   const dbRef = useRef<PatchDatabase | null>(null);
-  const sequencerIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
-  const pendingNoteOffsRef = useRef<Set<ReturnType<typeof setTimeout>>>(new Set());
+  const sampleLibraryRef = useRef<SampleLibrary | null>(null);
+  const sampleBufferRef = useRef<{ id: string; buffer: AudioBuffer } | null>(null); // Decoded audio of params.sample
+  const sequencerClockRef = useRef<SequencerClock | null>(null);
+  const tiedNoteRef = useRef<number | null>(null); // Note held over into a sliding step
+  const arpeggiatorRef = useRef<Arpeggiator | null>(null);
   const [isInitialized, setIsInitialized] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
 
   const {
     params,
     activeKeys,
     patches,
+    samples,
     currentPatchId,
     displayText,
     sequencerSteps,
+    sequencerTiming,
+    drums,
     currentStep,
     tempo,
     isSequencerRunning,
     controlMode,
     currentPreset,
+    engineType,
+    arpeggiator,
+    masterVolume,
     setParams,
     setActiveKey,
     setPatches,
+    setSamples,
     setCurrentPatchId,
     setDisplayText,
     setSequencerStep,
+    setSequencerSteps,
+    setPatternLength,
+    setSequencerTiming,
+    setDrumStep,
+    setDrumVoice,
+    setDrums,
     setCurrentStep,
     setTempo,
     setIsSequencerRunning,
     setControlMode,
+    setEngineType,
+    setMasterVolume,
+    setArpeggiator,
     clearSequencer,
     loadPreset,
     generateRandomSequence,
   } = useSynthesizerStore();
 
-  // Initialize synthesizer and database
+  // Create the selected audio engine, replacing the previous one on a switch
+  useEffect(() => {
+    const engine = createSynthEngine(engineType);
+    engine.updateParams(useSynthesizerStore.getState().params);
+    engine.setTempo(useSynthesizerStore.getState().tempo);
+    engine.setMasterVolume(useSynthesizerStore.getState().masterVolume);
+    engine.setSample(sampleBufferRef.current?.buffer ?? null);
+    engine.resume();
+    synthRef.current = engine;
+
+    return () => {
+      if (synthRef.current === engine) {
+        synthRef.current = null;
+      }
+      engine.dispose();
+    };
+  }, [engineType]);
+
+  // Initialize database and starting sequence
   useEffect(() => {
     const init = async () => {
       try {
-        // Initialize Web Audio synthesizer
-        synthRef.current = new WebAudioSynthesizer();
-        synthRef.current.resume();
-
         // Load bass deep preset at startup
         loadPreset('bassDeep');
 
@@ -68,6 +141,16 @@ function App() {
           console.warn('Database initialization failed:', dbError);
         }
 
+        // Samples live in their own IndexedDB store next to the patch database
+        try {
+          const library = new SampleLibrary();
+          await library.initialize();
+          sampleLibraryRef.current = library;
+          setSamples(await library.listSamples());
+        } catch (libraryError) {
+          console.warn('Sample library unavailable:', libraryError);
+        }
+
         setIsInitialized(true);
       } catch (error) {
         console.error('Initialization error:', error);
@@ -76,15 +159,136 @@ function App() {
     };
 
     init();
-  }, [setPatches, setDisplayText, loadPreset, generateRandomSequence]);
+  }, [setPatches, setSamples, setDisplayText, loadPreset, generateRandomSequence]);
 
   // Update synthesizer parameters when they change
   useEffect(() => {
     if (synthRef.current) {
-      synthRef.current.updateParams(params as any);
+      synthRef.current.updateParams(params);
     }
   }, [params]);
 
+  // Decodes the patch's sample whenever it points at a different file, such as after loading a patch
+  useEffect(() => {
+    const { id, name } = params.sample;
+    if (sampleBufferRef.current?.id === id) return;
+    if (!id) {
+      sampleBufferRef.current = null;
+      synthRef.current?.setSample(null);
+      return;
+    }
+    const library = sampleLibraryRef.current;
+    if (!isInitialized || !library) return;
+
+    let cancelled = false;
+    const load = async () => {
+      try {
+        const data = await library.loadSampleData(id);
+        if (cancelled) return;
+        if (!data) {
+          sampleBufferRef.current = null;
+          synthRef.current?.setSample(null);
+          setDisplayText(`Sample missing: ${name}`);
+          return;
+        }
+        const buffer = await decodeSampleData(data);
+        if (cancelled) return;
+        sampleBufferRef.current = { id, buffer };
+        synthRef.current?.setSample(buffer);
+      } catch (error) {
+        console.error('Failed to load sample:', error);
+        if (!cancelled) setDisplayText('Sample load failed');
+      }
+    };
+    load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [params.sample, isInitialized, setDisplayText]);
+
+  // Keep tempo-synced modulation locked to the sequencer tempo
+  useEffect(() => {
+    if (synthRef.current) {
+      synthRef.current.setTempo(tempo);
+    }
+  }, [tempo]);
+
+  // Re-apply the modulation matrix at control rate while any slot is in use
+  const modulationActive = modMatrixActive(params.modMatrix);
+  useEffect(() => {
+    if (!modulationActive) return;
+    const interval = setInterval(() => synthRef.current?.updateModulation(), MOD_UPDATE_INTERVAL * 1000);
+    return () => clearInterval(interval);
+  }, [modulationActive]);
+
+  // MIDI input from every connected device: notes play like the on-screen keyboard,
+  // through the arpeggiator and the tuning table, and continuous controllers feed the
+  // matrix's CC source
+  useEffect(() => {
+    if (!navigator.requestMIDIAccess) return;
+    let access: MIDIAccess | null = null;
+    let cancelled = false;
+
+    const handleMessage = (event: MIDIMessageEvent) => {
+      const data = event.data;
+      if (!data || data.length < 3) return;
+      const status = data[0] & 0xf0;
+      if (status === 0x90 && data[2] > 0) {
+        handleKeyDown(data[1], data[2] / 127);
+      } else if (status === 0x80 || status === 0x90) {
+        // A note-on with velocity 0 is a note-off
+        handleKeyUp(data[1]);
+      } else if (status === 0xb0) {
+        synthRef.current?.setControlChange(data[1], data[2]);
+      }
+    };
+    const listen = (midi: MIDIAccess) => {
+      midi.inputs.forEach((input) => {
+        input.removeEventListener('midimessage', handleMessage);
+        input.addEventListener('midimessage', handleMessage);
+      });
+    };
+
+    navigator.requestMIDIAccess().then(
+      (midi) => {
+        if (cancelled) return;
+        access = midi;
+        listen(midi);
+        // Inputs plugged in later are picked up as they appear
+        midi.onstatechange = () => listen(midi);
+      },
+      (error) => console.warn('MIDI input unavailable:', error)
+    );
+
+    return () => {
+      cancelled = true;
+      if (access) {
+        access.onstatechange = null;
+        access.inputs.forEach((input) => input.removeEventListener('midimessage', handleMessage));
+      }
+    };
+  }, []);
+
+  // The arpeggiator plays into whichever engine is current
+  useEffect(() => {
+    const arp = new Arpeggiator({
+      currentTime: () => synthRef.current?.getAudioContext().currentTime ?? performance.now() / 1000,
+      noteOn: (note, velocity, time) => synthRef.current?.noteOn(note, velocity, 0, false, time),
+      noteOff: (note, time) => synthRef.current?.noteOff(note, time),
+    });
+    arpeggiatorRef.current = arp;
+
+    return () => {
+      arp.stop();
+      arpeggiatorRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    arpeggiatorRef.current?.update(arpeggiator, tempo);
+  }, [arpeggiator, tempo]);
+
   const sequencerStepsRef = useRef<SequencerNote[]>(sequencerSteps);
 
   // Keep the ref updated with the latest steps
@@ -92,80 +296,123 @@ function App() {
     sequencerStepsRef.current = sequencerSteps;
   }, [sequencerSteps]);
 
+  const drumsRef = useRef<DrumTracks>(drums);
+
+  useEffect(() => {
+    drumsRef.current = drums;
+  }, [drums]);
+
+  // The sequencer clock schedules each step ahead on the engine's audio clock
+  useEffect(() => {
+    const clock = new SequencerClock({
+      currentTime: () => synthRef.current?.getAudioContext().currentTime ?? performance.now() / 1000,
+      playStep: (step, time, stepDuration) => {
+        // Plan the step from the refs so edits are heard without restarting;
+        // offline export follows the same plan
+        const plan = planStep(
+          sequencerStepsRef.current,
+          step,
+          tiedNoteRef.current,
+          useSynthesizerStore.getState().params.glideTime,
+          stepDuration
+        );
+        tiedNoteRef.current = synthRef.current ? plan.tie : null;
+        if (!synthRef.current) return;
+
+        const engine = synthRef.current;
+        engine.setSequencerStep(step, sequencerStepsRef.current.length, time);
+        const { kit, pattern } = drumsRef.current;
+        drumsAtStep(pattern, step).forEach((drum) => engine.triggerDrum(drum, kit[drum], 1, time));
+
+        if (plan.noteOn) {
+          const { note, velocity, slideTime, accent } = plan.noteOn;
+          engine.noteOn(note, velocity, slideTime, accent, time);
+        }
+
+        // Release a note tied into this step now that its successor has started
+        if (plan.releaseTied !== null) {
+          engine.noteOff(plan.releaseTied, time);
+        }
+
+        if (plan.noteOn && plan.gate !== null) {
+          const released = plan.noteOn.note;
+          clock.at(time + plan.gate, (offTime) => synthRef.current?.noteOff(released, offTime));
+        }
+      },
+      // The highlight follows the audio clock rather than the scheduler
+      showStep: (step) => setCurrentStep(step),
+    });
+    clock.setTempo(useSynthesizerStore.getState().tempo);
+    clock.setResolution(useSynthesizerStore.getState().sequencerTiming.resolution);
+    sequencerClockRef.current = clock;
+
+    return () => {
+      clock.dispose();
+      sequencerClockRef.current = null;
+    };
+  }, [setCurrentStep]);
+
+  // Tempo changes apply from the next step without restarting
+  useEffect(() => {
+    sequencerClockRef.current?.setTempo(tempo);
+  }, [tempo]);
+
+  useEffect(() => {
+    sequencerClockRef.current?.setResolution(sequencerTiming.resolution);
+  }, [sequencerTiming.resolution]);
+
+  useEffect(() => {
+    sequencerClockRef.current?.setLength(sequencerSteps.length);
+  }, [sequencerSteps.length]);
+
   // Sequencer playback
   useEffect(() => {
     if (!isSequencerRunning) {
-      if (sequencerIntervalRef.current) {
-        clearInterval(sequencerIntervalRef.current);
-        sequencerIntervalRef.current = null;
-      }
-      
+      sequencerClockRef.current?.stop();
+
       // Stop all audio immediately when stopping sequencer
       stopAllAudio();
-      
+
       return;
     }
 
-    const stepDurationMs = (60000 / tempo) / 4; // 16th notes
-    let nextStep = currentStep;
-
-    sequencerIntervalRef.current = setInterval(() => {
-      nextStep = (nextStep + 1) % 16; // 16 steps
-      setCurrentStep(nextStep);
-      
-      // Trigger notes - use ref to get current steps without causing re-renders
-      const note = sequencerStepsRef.current[nextStep];
-      // Only play note if enabled and note > 0
-      if (note.enabled && note.note > 0 && synthRef.current) {
-        // Calculate slide time (0.3s for slide enabled, 0s for immediate)
-        const slideTime = note.slide ? 0.3 : 0;
-        synthRef.current.noteOn(note.note, note.velocity, slideTime);
-        
-        // Schedule note off
-        const timeoutId = setTimeout(() => {
-          if (synthRef.current) {
-            synthRef.current.noteOff(note.note);
-          }
-          pendingNoteOffsRef.current.delete(timeoutId);
-        }, stepDurationMs * note.duration * 0.9);
-        
-        pendingNoteOffsRef.current.add(timeoutId);
-      }
-    }, stepDurationMs);
-
-    return () => {
-      if (sequencerIntervalRef.current) {
-        clearInterval(sequencerIntervalRef.current);
-        sequencerIntervalRef.current = null;
-      }
-      // Cancel all pending note-off timeouts when effect cleanup
-      pendingNoteOffsRef.current.forEach(timeout => {
-        clearTimeout(timeout);
-      });
-      pendingNoteOffsRef.current.clear();
-    };
-  }, [isSequencerRunning, tempo, currentStep, setCurrentStep]);
+    // Carry on from the step after the one last shown
+    sequencerClockRef.current?.start(useSynthesizerStore.getState().currentStep + 1);
+  }, [isSequencerRunning]);
 
-  const handleKeyDown = (midiNote: number) => {
+  // Shared by the on-screen keyboard and MIDI input, so state is read from the store
+  // rather than the render the handler was created in
+  const handleKeyDown = (midiNote: number, velocity: number = 1) => {
+    const { activeKeys, arpeggiator, params } = useSynthesizerStore.getState();
     if (synthRef.current && !activeKeys.has(midiNote)) {
-      synthRef.current.noteOn(midiNote);
+      if (arpeggiator.enabled && arpeggiatorRef.current) {
+        // Held keys are played one at a time by the arpeggiator instead of as a chord
+        arpeggiatorRef.current.keyDown(midiNote, velocity);
+      } else {
+        // In mono mode, playing over a held key glides legato to the new note
+        const slideTime = params.voiceMode === 'mono' && activeKeys.size > 0 ? params.glideTime : 0;
+        synthRef.current.noteOn(midiNote, velocity, slideTime);
+      }
       setActiveKey(midiNote, true);
     }
   };
 
   const handleKeyUp = (midiNote: number) => {
+    const { activeKeys } = useSynthesizerStore.getState();
     if (synthRef.current && activeKeys.has(midiNote)) {
-      synthRef.current.noteOff(midiNote);
+      // Keys pressed before the arpeggiator was switched on are released directly
+      if (!arpeggiatorRef.current?.keyUp(midiNote)) {
+        synthRef.current.noteOff(midiNote);
+      }
       setActiveKey(midiNote, false);
     }
   };
 
   const stopAllAudio = () => {
-    // Cancel all pending note-off timeouts
-    pendingNoteOffsRef.current.forEach(timeout => {
-      clearTimeout(timeout);
-    });
-    pendingNoteOffsRef.current.clear();
+    // Cancel the sequencer's note-offs not yet scheduled
+    sequencerClockRef.current?.cancelEvents();
+    tiedNoteRef.current = null;
+    arpeggiatorRef.current?.stop();
     
     // Stop all synthesizer voices
     if (synthRef.current) {
@@ -195,11 +442,165 @@ function App() {
     // Kill all audio immediately (but keep sequencer running)
     stopAllAudio();
     
-    // Load the new preset
+    // Load the new preset, which replaces any loaded patch
     loadPreset(presetName);
+    setCurrentPatchId(null);
     
     // Give the synthesizer a moment to be ready for the next note
-    // The sequencer will trigger the next note on its interval
+    // The sequencer will trigger the next note on its clock
+  };
+
+  const handleEngineChange = (type: EngineType) => {
+    if (type === engineType) return;
+
+    // Release everything on the old engine before it is disposed
+    stopAllAudio();
+    setEngineType(type);
+    setDisplayText(type === 'tone' ? 'Engine: Tone.js' : 'Engine: Web Audio');
+  };
+
+  // decodeAudioData takes over the buffer it is given, so it gets a copy of the stored bytes
+  const decodeSampleData = (data: ArrayBuffer): Promise<AudioBuffer> => {
+    if (!synthRef.current) return Promise.reject(new Error('No audio engine'));
+    return synthRef.current.getAudioContext().decodeAudioData(data.slice(0));
+  };
+
+  // Plays a decoded sample from now on, with its root note detected and the region reset
+  const applySample = (info: SampleInfo, buffer: AudioBuffer) => {
+    const root = detectRootNote(buffer, info.name);
+    sampleBufferRef.current = { id: info.id, buffer };
+    synthRef.current?.setSample(buffer);
+    setParams({
+      oscillatorType: 'sample',
+      sample: { ...DEFAULT_SAMPLE, id: info.id, name: info.name, rootNote: root.rootNote, fineTune: root.fineTune },
+    });
+    setDisplayText(root.detectedBy === 'default' ? `Sample: ${info.name}` : `Sample: ${info.name}, root ${midiNoteName(root.rootNote)}`);
+  };
+
+  const handleLoadSampleFile = async (file: File) => {
+    if (!isSampleFile(file)) {
+      setDisplayText('Not a WAV, FLAC or OGG file');
+      return;
+    }
+    const library = sampleLibraryRef.current;
+    if (!library) {
+      setDisplayText('Sample storage unavailable');
+      return;
+    }
+
+    try {
+      // Decode first so files the browser can't play are never stored
+      const data = await file.arrayBuffer();
+      const buffer = await decodeSampleData(data);
+      const info = await library.saveSample(file, data);
+      setSamples(await library.listSamples());
+      applySample(info, buffer);
+    } catch (error) {
+      console.error('Failed to load sample:', error);
+      setDisplayText(`Sample load failed: ${file.name}`);
+    }
+  };
+
+  const handleSelectSample = async (id: string) => {
+    const library = sampleLibraryRef.current;
+    const info = samples.find((sample) => sample.id === id);
+    if (!library || !info) {
+      setParams({ sample: DEFAULT_SAMPLE });
+      return;
+    }
+
+    try {
+      const data = await library.loadSampleData(id);
+      if (!data) throw new Error(`${info.name} is missing from the library`);
+      applySample(info, await decodeSampleData(data));
+    } catch (error) {
+      console.error('Failed to load sample:', error);
+      setDisplayText('Sample load failed');
+    }
+  };
+
+  const handleDeleteSample = async (id: string) => {
+    const library = sampleLibraryRef.current;
+    if (!library) return;
+
+    try {
+      await library.deleteSample(id);
+      setSamples(await library.listSamples());
+      if (params.sample.id === id) {
+        setParams({ sample: DEFAULT_SAMPLE });
+      }
+      setDisplayText('Sample deleted');
+    } catch (error) {
+      console.error('Failed to delete sample:', error);
+      setDisplayText('Delete failed');
+    }
+  };
+
+  const handleDetectSampleRoot = () => {
+    const loaded = sampleBufferRef.current;
+    if (!loaded || loaded.id !== params.sample.id) return;
+    const root = detectRootNote(loaded.buffer, params.sample.name);
+    setParams({ sample: { ...params.sample, rootNote: root.rootNote, fineTune: root.fineTune } });
+    setDisplayText(root.detectedBy === 'default' ? 'No clear pitch found' : `Root: ${midiNoteName(root.rootNote)}`);
+  };
+
+  const handleSampleChange = (changes: Partial<SampleSettings>) => {
+    setParams({ sample: { ...params.sample, ...changes } });
+  };
+
+  // Audio files dropped anywhere on the page are loaded into the sampler
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
+    if (e.dataTransfer.types.includes('Files')) {
+      e.preventDefault();
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    if (e.dataTransfer.files.length === 0) return;
+    e.preventDefault();
+    const file = Array.from(e.dataTransfer.files).find(isSampleFile);
+    if (file) {
+      handleLoadSampleFile(file);
+    } else {
+      setDisplayText('Drop a WAV, FLAC or OGG file');
+    }
+  };
+
+  const handleImportWavetable = async (file: File): Promise<WavetableFrame | null> => {
+    if (!synthRef.current) return null;
+
+    try {
+      const frame = await importSingleCycleWav(synthRef.current.getAudioContext(), file);
+      setDisplayText(`Imported: ${file.name}`);
+      return frame;
+    } catch (error) {
+      console.error('Failed to import wave:', error);
+      setDisplayText('Import failed');
+      return null;
+    }
+  };
+
+  const handleExportWav = async (loops: number, format: WavFormat) => {
+    if (isExporting) return;
+
+    // Rendering swaps Tone's global context for a moment, so live playback stops first
+    if (isSequencerRunning) {
+      setIsSequencerRunning(false);
+    }
+    stopAllAudio();
+    setIsExporting(true);
+    setDisplayText('Rendering...');
+
+    try {
+      const buffer = await renderPattern(engineType, params, sampleBufferRef.current?.buffer ?? null, sequencerSteps, drums, tempo, sequencerTiming.resolution, loops);
+      downloadBlob(encodeWav(buffer, format), `ts-404-${tempo}bpm-${loops}x.wav`);
+      setDisplayText(`Exported ${buffer.duration.toFixed(1)}s WAV`);
+    } catch (error) {
+      console.error('Failed to export WAV:', error);
+      setDisplayText('Export failed');
+    } finally {
+      setIsExporting(false);
+    }
   };
 
   const handleRandomizeSequencer = () => {
@@ -220,6 +621,9 @@ function App() {
       name: patchName,
       params,
       sequencerSteps: JSON.stringify(sequencerSteps),
+      sequencerTiming,
+      arpeggiator: arpeggiator.saveWithPatch ? arpeggiator : undefined,
+      drums,
     };
 
     try {
@@ -242,10 +646,17 @@ function App() {
       if (patch) {
         setParams(patch.params);
         if (patch.sequencerSteps) {
-          const steps = JSON.parse(patch.sequencerSteps);
-          steps.forEach((step: SequencerNote, idx: number) => {
-            setSequencerStep(idx, step);
-          });
+          setSequencerSteps(JSON.parse(patch.sequencerSteps));
+        }
+        // Patches saved before pattern timing existed were 1/16 steps in 4/4
+        setSequencerTiming(patch.sequencerTiming ?? DEFAULT_PATTERN_TIMING);
+        // Patches saved without arpeggiator settings leave the current ones alone
+        if (patch.arpeggiator) {
+          setArpeggiator(patch.arpeggiator);
+        }
+        // Patches saved before the drum rows existed keep the current drums
+        if (patch.drums) {
+          setDrums(patch.drums);
         }
         setCurrentPatchId(id);
         setDisplayText(`Loaded: ${patch.name}`);
@@ -278,7 +689,7 @@ function App() {
   }
 
   return (
-    <div className="synth-container">
+    <div className="synth-container" onDragOver={handleDragOver} onDrop={handleDrop}>
       <div className="synth-body">
         <div className="control-mode-toggle" style={{ marginBottom: '30px' }}>
           <button
@@ -295,9 +706,27 @@ function App() {
           </button>
         </div>
 
+        <div className="control-mode-toggle" style={{ marginBottom: '30px' }}>
+          <button
+            className={`toggle-btn ${engineType === 'tone' ? 'active' : ''}`}
+            onClick={() => handleEngineChange('tone')}
+          >
+            Tone.js
+          </button>
+          <button
+            className={`toggle-btn ${engineType === 'webaudio' ? 'active' : ''}`}
+            onClick={() => handleEngineChange('webaudio')}
+          >
+            Web Audio
+          </button>
+        </div>
+
         {/* Display */}
         <div className="display">{displayText}</div>
 
+        {/* Visualizer: scope, spectrum and level of the master output */}
+        <Visualizer getEngine={() => synthRef.current} />
+
         {/* Preset Selector */}
         <div className="synth-section" style={{ marginBottom: '20px' }}>
           <div className="section-title">Preset</div>
@@ -334,8 +763,8 @@ function App() {
               <div className="section-title">VCO</div>
               <div style={{ marginBottom: '15px' }}>
                 <div style={{ fontSize: '11px', color: '#00d9ff', fontWeight: 'bold', textTransform: 'uppercase', marginBottom: '8px' }}>Wave Shape</div>
-                <div style={{ display: 'grid', gridTemplateColumns: 'repeat(4, 1fr)', gap: '6px' }}>
-                  {(['sine', 'triangle', 'sawtooth', 'square'] as const).map((type) => (
+                <div style={{ display: 'grid', gridTemplateColumns: 'repeat(6, 1fr)', gap: '6px' }}>
+                  {(['sine', 'triangle', 'sawtooth', 'square', 'wavetable', 'sample'] as const).map((type) => (
                     <button
                       key={type}
                       className={`synth-button ${params.oscillatorType === type ? 'active' : ''}`}
@@ -346,17 +775,37 @@ function App() {
                     </button>
                   ))}
                 </div>
+                {params.oscillatorType === 'wavetable' && (
+                  <HarmonicEditor
+                    wavetable={params.wavetable}
+                    position={params.wavetablePosition}
+                    onChange={(wavetable) => setParams({ wavetable })}
+                    onPositionChange={(wavetablePosition) => setParams({ wavetablePosition })}
+                    onImport={handleImportWavetable}
+                  />
+                )}
+                {params.oscillatorType === 'sample' && (
+                  <SamplerPanel
+                    sample={params.sample}
+                    samples={samples}
+                    onChange={handleSampleChange}
+                    onLoadFile={handleLoadSampleFile}
+                    onSelect={handleSelectSample}
+                    onDelete={handleDeleteSample}
+                    onDetectRoot={handleDetectSampleRoot}
+                  />
+                )}
               </div>
               <div style={{ marginBottom: '12px' }}>
                 <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '11px', color: '#00d9ff', fontWeight: 'bold', marginBottom: '4px' }}>
                   <span>Detune</span>
-                  <span>{params.detuneAmount.toFixed(2)}</span>
+                  <span>{params.detuneAmount.toFixed(0)} cents</span>
                 </div>
                 <input
                   type="range"
-                  min="-1"
-                  max="1"
-                  step="0.01"
+                  min="-100"
+                  max="100"
+                  step="1"
                   value={params.detuneAmount}
                   onChange={(e) => setParams({ detuneAmount: Number(e.target.value) })}
                   className="master-volume-slider"
@@ -381,153 +830,674 @@ function App() {
               </div>
             </div>
 
-            {/* Filter Sliders */}
+            {/* VCO 2 Sliders */}
             <div className="synth-section">
-              <div className="section-title">Filter</div>
+              <div className="section-title">VCO 2</div>
+              <div style={{ marginBottom: '15px' }}>
+                <div style={{ fontSize: '11px', color: '#00d9ff', fontWeight: 'bold', textTransform: 'uppercase', marginBottom: '8px' }}>Wave Shape</div>
+                <div style={{ display: 'grid', gridTemplateColumns: 'repeat(4, 1fr)', gap: '6px' }}>
+                  {(['sine', 'triangle', 'sawtooth', 'square'] as const).map((type) => (
+                    <button
+                      key={type}
+                      className={`synth-button ${params.osc2Type === type ? 'active' : ''}`}
+                      onClick={() => setParams({ osc2Type: type })}
+                      style={{ textTransform: 'capitalize', fontSize: '11px' }}
+                    >
+                      {type}
+                    </button>
+                  ))}
+                </div>
+              </div>
               <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '12px' }}>
                 <div>
                   <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '11px', color: '#00d9ff', fontWeight: 'bold', marginBottom: '4px' }}>
-                    <span>Cutoff</span>
-                    <span>{params.cutoff.toFixed(0)} Hz</span>
+                    <span>Octave</span>
+                    <span>{params.osc2Octave > 0 ? '+' : ''}{params.osc2Octave}</span>
                   </div>
                   <input
                     type="range"
-                    min="20"
-                    max="20000"
-                    step="10"
-                    value={params.cutoff}
-                    onChange={(e) => setParams({ cutoff: Number(e.target.value) })}
+                    min="-2"
+                    max="2"
+                    step="1"
+                    value={params.osc2Octave}
+                    onChange={(e) => setParams({ osc2Octave: Number(e.target.value) })}
                     className="master-volume-slider"
                     style={{ width: '100%' }}
                   />
                 </div>
                 <div>
                   <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '11px', color: '#00d9ff', fontWeight: 'bold', marginBottom: '4px' }}>
-                    <span>Resonance</span>
-                    <span>{params.resonance.toFixed(2)}</span>
+                    <span>Semitone</span>
+                    <span>{params.osc2Semitone > 0 ? '+' : ''}{params.osc2Semitone}</span>
                   </div>
                   <input
                     type="range"
-                    min="0.1"
-                    max="30"
-                    step="0.1"
-                    value={params.resonance}
-                    onChange={(e) => setParams({ resonance: Number(e.target.value) })}
+                    min="-12"
+                    max="12"
+                    step="1"
+                    value={params.osc2Semitone}
+                    onChange={(e) => setParams({ osc2Semitone: Number(e.target.value) })}
                     className="master-volume-slider"
                     style={{ width: '100%' }}
                   />
                 </div>
-              </div>
-              <div style={{ marginTop: '12px' }}>
-                <div style={{ fontSize: '11px', color: '#00d9ff', fontWeight: 'bold', marginBottom: '4px' }}>Filter Type</div>
-                <div style={{ display: 'grid', gridTemplateColumns: 'repeat(4, 1fr)', gap: '6px' }}>
-                  {(['lowpass', 'highpass', 'bandpass', 'notch'] as const).map((type) => (
-                    <button
-                      key={type}
-                      className={`synth-button ${params.filterType === type ? 'active' : ''}`}
-                      onClick={() => setParams({ filterType: type })}
-                      style={{ textTransform: 'capitalize', fontSize: '10px' }}
-                    >
-                      {type}
-                    </button>
-                  ))}
+                <div>
+                  <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '11px', color: '#00d9ff', fontWeight: 'bold', marginBottom: '4px' }}>
+                    <span>Fine</span>
+                    <span>{params.osc2Fine.toFixed(0)} cents</span>
+                  </div>
+                  <input
+                    type="range"
+                    min="-50"
+                    max="50"
+                    step="1"
+                    value={params.osc2Fine}
+                    onChange={(e) => setParams({ osc2Fine: Number(e.target.value) })}
+                    className="master-volume-slider"
+                    style={{ width: '100%' }}
+                  />
+                </div>
+                <div>
+                  <div style={{ fontSize: '11px', color: '#00d9ff', fontWeight: 'bold', marginBottom: '4px' }}>Sync</div>
+                  <button
+                    className={`synth-button ${params.osc2Sync ? 'active' : ''}`}
+                    onClick={() => setParams({ osc2Sync: !params.osc2Sync })}
+                    style={{ fontSize: '10px', width: '100%' }}
+                  >
+                    Hard Sync
+                  </button>
                 </div>
               </div>
             </div>
 
-            {/* Envelope Sliders */}
+            {/* Mixer Sliders */}
             <div className="synth-section">
-              <div className="section-title">Envelope</div>
+              <div className="section-title">Mixer</div>
               <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '12px' }}>
                 <div>
                   <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '11px', color: '#00d9ff', fontWeight: 'bold', marginBottom: '4px' }}>
-                    <span>Attack</span>
-                    <span>{(params.attack * 1000).toFixed(1)}ms</span>
+                    <span>VCO 1</span>
+                    <span>{(params.osc1Level * 100).toFixed(0)}%</span>
                   </div>
                   <input
                     type="range"
-                    min="0.001"
+                    min="0"
                     max="1"
-                    step="0.001"
-                    value={params.attack}
-                    onChange={(e) => setParams({ attack: Number(e.target.value) })}
+                    step="0.01"
+                    value={params.osc1Level}
+                    onChange={(e) => setParams({ osc1Level: Number(e.target.value) })}
                     className="master-volume-slider"
                     style={{ width: '100%' }}
                   />
                 </div>
                 <div>
                   <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '11px', color: '#00d9ff', fontWeight: 'bold', marginBottom: '4px' }}>
-                    <span>Decay</span>
-                    <span>{(params.decay * 1000).toFixed(1)}ms</span>
+                    <span>VCO 2</span>
+                    <span>{(params.osc2Level * 100).toFixed(0)}%</span>
                   </div>
                   <input
                     type="range"
-                    min="0.01"
+                    min="0"
                     max="1"
                     step="0.01"
-                    value={params.decay}
-                    onChange={(e) => setParams({ decay: Number(e.target.value) })}
+                    value={params.osc2Level}
+                    onChange={(e) => setParams({ osc2Level: Number(e.target.value) })}
                     className="master-volume-slider"
                     style={{ width: '100%' }}
                   />
                 </div>
-              </div>
-              <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '12px', marginTop: '12px' }}>
                 <div>
                   <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '11px', color: '#00d9ff', fontWeight: 'bold', marginBottom: '4px' }}>
-                    <span>Sustain</span>
-                    <span>{(params.sustain * 100).toFixed(1)}%</span>
+                    <span>Sub</span>
+                    <span>{(params.subLevel * 100).toFixed(0)}%</span>
                   </div>
                   <input
                     type="range"
                     min="0"
                     max="1"
                     step="0.01"
-                    value={params.sustain}
-                    onChange={(e) => setParams({ sustain: Number(e.target.value) })}
+                    value={params.subLevel}
+                    onChange={(e) => setParams({ subLevel: Number(e.target.value) })}
                     className="master-volume-slider"
                     style={{ width: '100%' }}
                   />
                 </div>
                 <div>
                   <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '11px', color: '#00d9ff', fontWeight: 'bold', marginBottom: '4px' }}>
-                    <span>Release</span>
-                    <span>{(params.release * 1000).toFixed(1)}ms</span>
+                    <span>Noise</span>
+                    <span>{(params.noiseLevel * 100).toFixed(0)}%</span>
                   </div>
                   <input
                     type="range"
-                    min="0.01"
-                    max="2"
+                    min="0"
+                    max="1"
                     step="0.01"
-                    value={params.release}
-                    onChange={(e) => setParams({ release: Number(e.target.value) })}
+                    value={params.noiseLevel}
+                    onChange={(e) => setParams({ noiseLevel: Number(e.target.value) })}
                     className="master-volume-slider"
                     style={{ width: '100%' }}
                   />
                 </div>
+                <div>
+                  <div style={{ fontSize: '11px', color: '#00d9ff', fontWeight: 'bold', marginBottom: '4px' }}>Sub Octave</div>
+                  <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '6px' }}>
+                    {[1, 2].map((octave) => (
+                      <button
+                        key={octave}
+                        className={`synth-button ${params.subOctave === octave ? 'active' : ''}`}
+                        onClick={() => setParams({ subOctave: octave })}
+                        style={{ fontSize: '10px' }}
+                      >
+                        -{octave}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                <div>
+                  <div style={{ fontSize: '11px', color: '#00d9ff', fontWeight: 'bold', marginBottom: '4px' }}>Noise</div>
+                  <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '6px' }}>
+                    {(['white', 'pink'] as const).map((type) => (
+                      <button
+                        key={type}
+                        className={`synth-button ${params.noiseType === type ? 'active' : ''}`}
+                        onClick={() => setParams({ noiseType: type })}
+                        style={{ textTransform: 'capitalize', fontSize: '10px' }}
+                      >
+                        {type}
+                      </button>
+                    ))}
+                  </div>
+                </div>
               </div>
             </div>
 
-            {/* LFO Sliders */}
+            {/* Voice Sliders */}
             <div className="synth-section">
-              <div className="section-title">LFO</div>
+              <div className="section-title">Voice</div>
               <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '12px' }}>
+                <div>
+                  <div style={{ fontSize: '11px', color: '#00d9ff', fontWeight: 'bold', marginBottom: '4px' }}>Mode</div>
+                  <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '6px' }}>
+                    {(['poly', 'mono'] as const).map((mode) => (
+                      <button
+                        key={mode}
+                        className={`synth-button ${params.voiceMode === mode ? 'active' : ''}`}
+                        onClick={() => setParams({ voiceMode: mode })}
+                        style={{ textTransform: 'capitalize', fontSize: '10px' }}
+                      >
+                        {mode}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                <div>
+                  <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '11px', color: '#00d9ff', fontWeight: 'bold', marginBottom: '4px' }}>
+                    <span>Glide</span>
+                    <span>{(params.glideTime * 1000).toFixed(0)}ms</span>
+                  </div>
+                  <input
+                    type="range"
+                    min="0"
+                    max="1"
+                    step="0.005"
+                    value={params.glideTime}
+                    onChange={(e) => setParams({ glideTime: Number(e.target.value) })}
+                    className="master-volume-slider"
+                    style={{ width: '100%' }}
+                  />
+                </div>
+                <div>
+                  <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '11px', color: '#00d9ff', fontWeight: 'bold', marginBottom: '4px' }}>
+                    <span>Polyphony</span>
+                    <span>{params.maxPolyphony}</span>
+                  </div>
+                  <input
+                    type="range"
+                    min="1"
+                    max="16"
+                    step="1"
+                    value={params.maxPolyphony}
+                    onChange={(e) => setParams({ maxPolyphony: Number(e.target.value) })}
+                    className="master-volume-slider"
+                    style={{ width: '100%' }}
+                  />
+                </div>
+                <div>
+                  <div style={{ fontSize: '11px', color: '#00d9ff', fontWeight: 'bold', marginBottom: '4px' }}>Steal</div>
+                  <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '6px' }}>
+                    {(['oldest', 'quietest'] as const).map((mode) => (
+                      <button
+                        key={mode}
+                        className={`synth-button ${params.voiceStealing === mode ? 'active' : ''}`}
+                        onClick={() => setParams({ voiceStealing: mode })}
+                        style={{ textTransform: 'capitalize', fontSize: '10px' }}
+                      >
+                        {mode}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                <div>
+                  <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '11px', color: '#00d9ff', fontWeight: 'bold', marginBottom: '4px' }}>
+                    <span>Unison</span>
+                    <span>{unisonCount(params)} ({unisonNoteLimit(params)} notes)</span>
+                  </div>
+                  <input
+                    type="range"
+                    min="1"
+                    max={MAX_UNISON}
+                    step="1"
+                    value={params.unisonVoices}
+                    onChange={(e) => setParams({ unisonVoices: Number(e.target.value) })}
+                    className="master-volume-slider"
+                    style={{ width: '100%' }}
+                  />
+                </div>
+                <div>
+                  <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '11px', color: '#00d9ff', fontWeight: 'bold', marginBottom: '4px' }}>
+                    <span>Unison Detune</span>
+                    <span>{params.unisonDetune.toFixed(0)} cents</span>
+                  </div>
+                  <input
+                    type="range"
+                    min="0"
+                    max="100"
+                    step="1"
+                    value={params.unisonDetune}
+                    onChange={(e) => setParams({ unisonDetune: Number(e.target.value) })}
+                    className="master-volume-slider"
+                    style={{ width: '100%' }}
+                  />
+                </div>
+                <div>
+                  <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '11px', color: '#00d9ff', fontWeight: 'bold', marginBottom: '4px' }}>
+                    <span>Detune Curve</span>
+                    <span>{(params.unisonCurve * 100).toFixed(0)}%</span>
+                  </div>
+                  <input
+                    type="range"
+                    min="0"
+                    max="1"
+                    step="0.01"
+                    value={params.unisonCurve}
+                    onChange={(e) => setParams({ unisonCurve: Number(e.target.value) })}
+                    className="master-volume-slider"
+                    style={{ width: '100%' }}
+                  />
+                </div>
+                <div>
+                  <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '11px', color: '#00d9ff', fontWeight: 'bold', marginBottom: '4px' }}>
+                    <span>Stereo Spread</span>
+                    <span>{(params.unisonSpread * 100).toFixed(0)}%</span>
+                  </div>
+                  <input
+                    type="range"
+                    min="0"
+                    max="1"
+                    step="0.01"
+                    value={params.unisonSpread}
+                    onChange={(e) => setParams({ unisonSpread: Number(e.target.value) })}
+                    className="master-volume-slider"
+                    style={{ width: '100%' }}
+                  />
+                </div>
+              </div>
+            </div>
+
+            {/* Filter Sliders */}
+            <div className="synth-section">
+              <div className="section-title">Filter</div>
+              <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '12px' }}>
+                <div>
+                  <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '11px', color: '#00d9ff', fontWeight: 'bold', marginBottom: '4px' }}>
+                    <span>Cutoff</span>
+                    <span>{params.cutoff.toFixed(0)} Hz</span>
+                  </div>
+                  <input
+                    type="range"
+                    min="20"
+                    max="20000"
+                    step="10"
+                    value={params.cutoff}
+                    onChange={(e) => setParams({ cutoff: Number(e.target.value) })}
+                    className="master-volume-slider"
+                    style={{ width: '100%' }}
+                  />
+                </div>
                 <div>
                   <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '11px', color: '#00d9ff', fontWeight: 'bold', marginBottom: '4px' }}>
-                    <span>Rate</span>
-                    <span>{params.lfoRate.toFixed(2)} Hz</span>
+                    <span>Resonance</span>
+                    <span>{params.resonance.toFixed(2)}</span>
                   </div>
                   <input
                     type="range"
                     min="0.1"
-                    max="50"
+                    max="30"
                     step="0.1"
-                    value={params.lfoRate}
-                    onChange={(e) => setParams({ lfoRate: Number(e.target.value) })}
+                    value={params.resonance}
+                    onChange={(e) => setParams({ resonance: Number(e.target.value) })}
+                    className="master-volume-slider"
+                    style={{ width: '100%' }}
+                  />
+                </div>
+              </div>
+              <div style={{ marginTop: '12px' }}>
+                <div style={{ fontSize: '11px', color: '#00d9ff', fontWeight: 'bold', marginBottom: '4px' }}>Filter Type</div>
+                <div style={{ display: 'grid', gridTemplateColumns: 'repeat(5, 1fr)', gap: '6px' }}>
+                  {FILTER_TYPES.map((type) => (
+                    <button
+                      key={type}
+                      className={`synth-button ${params.filterType === type ? 'active' : ''}`}
+                      onClick={() => setParams({ filterType: type })}
+                      style={{ textTransform: 'capitalize', fontSize: '10px' }}
+                    >
+                      {type}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            </div>
+
+            {/* Filter Envelope Sliders */}
+            <div className="synth-section">
+              <div className="section-title">Filter Envelope</div>
+              <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '12px' }}>
+                <div>
+                  <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '11px', color: '#00d9ff', fontWeight: 'bold', marginBottom: '4px' }}>
+                    <span>Env Mod</span>
+                    <span>{params.filterEnvAmount > 0 ? '+' : ''}{(params.filterEnvAmount * 100).toFixed(0)}%</span>
+                  </div>
+                  <input
+                    type="range"
+                    min="-1"
+                    max="1"
+                    step="0.01"
+                    value={params.filterEnvAmount}
+                    onChange={(e) => setParams({ filterEnvAmount: Number(e.target.value) })}
+                    className="master-volume-slider"
+                    style={{ width: '100%' }}
+                  />
+                </div>
+                <div>
+                  <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '11px', color: '#00d9ff', fontWeight: 'bold', marginBottom: '4px' }}>
+                    <span>Key Track</span>
+                    <span>{(params.filterKeyTrack * 100).toFixed(0)}%</span>
+                  </div>
+                  <input
+                    type="range"
+                    min="0"
+                    max="1"
+                    step="0.01"
+                    value={params.filterKeyTrack}
+                    onChange={(e) => setParams({ filterKeyTrack: Number(e.target.value) })}
+                    className="master-volume-slider"
+                    style={{ width: '100%' }}
+                  />
+                </div>
+              </div>
+              <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '12px', marginTop: '12px' }}>
+                <div>
+                  <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '11px', color: '#00d9ff', fontWeight: 'bold', marginBottom: '4px' }}>
+                    <span>Attack</span>
+                    <span>{(params.filterAttack * 1000).toFixed(1)}ms</span>
+                  </div>
+                  <input
+                    type="range"
+                    min="0.001"
+                    max="2"
+                    step="0.001"
+                    value={params.filterAttack}
+                    onChange={(e) => setParams({ filterAttack: Number(e.target.value) })}
+                    className="master-volume-slider"
+                    style={{ width: '100%' }}
+                  />
+                </div>
+                <div>
+                  <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '11px', color: '#00d9ff', fontWeight: 'bold', marginBottom: '4px' }}>
+                    <span>Decay</span>
+                    <span>{(params.filterDecay * 1000).toFixed(1)}ms</span>
+                  </div>
+                  <input
+                    type="range"
+                    min="0.01"
+                    max="2"
+                    step="0.01"
+                    value={params.filterDecay}
+                    onChange={(e) => setParams({ filterDecay: Number(e.target.value) })}
+                    className="master-volume-slider"
+                    style={{ width: '100%' }}
+                  />
+                </div>
+              </div>
+              <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '12px', marginTop: '12px' }}>
+                <div>
+                  <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '11px', color: '#00d9ff', fontWeight: 'bold', marginBottom: '4px' }}>
+                    <span>Sustain</span>
+                    <span>{(params.filterSustain * 100).toFixed(1)}%</span>
+                  </div>
+                  <input
+                    type="range"
+                    min="0"
+                    max="1"
+                    step="0.01"
+                    value={params.filterSustain}
+                    onChange={(e) => setParams({ filterSustain: Number(e.target.value) })}
+                    className="master-volume-slider"
+                    style={{ width: '100%' }}
+                  />
+                </div>
+                <div>
+                  <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '11px', color: '#00d9ff', fontWeight: 'bold', marginBottom: '4px' }}>
+                    <span>Release</span>
+                    <span>{(params.filterRelease * 1000).toFixed(1)}ms</span>
+                  </div>
+                  <input
+                    type="range"
+                    min="0.01"
+                    max="2"
+                    step="0.01"
+                    value={params.filterRelease}
+                    onChange={(e) => setParams({ filterRelease: Number(e.target.value) })}
+                    className="master-volume-slider"
+                    style={{ width: '100%' }}
+                  />
+                </div>
+              </div>
+            </div>
+
+            {/* Envelope Sliders */}
+            <div className="synth-section">
+              <div className="section-title">Envelope</div>
+              <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '12px' }}>
+                <div>
+                  <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '11px', color: '#00d9ff', fontWeight: 'bold', marginBottom: '4px' }}>
+                    <span>Attack</span>
+                    <span>{(params.attack * 1000).toFixed(1)}ms</span>
+                  </div>
+                  <input
+                    type="range"
+                    min="0.001"
+                    max="1"
+                    step="0.001"
+                    value={params.attack}
+                    onChange={(e) => setParams({ attack: Number(e.target.value) })}
+                    className="master-volume-slider"
+                    style={{ width: '100%' }}
+                  />
+                </div>
+                <div>
+                  <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '11px', color: '#00d9ff', fontWeight: 'bold', marginBottom: '4px' }}>
+                    <span>Decay</span>
+                    <span>{(params.decay * 1000).toFixed(1)}ms</span>
+                  </div>
+                  <input
+                    type="range"
+                    min="0.01"
+                    max="1"
+                    step="0.01"
+                    value={params.decay}
+                    onChange={(e) => setParams({ decay: Number(e.target.value) })}
+                    className="master-volume-slider"
+                    style={{ width: '100%' }}
+                  />
+                </div>
+              </div>
+              <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '12px', marginTop: '12px' }}>
+                <div>
+                  <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '11px', color: '#00d9ff', fontWeight: 'bold', marginBottom: '4px' }}>
+                    <span>Sustain</span>
+                    <span>{(params.sustain * 100).toFixed(1)}%</span>
+                  </div>
+                  <input
+                    type="range"
+                    min="0"
+                    max="1"
+                    step="0.01"
+                    value={params.sustain}
+                    onChange={(e) => setParams({ sustain: Number(e.target.value) })}
+                    className="master-volume-slider"
+                    style={{ width: '100%' }}
+                  />
+                </div>
+                <div>
+                  <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '11px', color: '#00d9ff', fontWeight: 'bold', marginBottom: '4px' }}>
+                    <span>Release</span>
+                    <span>{(params.release * 1000).toFixed(1)}ms</span>
+                  </div>
+                  <input
+                    type="range"
+                    min="0.01"
+                    max="2"
+                    step="0.01"
+                    value={params.release}
+                    onChange={(e) => setParams({ release: Number(e.target.value) })}
+                    className="master-volume-slider"
+                    style={{ width: '100%' }}
+                  />
+                </div>
+              </div>
+            </div>
+
+            {/* Accent / Velocity Sliders */}
+            <div className="synth-section">
+              <div className="section-title">Accent</div>
+              <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '12px' }}>
+                <div>
+                  <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '11px', color: '#00d9ff', fontWeight: 'bold', marginBottom: '4px' }}>
+                    <span>Accent</span>
+                    <span>{(params.accentAmount * 100).toFixed(1)}%</span>
+                  </div>
+                  <input
+                    type="range"
+                    min="0"
+                    max="1"
+                    step="0.01"
+                    value={params.accentAmount}
+                    onChange={(e) => setParams({ accentAmount: Number(e.target.value) })}
+                    className="master-volume-slider"
+                    style={{ width: '100%' }}
+                  />
+                </div>
+                <div>
+                  <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '11px', color: '#00d9ff', fontWeight: 'bold', marginBottom: '4px' }}>
+                    <span>Velocity &gt; Filter</span>
+                    <span>{(params.velocityToFilter * 100).toFixed(1)}%</span>
+                  </div>
+                  <input
+                    type="range"
+                    min="0"
+                    max="1"
+                    step="0.01"
+                    value={params.velocityToFilter}
+                    onChange={(e) => setParams({ velocityToFilter: Number(e.target.value) })}
                     className="master-volume-slider"
                     style={{ width: '100%' }}
                   />
                 </div>
+              </div>
+            </div>
+
+            {/* LFO Sliders */}
+            <div className="synth-section">
+              <div className="section-title">LFO</div>
+              <div style={{ marginBottom: '12px' }}>
+                <div style={{ fontSize: '11px', color: '#00d9ff', fontWeight: 'bold', marginBottom: '4px' }}>Waveform</div>
+                <div style={{ display: 'grid', gridTemplateColumns: 'repeat(5, 1fr)', gap: '6px' }}>
+                  {LFO_WAVEFORMS.map(({ value, label }) => (
+                    <button
+                      key={value}
+                      className={`synth-button ${params.lfoWaveform === value ? 'active' : ''}`}
+                      onClick={() => setParams({ lfoWaveform: value })}
+                      style={{ fontSize: '10px' }}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div style={{ marginBottom: '12px' }}>
+                <div style={{ fontSize: '11px', color: '#00d9ff', fontWeight: 'bold', marginBottom: '4px' }}>Destination</div>
+                <div style={{ display: 'grid', gridTemplateColumns: 'repeat(5, 1fr)', gap: '6px' }}>
+                  {LFO_DESTINATIONS.map(({ value, label }) => (
+                    <button
+                      key={value}
+                      className={`synth-button ${params.lfoDestination === value ? 'active' : ''}`}
+                      onClick={() => setParams({ lfoDestination: value })}
+                      style={{ fontSize: '10px' }}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '6px', marginBottom: '12px' }}>
+                <button
+                  className={`synth-button ${params.lfoSync ? 'active' : ''}`}
+                  onClick={() => setParams({ lfoSync: !params.lfoSync })}
+                  style={{ fontSize: '10px' }}
+                >
+                  Tempo Sync
+                </button>
+                <button
+                  className={`synth-button ${params.lfoRetrigger ? 'active' : ''}`}
+                  onClick={() => setParams({ lfoRetrigger: !params.lfoRetrigger })}
+                  style={{ fontSize: '10px' }}
+                >
+                  Key Retrigger
+                </button>
+              </div>
+              <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '12px' }}>
+                {params.lfoSync ? (
+                  <div>
+                    <div style={{ fontSize: '11px', color: '#00d9ff', fontWeight: 'bold', marginBottom: '4px' }}>Division</div>
+                    <select
+                      value={params.lfoSyncDivision}
+                      onChange={(e) => setParams({ lfoSyncDivision: e.target.value as LfoSyncDivision })}
+                      style={{ width: '100%', padding: '4px', backgroundColor: '#1a2332', color: '#00d9ff', border: '1px solid #00d9ff', borderRadius: '4px' }}
+                    >
+                      {LFO_SYNC_DIVISIONS.map((division) => (
+                        <option key={division} value={division}>{division}</option>
+                      ))}
+                    </select>
+                  </div>
+                ) : (
+                  <div>
+                    <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '11px', color: '#00d9ff', fontWeight: 'bold', marginBottom: '4px' }}>
+                      <span>Rate</span>
+                      <span>{params.lfoRate.toFixed(2)} Hz</span>
+                    </div>
+                    <input
+                      type="range"
+                      min="0.1"
+                      max="50"
+                      step="0.1"
+                      value={params.lfoRate}
+                      onChange={(e) => setParams({ lfoRate: Number(e.target.value) })}
+                      className="master-volume-slider"
+                      style={{ width: '100%' }}
+                    />
+                  </div>
+                )}
                 <div>
                   <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '11px', color: '#00d9ff', fontWeight: 'bold', marginBottom: '4px' }}>
                     <span>Amount (Modulation)</span>
@@ -547,7 +1517,77 @@ function App() {
               </div>
             </div>
 
-            {/* Effects Sliders - Ring Mod, Wetness, Coarseness */}
+            {/* Drive Sliders - Coarseness, Curve, Bit/Rate Reduction */}
+            <div className="synth-section">
+              <div className="section-title">Drive</div>
+              <div style={{ marginBottom: '12px' }}>
+                <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '11px', color: '#00d9ff', fontWeight: 'bold', marginBottom: '4px' }}>
+                  <span>Coarseness</span>
+                  <span>{(params.coarseness * 100).toFixed(1)}%</span>
+                </div>
+                <input
+                  type="range"
+                  min="0"
+                  max="1"
+                  step="0.01"
+                  value={params.coarseness}
+                  onChange={(e) => setParams({ coarseness: Number(e.target.value) })}
+                  className="master-volume-slider"
+                  style={{ width: '100%' }}
+                />
+              </div>
+              <div style={{ marginBottom: '12px' }}>
+                <div style={{ fontSize: '11px', color: '#00d9ff', fontWeight: 'bold', marginBottom: '4px' }}>Curve</div>
+                <div style={{ display: 'grid', gridTemplateColumns: 'repeat(3, 1fr)', gap: '6px' }}>
+                  {(['soft', 'hard', 'fold'] as const).map((curve) => (
+                    <button
+                      key={curve}
+                      className={`synth-button ${params.driveCurve === curve ? 'active' : ''}`}
+                      onClick={() => setParams({ driveCurve: curve })}
+                      style={{ textTransform: 'capitalize', fontSize: '10px' }}
+                    >
+                      {curve}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '12px' }}>
+                <div>
+                  <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '11px', color: '#00d9ff', fontWeight: 'bold', marginBottom: '4px' }}>
+                    <span>Bit Depth</span>
+                    <span>{params.crushBits.toFixed(0)} bits</span>
+                  </div>
+                  <input
+                    type="range"
+                    min="1"
+                    max="16"
+                    step="1"
+                    value={params.crushBits}
+                    onChange={(e) => setParams({ crushBits: Number(e.target.value) })}
+                    className="master-volume-slider"
+                    style={{ width: '100%' }}
+                  />
+                </div>
+                <div>
+                  <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '11px', color: '#00d9ff', fontWeight: 'bold', marginBottom: '4px' }}>
+                    <span>Rate Reduction</span>
+                    <span>{(params.crushRate * 100).toFixed(1)}%</span>
+                  </div>
+                  <input
+                    type="range"
+                    min="0"
+                    max="1"
+                    step="0.01"
+                    value={params.crushRate}
+                    onChange={(e) => setParams({ crushRate: Number(e.target.value) })}
+                    className="master-volume-slider"
+                    style={{ width: '100%' }}
+                  />
+                </div>
+              </div>
+            </div>
+
+            {/* Effects Sliders - Ring Mod, Wetness, Reverb */}
             <div className="synth-section">
               <div className="section-title">Effects</div>
               <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '12px' }}>
@@ -558,48 +1598,124 @@ function App() {
                   </div>
                   <input
                     type="range"
-                    min="0"
-                    max="1"
-                    step="0.01"
-                    value={params.ringModAmount}
-                    onChange={(e) => setParams({ ringModAmount: Number(e.target.value) })}
+                    min="0"
+                    max="1"
+                    step="0.01"
+                    value={params.ringModAmount}
+                    onChange={(e) => setParams({ ringModAmount: Number(e.target.value) })}
+                    className="master-volume-slider"
+                    style={{ width: '100%' }}
+                  />
+                </div>
+                <div>
+                  <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '11px', color: '#00d9ff', fontWeight: 'bold', marginBottom: '4px' }}>
+                    <span>Wetness</span>
+                    <span>{(params.wetness * 100).toFixed(1)}%</span>
+                  </div>
+                  <input
+                    type="range"
+                    min="0"
+                    max="1"
+                    step="0.01"
+                    value={params.wetness}
+                    onChange={(e) => setParams({ wetness: Number(e.target.value) })}
+                    className="master-volume-slider"
+                    style={{ width: '100%' }}
+                  />
+                </div>
+              </div>
+              <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '12px', marginTop: '12px' }}>
+                <div>
+                  <div style={{ fontSize: '11px', color: '#00d9ff', fontWeight: 'bold', marginBottom: '4px' }}>Ring Mod Carrier</div>
+                  <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '6px' }}>
+                    {(['track', 'fixed'] as const).map((mode) => (
+                      <button
+                        key={mode}
+                        className={`synth-button ${params.ringModMode === mode ? 'active' : ''}`}
+                        onClick={() => setParams({ ringModMode: mode })}
+                        style={{ textTransform: 'capitalize', fontSize: '10px' }}
+                      >
+                        {mode}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                {params.ringModMode === 'track' ? (
+                  <div>
+                    <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '11px', color: '#00d9ff', fontWeight: 'bold', marginBottom: '4px' }}>
+                      <span>Ratio</span>
+                      <span>x{params.ringModRatio.toFixed(2)}</span>
+                    </div>
+                    <input
+                      type="range"
+                      min="0.25"
+                      max="8"
+                      step="0.01"
+                      value={params.ringModRatio}
+                      onChange={(e) => setParams({ ringModRatio: Number(e.target.value) })}
+                      className="master-volume-slider"
+                      style={{ width: '100%' }}
+                    />
+                  </div>
+                ) : (
+                  <div>
+                    <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '11px', color: '#00d9ff', fontWeight: 'bold', marginBottom: '4px' }}>
+                      <span>Frequency</span>
+                      <span>{params.ringModFrequency.toFixed(0)} Hz</span>
+                    </div>
+                    <input
+                      type="range"
+                      min="1"
+                      max="2000"
+                      step="1"
+                      value={params.ringModFrequency}
+                      onChange={(e) => setParams({ ringModFrequency: Number(e.target.value) })}
+                      className="master-volume-slider"
+                      style={{ width: '100%' }}
+                    />
+                  </div>
+                )}
+              </div>
+              <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '12px', marginTop: '12px' }}>
+                <div>
+                  <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '11px', color: '#00d9ff', fontWeight: 'bold', marginBottom: '4px' }}>
+                    <span>Reverb Decay</span>
+                    <span>{params.reverbDecay.toFixed(1)}s</span>
+                  </div>
+                  <input
+                    type="range"
+                    min="0.1"
+                    max="10"
+                    step="0.1"
+                    value={params.reverbDecay}
+                    onChange={(e) => setParams({ reverbDecay: Number(e.target.value) })}
                     className="master-volume-slider"
                     style={{ width: '100%' }}
                   />
                 </div>
                 <div>
                   <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '11px', color: '#00d9ff', fontWeight: 'bold', marginBottom: '4px' }}>
-                    <span>Wetness</span>
-                    <span>{(params.wetness * 100).toFixed(1)}%</span>
+                    <span>Pre-Delay</span>
+                    <span>{(params.reverbPreDelay * 1000).toFixed(0)}ms</span>
                   </div>
                   <input
                     type="range"
                     min="0"
-                    max="1"
-                    step="0.01"
-                    value={params.wetness}
-                    onChange={(e) => setParams({ wetness: Number(e.target.value) })}
+                    max="0.2"
+                    step="0.001"
+                    value={params.reverbPreDelay}
+                    onChange={(e) => setParams({ reverbPreDelay: Number(e.target.value) })}
                     className="master-volume-slider"
                     style={{ width: '100%' }}
                   />
                 </div>
               </div>
-              <div style={{ marginTop: '12px' }}>
-                <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '11px', color: '#00d9ff', fontWeight: 'bold', marginBottom: '4px' }}>
-                  <span>Coarseness</span>
-                  <span>{(params.coarseness * 100).toFixed(1)}%</span>
-                </div>
-                <input
-                  type="range"
-                  min="0"
-                  max="1"
-                  step="0.01"
-                  value={params.coarseness}
-                  onChange={(e) => setParams({ coarseness: Number(e.target.value) })}
-                  className="master-volume-slider"
-                  style={{ width: '100%' }}
-                />
-              </div>
+            </div>
+
+            {/* Master Insert Sliders */}
+            <div className="synth-section">
+              <div className="section-title">Master Inserts</div>
+              <InsertChain params={params} onChange={setParams} />
             </div>
           </div>
         )}
@@ -611,8 +1727,8 @@ function App() {
           <div className="section-title">VCO</div>
           <div style={{ marginBottom: '15px' }}>
             <div style={{ fontSize: '11px', color: '#00d9ff', fontWeight: 'bold', textTransform: 'uppercase', marginBottom: '8px' }}>Wave Shape</div>
-            <div style={{ display: 'grid', gridTemplateColumns: 'repeat(4, 1fr)', gap: '6px' }}>
-              {(['sine', 'triangle', 'sawtooth', 'square'] as const).map((type) => (
+            <div style={{ display: 'grid', gridTemplateColumns: 'repeat(6, 1fr)', gap: '6px' }}>
+              {(['sine', 'triangle', 'sawtooth', 'square', 'wavetable', 'sample'] as const).map((type) => (
                 <button
                   key={type}
                   className={`synth-button ${params.oscillatorType === type ? 'active' : ''}`}
@@ -623,6 +1739,26 @@ function App() {
                 </button>
               ))}
             </div>
+            {params.oscillatorType === 'wavetable' && (
+              <HarmonicEditor
+                wavetable={params.wavetable}
+                position={params.wavetablePosition}
+                onChange={(wavetable) => setParams({ wavetable })}
+                onPositionChange={(wavetablePosition) => setParams({ wavetablePosition })}
+                onImport={handleImportWavetable}
+              />
+            )}
+            {params.oscillatorType === 'sample' && (
+              <SamplerPanel
+                sample={params.sample}
+                samples={samples}
+                onChange={handleSampleChange}
+                onLoadFile={handleLoadSampleFile}
+                onSelect={handleSelectSample}
+                onDelete={handleDeleteSample}
+                onDetectRoot={handleDetectSampleRoot}
+              />
+            )}
           </div>
           <div className="knobs-grid">
             <Knob
@@ -642,6 +1778,197 @@ function App() {
           </div>
         </div>
 
+        {/* VCO 2 Section */}
+        <div className="synth-section">
+          <div className="section-title">VCO 2</div>
+          <div style={{ marginBottom: '15px' }}>
+            <div style={{ fontSize: '11px', color: '#00d9ff', fontWeight: 'bold', textTransform: 'uppercase', marginBottom: '8px' }}>Wave Shape</div>
+            <div style={{ display: 'grid', gridTemplateColumns: 'repeat(4, 1fr)', gap: '6px' }}>
+              {(['sine', 'triangle', 'sawtooth', 'square'] as const).map((type) => (
+                <button
+                  key={type}
+                  className={`synth-button ${params.osc2Type === type ? 'active' : ''}`}
+                  onClick={() => setParams({ osc2Type: type })}
+                  style={{ textTransform: 'capitalize', fontSize: '11px' }}
+                >
+                  {type}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="knobs-grid">
+            <Knob
+              label="Octave"
+              value={params.osc2Octave}
+              min={-2}
+              max={2}
+              onChange={(v) => setParams({ osc2Octave: Math.round(v) })}
+            />
+            <Knob
+              label="Semitone"
+              value={params.osc2Semitone}
+              min={-12}
+              max={12}
+              onChange={(v) => setParams({ osc2Semitone: Math.round(v) })}
+            />
+            <Knob
+              label="Fine"
+              value={params.osc2Fine}
+              min={-50}
+              max={50}
+              onChange={(v) => setParams({ osc2Fine: v })}
+            />
+          </div>
+          <div style={{ marginTop: '15px' }}>
+            <button
+              className={`synth-button ${params.osc2Sync ? 'active' : ''}`}
+              onClick={() => setParams({ osc2Sync: !params.osc2Sync })}
+              style={{ fontSize: '11px', width: '100%' }}
+            >
+              Hard Sync
+            </button>
+          </div>
+        </div>
+
+        {/* Mixer Section */}
+        <div className="synth-section">
+          <div className="section-title">Mixer</div>
+          <div className="knobs-grid">
+            <Knob
+              label="VCO 1"
+              value={params.osc1Level * 100}
+              min={0}
+              max={100}
+              onChange={(v) => setParams({ osc1Level: v / 100 })}
+            />
+            <Knob
+              label="VCO 2"
+              value={params.osc2Level * 100}
+              min={0}
+              max={100}
+              onChange={(v) => setParams({ osc2Level: v / 100 })}
+            />
+            <Knob
+              label="Sub"
+              value={params.subLevel * 100}
+              min={0}
+              max={100}
+              onChange={(v) => setParams({ subLevel: v / 100 })}
+            />
+            <Knob
+              label="Noise"
+              value={params.noiseLevel * 100}
+              min={0}
+              max={100}
+              onChange={(v) => setParams({ noiseLevel: v / 100 })}
+            />
+          </div>
+          <div style={{ marginTop: '15px', display: 'grid', gridTemplateColumns: 'repeat(4, 1fr)', gap: '6px' }}>
+            {[1, 2].map((octave) => (
+              <button
+                key={octave}
+                className={`synth-button ${params.subOctave === octave ? 'active' : ''}`}
+                onClick={() => setParams({ subOctave: octave })}
+                style={{ fontSize: '11px' }}
+              >
+                Sub -{octave}
+              </button>
+            ))}
+            {(['white', 'pink'] as const).map((type) => (
+              <button
+                key={type}
+                className={`synth-button ${params.noiseType === type ? 'active' : ''}`}
+                onClick={() => setParams({ noiseType: type })}
+                style={{ textTransform: 'capitalize', fontSize: '11px' }}
+              >
+                {type}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Voice Section */}
+        <div className="synth-section">
+          <div className="section-title">Voice</div>
+          <div style={{ marginBottom: '15px' }}>
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '6px' }}>
+              {(['poly', 'mono'] as const).map((mode) => (
+                <button
+                  key={mode}
+                  className={`synth-button ${params.voiceMode === mode ? 'active' : ''}`}
+                  onClick={() => setParams({ voiceMode: mode })}
+                  style={{ textTransform: 'capitalize', fontSize: '11px' }}
+                >
+                  {mode}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="knobs-grid">
+            <Knob
+              label="Glide"
+              value={params.glideTime * 1000}
+              min={0}
+              max={1000}
+              onChange={(v) => setParams({ glideTime: v / 1000 })}
+            />
+            <Knob
+              label="Polyphony"
+              value={params.maxPolyphony}
+              min={1}
+              max={16}
+              onChange={(v) => setParams({ maxPolyphony: Math.round(v) })}
+            />
+          </div>
+          <div style={{ marginTop: '15px' }}>
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '6px' }}>
+              {(['oldest', 'quietest'] as const).map((mode) => (
+                <button
+                  key={mode}
+                  className={`synth-button ${params.voiceStealing === mode ? 'active' : ''}`}
+                  onClick={() => setParams({ voiceStealing: mode })}
+                  style={{ textTransform: 'capitalize', fontSize: '11px' }}
+                >
+                  Steal {mode}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="knobs-grid" style={{ marginTop: '15px' }}>
+            <Knob
+              label="Unison"
+              value={params.unisonVoices}
+              min={1}
+              max={MAX_UNISON}
+              onChange={(v) => setParams({ unisonVoices: Math.round(v) })}
+            />
+            <Knob
+              label="Uni Detune"
+              value={params.unisonDetune}
+              min={0}
+              max={100}
+              onChange={(v) => setParams({ unisonDetune: v })}
+            />
+            <Knob
+              label="Curve"
+              value={params.unisonCurve * 100}
+              min={0}
+              max={100}
+              onChange={(v) => setParams({ unisonCurve: v / 100 })}
+            />
+            <Knob
+              label="Spread"
+              value={params.unisonSpread * 100}
+              min={0}
+              max={100}
+              onChange={(v) => setParams({ unisonSpread: v / 100 })}
+            />
+          </div>
+          <div style={{ marginTop: '8px', fontSize: '11px', color: '#ccc', textAlign: 'center' }}>
+            {unisonCount(params)} voice{unisonCount(params) === 1 ? '' : 's'} per note · {unisonNoteLimit(params)} notes at once
+          </div>
+        </div>
+
         {/* Filter Section */}
         <div className="synth-section">
           <div className="section-title">Filter</div>
@@ -662,13 +1989,59 @@ function App() {
             />
             <Knob
               label="Type"
-              value={params.filterType === 'lowpass' ? 0 : params.filterType === 'highpass' ? 1 : params.filterType === 'bandpass' ? 2 : 3}
+              value={Math.max(0, FILTER_TYPES.indexOf(params.filterType))}
               min={0}
-              max={3}
-              onChange={(v) => {
-                const types: BiquadFilterType[] = ['lowpass', 'highpass', 'bandpass', 'notch'];
-                setParams({ filterType: types[Math.round(v)] });
-              }}
+              max={FILTER_TYPES.length - 1}
+              onChange={(v) => setParams({ filterType: FILTER_TYPES[Math.round(v)] })}
+            />
+          </div>
+        </div>
+
+        {/* Filter Envelope Section */}
+        <div className="synth-section">
+          <div className="section-title">Filter Envelope</div>
+          <div className="knobs-grid">
+            <Knob
+              label="Env Mod"
+              value={params.filterEnvAmount * 100}
+              min={-100}
+              max={100}
+              onChange={(v) => setParams({ filterEnvAmount: v / 100 })}
+            />
+            <Knob
+              label="Key Track"
+              value={params.filterKeyTrack * 100}
+              min={0}
+              max={100}
+              onChange={(v) => setParams({ filterKeyTrack: v / 100 })}
+            />
+            <Knob
+              label="Attack"
+              value={params.filterAttack * 1000}
+              min={1}
+              max={2000}
+              onChange={(v) => setParams({ filterAttack: v / 1000 })}
+            />
+            <Knob
+              label="Decay"
+              value={params.filterDecay * 1000}
+              min={1}
+              max={2000}
+              onChange={(v) => setParams({ filterDecay: v / 1000 })}
+            />
+            <Knob
+              label="Sustain"
+              value={params.filterSustain * 100}
+              min={0}
+              max={100}
+              onChange={(v) => setParams({ filterSustain: v / 100 })}
+            />
+            <Knob
+              label="Release"
+              value={params.filterRelease * 1000}
+              min={1}
+              max={2000}
+              onChange={(v) => setParams({ filterRelease: v / 1000 })}
             />
           </div>
         </div>
@@ -708,17 +2081,90 @@ function App() {
           </div>
         </div>
 
-        {/* LFO Section */}
+        {/* Accent Section */}
         <div className="synth-section">
-          <div className="section-title">LFO</div>
+          <div className="section-title">Accent</div>
           <div className="knobs-grid">
             <Knob
-              label="Rate"
-              value={params.lfoRate}
-              min={0.1}
-              max={50}
-              onChange={(v) => setParams({ lfoRate: v })}
+              label="Accent"
+              value={params.accentAmount * 100}
+              min={0}
+              max={100}
+              onChange={(v) => setParams({ accentAmount: v / 100 })}
             />
+            <Knob
+              label="Vel > Filter"
+              value={params.velocityToFilter * 100}
+              min={0}
+              max={100}
+              onChange={(v) => setParams({ velocityToFilter: v / 100 })}
+            />
+          </div>
+        </div>
+
+        {/* LFO Section */}
+        <div className="synth-section">
+          <div className="section-title">LFO</div>
+          <div style={{ marginBottom: '15px' }}>
+            <div style={{ display: 'grid', gridTemplateColumns: 'repeat(5, 1fr)', gap: '6px', marginBottom: '6px' }}>
+              {LFO_WAVEFORMS.map(({ value, label }) => (
+                <button
+                  key={value}
+                  className={`synth-button ${params.lfoWaveform === value ? 'active' : ''}`}
+                  onClick={() => setParams({ lfoWaveform: value })}
+                  style={{ fontSize: '11px' }}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            <div style={{ display: 'grid', gridTemplateColumns: 'repeat(5, 1fr)', gap: '6px', marginBottom: '6px' }}>
+              {LFO_DESTINATIONS.map(({ value, label }) => (
+                <button
+                  key={value}
+                  className={`synth-button ${params.lfoDestination === value ? 'active' : ''}`}
+                  onClick={() => setParams({ lfoDestination: value })}
+                  style={{ fontSize: '11px' }}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '6px' }}>
+              <button
+                className={`synth-button ${params.lfoSync ? 'active' : ''}`}
+                onClick={() => setParams({ lfoSync: !params.lfoSync })}
+                style={{ fontSize: '11px' }}
+              >
+                Sync
+              </button>
+              <button
+                className={`synth-button ${params.lfoRetrigger ? 'active' : ''}`}
+                onClick={() => setParams({ lfoRetrigger: !params.lfoRetrigger })}
+                style={{ fontSize: '11px' }}
+              >
+                Retrigger
+              </button>
+            </div>
+          </div>
+          <div className="knobs-grid">
+            {params.lfoSync ? (
+              <Knob
+                label={`Div ${params.lfoSyncDivision}`}
+                value={Math.max(0, LFO_SYNC_DIVISIONS.indexOf(params.lfoSyncDivision))}
+                min={0}
+                max={LFO_SYNC_DIVISIONS.length - 1}
+                onChange={(v) => setParams({ lfoSyncDivision: LFO_SYNC_DIVISIONS[Math.round(v)] })}
+              />
+            ) : (
+              <Knob
+                label="Rate"
+                value={params.lfoRate}
+                min={0.1}
+                max={50}
+                onChange={(v) => setParams({ lfoRate: v })}
+              />
+            )}
             <Knob
               label="Amount"
               value={params.lfoAmount * 100}
@@ -729,9 +2175,65 @@ function App() {
           </div>
         </div>
 
+        {/* Drive Section */}
+        <div className="synth-section">
+          <div className="section-title">Drive</div>
+          <div style={{ marginBottom: '15px' }}>
+            <div style={{ display: 'grid', gridTemplateColumns: 'repeat(3, 1fr)', gap: '6px' }}>
+              {(['soft', 'hard', 'fold'] as const).map((curve) => (
+                <button
+                  key={curve}
+                  className={`synth-button ${params.driveCurve === curve ? 'active' : ''}`}
+                  onClick={() => setParams({ driveCurve: curve })}
+                  style={{ textTransform: 'capitalize', fontSize: '11px' }}
+                >
+                  {curve}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="knobs-grid">
+            <Knob
+              label="Coarseness"
+              value={params.coarseness * 100}
+              min={0}
+              max={100}
+              onChange={(v) => setParams({ coarseness: v / 100 })}
+            />
+            <Knob
+              label="Bits"
+              value={params.crushBits}
+              min={1}
+              max={16}
+              onChange={(v) => setParams({ crushBits: v })}
+            />
+            <Knob
+              label="Rate Red."
+              value={params.crushRate * 100}
+              min={0}
+              max={100}
+              onChange={(v) => setParams({ crushRate: v / 100 })}
+            />
+          </div>
+        </div>
+
         {/* Ring Modulation Section */}
         <div className="synth-section">
           <div className="section-title">Ring Mod</div>
+          <div style={{ marginBottom: '15px' }}>
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '6px' }}>
+              {(['track', 'fixed'] as const).map((mode) => (
+                <button
+                  key={mode}
+                  className={`synth-button ${params.ringModMode === mode ? 'active' : ''}`}
+                  onClick={() => setParams({ ringModMode: mode })}
+                  style={{ textTransform: 'capitalize', fontSize: '11px' }}
+                >
+                  {mode}
+                </button>
+              ))}
+            </div>
+          </div>
           <div className="knobs-grid">
             <Knob
               label="Amount"
@@ -740,8 +2242,59 @@ function App() {
               max={100}
               onChange={(v) => setParams({ ringModAmount: v / 100 })}
             />
+            {params.ringModMode === 'track' ? (
+              <Knob
+                label="Ratio"
+                value={params.ringModRatio}
+                min={0.25}
+                max={8}
+                onChange={(v) => setParams({ ringModRatio: v })}
+              />
+            ) : (
+              <Knob
+                label="Freq"
+                value={params.ringModFrequency}
+                min={1}
+                max={2000}
+                onChange={(v) => setParams({ ringModFrequency: v })}
+              />
+            )}
           </div>
         </div>
+
+        {/* Reverb / Delay Section */}
+        <div className="synth-section">
+          <div className="section-title">Reverb / Delay</div>
+          <div className="knobs-grid">
+            <Knob
+              label="Wetness"
+              value={params.wetness * 100}
+              min={0}
+              max={100}
+              onChange={(v) => setParams({ wetness: v / 100 })}
+            />
+            <Knob
+              label="Decay"
+              value={params.reverbDecay}
+              min={0.1}
+              max={10}
+              onChange={(v) => setParams({ reverbDecay: v })}
+            />
+            <Knob
+              label="Pre-Delay"
+              value={params.reverbPreDelay * 1000}
+              min={0}
+              max={200}
+              onChange={(v) => setParams({ reverbPreDelay: v / 1000 })}
+            />
+          </div>
+        </div>
+
+        {/* Master Inserts Section */}
+        <div className="synth-section">
+          <div className="section-title">Master Inserts</div>
+          <InsertChain params={params} onChange={setParams} />
+        </div>
           </div>
         )}
 
@@ -756,31 +2309,67 @@ function App() {
               type="range"
               min="0"
               max="100"
-              value={params.volume * 100}
+              value={masterVolume * 100}
               onChange={(e) => {
+                // The engine's output level, separate from the patch's Level
                 const newVolume = Number(e.target.value) / 100;
-                setParams({ volume: newVolume });
+                setMasterVolume(newVolume);
                 if (synthRef.current) {
                   synthRef.current.setMasterVolume(newVolume);
                 }
               }}
               className="master-volume-slider"
             />
-            <span className="master-volume-value">{Math.round(params.volume * 100)}%</span>
+            <span className="master-volume-value">{Math.round(masterVolume * 100)}%</span>
           </div>
         </div>
 
+        {/* Arpeggiator (always visible): sits between the keyboard or MIDI input and the engine */}
+        <div className="synth-section">
+          <div className="section-title">Arpeggiator</div>
+          <ArpeggiatorPanel settings={arpeggiator} onChange={setArpeggiator} />
+        </div>
+
+        {/* Tuning (always visible): applies to the keyboard and the sequencer */}
+        <div className="synth-section">
+          <div className="section-title">Tuning</div>
+          <TuningPanel tuning={params.tuning} onChange={(tuning) => setParams({ tuning })} onMessage={setDisplayText} />
+        </div>
+
+        {/* Modulation matrix (always visible): drives parameters from either view */}
+        <div className="synth-section">
+          <div className="section-title">Mod Matrix</div>
+          <ModMatrixPanel matrix={params.modMatrix} onChange={(modMatrix) => setParams({ modMatrix })} />
+        </div>
+
         {/* Sequencer */}
         <Sequencer
           steps={sequencerSteps}
           currentStep={currentStep}
           tempo={tempo}
+          timing={sequencerTiming}
           isRunning={isSequencerRunning}
           onStepChange={setSequencerStep}
+          onLengthChange={setPatternLength}
+          onTimingChange={setSequencerTiming}
+          drums={drums}
+          onDrumStepChange={setDrumStep}
+          onDrumVoiceChange={setDrumVoice}
           onTempoChange={setTempo}
           onTogglePlay={() => setIsSequencerRunning(!isSequencerRunning)}
           onClear={handleClearSequencer}
           onRandom={handleRandomizeSequencer}
+          isExporting={isExporting}
+          onExport={handleExportWav}
+        />
+
+        {/* Recorder */}
+        <Recorder
+          getEngine={() => synthRef.current}
+          engineType={engineType}
+          patchName={patches.find((patch) => patch.id === currentPatchId)?.name ?? presetDisplayName(currentPreset)}
+          tempo={tempo}
+          onMessage={setDisplayText}
         />
 
         {/* Patch Manager */}
@@ -0,0 +1,95 @@
+import React from 'react';
+import { LfoSyncDivision } from '../synthesizer/SynthEngine';
+import { LFO_SYNC_DIVISIONS } from '../synthesizer/lfo';
+import { ARP_MAX_OCTAVES, ARP_MODES, ArpeggiatorSettings } from '../synthesizer/arpeggiator';
+import { Knob } from './Knob';
+
+interface ArpeggiatorPanelProps {
+  settings: ArpeggiatorSettings;
+  onChange: (settings: Partial<ArpeggiatorSettings>) => void;
+}
+
+const OCTAVE_CHOICES = Array.from({ length: ARP_MAX_OCTAVES }, (_, i) => i + 1);
+
+export const ArpeggiatorPanel: React.FC<ArpeggiatorPanelProps> = ({ settings, onChange }) => {
+  return (
+    <div>
+      <div style={{ display: 'grid', gridTemplateColumns: 'repeat(3, 1fr)', gap: '6px', marginBottom: '8px' }}>
+        <button
+          className={`synth-button ${settings.enabled ? 'active' : ''}`}
+          onClick={() => onChange({ enabled: !settings.enabled })}
+          style={{ fontSize: '10px' }}
+        >
+          {settings.enabled ? 'On' : 'Off'}
+        </button>
+        <button
+          className={`synth-button ${settings.latch ? 'active' : ''}`}
+          onClick={() => onChange({ latch: !settings.latch })}
+          style={{ fontSize: '10px' }}
+        >
+          Latch
+        </button>
+        <button
+          className={`synth-button ${settings.saveWithPatch ? 'active' : ''}`}
+          onClick={() => onChange({ saveWithPatch: !settings.saveWithPatch })}
+          style={{ fontSize: '10px' }}
+        >
+          Save in Patch
+        </button>
+      </div>
+
+      <div style={{ display: 'grid', gridTemplateColumns: `repeat(${ARP_MODES.length}, 1fr)`, gap: '6px', marginBottom: '8px' }}>
+        {ARP_MODES.map(({ value, label }) => (
+          <button
+            key={value}
+            className={`synth-button ${settings.mode === value ? 'active' : ''}`}
+            onClick={() => onChange({ mode: value })}
+            style={{ fontSize: '10px' }}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '12px', marginBottom: '8px' }}>
+        <div>
+          <div style={{ fontSize: '11px', color: '#00d9ff', fontWeight: 'bold', marginBottom: '4px' }}>Octaves</div>
+          <div style={{ display: 'grid', gridTemplateColumns: `repeat(${ARP_MAX_OCTAVES}, 1fr)`, gap: '6px' }}>
+            {OCTAVE_CHOICES.map((octaves) => (
+              <button
+                key={octaves}
+                className={`synth-button ${settings.octaves === octaves ? 'active' : ''}`}
+                onClick={() => onChange({ octaves })}
+                style={{ fontSize: '10px' }}
+              >
+                {octaves}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div>
+          <div style={{ fontSize: '11px', color: '#00d9ff', fontWeight: 'bold', marginBottom: '4px' }}>Rate</div>
+          <select
+            value={settings.division}
+            onChange={(e) => onChange({ division: e.target.value as LfoSyncDivision })}
+            style={{ width: '100%', padding: '4px', backgroundColor: '#1a2332', color: '#00d9ff', border: '1px solid #00d9ff', borderRadius: '4px' }}
+          >
+            {LFO_SYNC_DIVISIONS.map((division) => (
+              <option key={division} value={division}>{division}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="knobs-grid">
+        <Knob
+          label="Gate"
+          value={settings.gate * 100}
+          min={10}
+          max={100}
+          onChange={(v) => onChange({ gate: v / 100 })}
+        />
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,160 @@
+import React, { useRef, useState } from 'react';
+import { WavetableFrame } from '../synthesizer/SynthEngine';
+import { WAVETABLE_MAX_FRAMES, WAVETABLE_PARTIALS, sineFrame } from '../synthesizer/wavetable';
+
+interface HarmonicEditorProps {
+  wavetable: WavetableFrame[];
+  position: number;
+  onChange: (wavetable: WavetableFrame[]) => void;
+  onPositionChange: (position: number) => void;
+  onImport: (file: File) => Promise<WavetableFrame | null>; // Resolves to null when the file can't be used
+}
+
+export const HarmonicEditor: React.FC<HarmonicEditorProps> = ({
+  wavetable,
+  position,
+  onChange,
+  onPositionChange,
+  onImport,
+}) => {
+  const [selectedFrame, setSelectedFrame] = useState(0);
+  const barsRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const frameIndex = Math.min(selectedFrame, wavetable.length - 1);
+  const frame = wavetable[frameIndex] ?? sineFrame();
+
+  // Sets the harmonic under the pointer to the height of the pointer
+  const drawAt = (clientX: number, clientY: number) => {
+    const bars = barsRef.current;
+    if (!bars) return;
+    const rect = bars.getBoundingClientRect();
+    const harmonic = Math.floor(((clientX - rect.left) / rect.width) * WAVETABLE_PARTIALS);
+    if (harmonic < 0 || harmonic >= WAVETABLE_PARTIALS) return;
+    const amplitude = Math.max(0, Math.min(1, 1 - (clientY - rect.top) / rect.height));
+
+    const updated = [...frame];
+    updated[harmonic] = Math.round(amplitude * 100) / 100;
+    onChange(wavetable.map((existing, i) => (i === frameIndex ? updated : existing)));
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drawAt(e.clientX, e.clientY);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.currentTarget.hasPointerCapture(e.pointerId)) {
+      drawAt(e.clientX, e.clientY);
+    }
+  };
+
+  const handleAddFrame = () => {
+    if (wavetable.length >= WAVETABLE_MAX_FRAMES) return;
+    onChange([...wavetable, [...frame]]);
+    setSelectedFrame(wavetable.length);
+  };
+
+  const handleRemoveFrame = () => {
+    if (wavetable.length <= 1) return;
+    onChange(wavetable.filter((_, i) => i !== frameIndex));
+    setSelectedFrame(Math.max(0, frameIndex - 1));
+  };
+
+  // An imported wave becomes a new frame, or replaces the selected one when the table is full
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const imported = await onImport(file);
+    if (!imported) return;
+    if (wavetable.length < WAVETABLE_MAX_FRAMES) {
+      onChange([...wavetable, imported]);
+      setSelectedFrame(wavetable.length);
+    } else {
+      onChange(wavetable.map((existing, i) => (i === frameIndex ? imported : existing)));
+    }
+  };
+
+  const handleClearFrame = () => {
+    onChange(wavetable.map((existing, i) => (i === frameIndex ? sineFrame() : existing)));
+  };
+
+  return (
+    <div className="harmonic-editor">
+      <div className="harmonic-editor-frames">
+        {wavetable.map((_, i) => (
+          <button
+            key={i}
+            className={`synth-button ${i === frameIndex ? 'active' : ''}`}
+            onClick={() => setSelectedFrame(i)}
+            style={{ fontSize: '10px' }}
+          >
+            {i + 1}
+          </button>
+        ))}
+        <button
+          className="synth-button"
+          onClick={handleAddFrame}
+          disabled={wavetable.length >= WAVETABLE_MAX_FRAMES}
+          style={{ fontSize: '10px' }}
+        >
+          +
+        </button>
+        <button
+          className="synth-button"
+          onClick={handleRemoveFrame}
+          disabled={wavetable.length <= 1}
+          style={{ fontSize: '10px' }}
+        >
+          −
+        </button>
+      </div>
+
+      <div
+        ref={barsRef}
+        className="harmonic-editor-bars"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+      >
+        {frame.map((amplitude, i) => (
+          <div key={i} className="harmonic-editor-bar" style={{ height: `${amplitude * 100}%` }} />
+        ))}
+      </div>
+
+      <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '6px', marginTop: '8px' }}>
+        <button className="synth-button" onClick={handleClearFrame} style={{ fontSize: '10px' }}>
+          Clear Frame
+        </button>
+        <button className="synth-button" onClick={() => fileInputRef.current?.click()} style={{ fontSize: '10px' }}>
+          Import WAV
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".wav,audio/wav,audio/x-wav"
+          onChange={handleFileChange}
+          style={{ display: 'none' }}
+        />
+      </div>
+
+      <div style={{ marginTop: '12px' }}>
+        <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '11px', color: '#00d9ff', fontWeight: 'bold', marginBottom: '4px' }}>
+          <span>Position</span>
+          <span>{(position * 100).toFixed(0)}%</span>
+        </div>
+        <input
+          type="range"
+          min="0"
+          max="1"
+          step="0.01"
+          value={position}
+          onChange={(e) => onPositionChange(Number(e.target.value))}
+          disabled={wavetable.length < 2}
+          className="master-volume-slider"
+          style={{ width: '100%' }}
+        />
+      </div>
+    </div>
+  );
+};
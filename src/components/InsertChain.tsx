@@ -0,0 +1,212 @@
+import React from 'react';
+import { DriveCurve, InsertParams, InsertType, LfoSyncDivision } from '../synthesizer/SynthEngine';
+import { LFO_SYNC_DIVISIONS } from '../synthesizer/lfo';
+import { insertOrder, isInsertBypassed, moveInsert } from '../synthesizer/masterInserts';
+import { Knob } from './Knob';
+
+interface InsertChainProps {
+  params: InsertParams;
+  onChange: (params: Partial<InsertParams>) => void;
+}
+
+const INSERT_LABELS: Record<InsertType, string> = {
+  drive: 'Drive',
+  chorus: 'Chorus',
+  delay: 'Ping-Pong Delay',
+  eq: 'EQ',
+  limiter: 'Limiter',
+};
+
+const BYPASS_KEYS = {
+  drive: 'insertDriveBypass',
+  chorus: 'insertChorusBypass',
+  delay: 'insertDelayBypass',
+  eq: 'insertEqBypass',
+  limiter: 'insertLimiterBypass',
+} as const satisfies Record<InsertType, keyof InsertParams>;
+
+// Master insert slots in processing order, each with bypass and reorder buttons
+export const InsertChain: React.FC<InsertChainProps> = ({ params, onChange }) => {
+  const order = insertOrder(params);
+
+  const renderControls = (type: InsertType) => {
+    switch (type) {
+      case 'drive':
+        return (
+          <>
+            <div style={{ display: 'grid', gridTemplateColumns: 'repeat(3, 1fr)', gap: '6px', marginBottom: '8px' }}>
+              {(['soft', 'hard', 'fold'] as DriveCurve[]).map((curve) => (
+                <button
+                  key={curve}
+                  className={`synth-button ${params.insertDriveCurve === curve ? 'active' : ''}`}
+                  onClick={() => onChange({ insertDriveCurve: curve })}
+                  style={{ textTransform: 'capitalize', fontSize: '10px' }}
+                >
+                  {curve}
+                </button>
+              ))}
+            </div>
+            <div className="knobs-grid">
+              <Knob
+                label="Amount"
+                value={params.insertDriveAmount * 100}
+                min={0}
+                max={100}
+                onChange={(v) => onChange({ insertDriveAmount: v / 100 })}
+              />
+            </div>
+          </>
+        );
+      case 'chorus':
+        return (
+          <>
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '6px', marginBottom: '8px' }}>
+              {(['chorus', 'flanger'] as const).map((mode) => (
+                <button
+                  key={mode}
+                  className={`synth-button ${params.insertChorusMode === mode ? 'active' : ''}`}
+                  onClick={() => onChange({ insertChorusMode: mode })}
+                  style={{ textTransform: 'capitalize', fontSize: '10px' }}
+                >
+                  {mode}
+                </button>
+              ))}
+            </div>
+            <div className="knobs-grid">
+              <Knob
+                label="Rate"
+                value={params.insertChorusRate}
+                min={0.05}
+                max={10}
+                onChange={(v) => onChange({ insertChorusRate: v })}
+              />
+              <Knob
+                label="Depth"
+                value={params.insertChorusDepth * 100}
+                min={0}
+                max={100}
+                onChange={(v) => onChange({ insertChorusDepth: v / 100 })}
+              />
+              <Knob
+                label="Mix"
+                value={params.insertChorusMix * 100}
+                min={0}
+                max={100}
+                onChange={(v) => onChange({ insertChorusMix: v / 100 })}
+              />
+            </div>
+          </>
+        );
+      case 'delay':
+        return (
+          <>
+            <div style={{ marginBottom: '8px' }}>
+              <div style={{ fontSize: '11px', color: '#00d9ff', fontWeight: 'bold', marginBottom: '4px' }}>Division</div>
+              <select
+                value={params.insertDelayDivision}
+                onChange={(e) => onChange({ insertDelayDivision: e.target.value as LfoSyncDivision })}
+                style={{ width: '100%', padding: '4px', backgroundColor: '#1a2332', color: '#00d9ff', border: '1px solid #00d9ff', borderRadius: '4px' }}
+              >
+                {LFO_SYNC_DIVISIONS.map((division) => (
+                  <option key={division} value={division}>{division}</option>
+                ))}
+              </select>
+            </div>
+            <div className="knobs-grid">
+              <Knob
+                label="Feedback"
+                value={params.insertDelayFeedback * 100}
+                min={0}
+                max={90}
+                onChange={(v) => onChange({ insertDelayFeedback: v / 100 })}
+              />
+              <Knob
+                label="Mix"
+                value={params.insertDelayMix * 100}
+                min={0}
+                max={100}
+                onChange={(v) => onChange({ insertDelayMix: v / 100 })}
+              />
+            </div>
+          </>
+        );
+      case 'eq':
+        return (
+          <div className="knobs-grid">
+            <Knob
+              label="Low dB"
+              value={params.insertEqLow}
+              min={-12}
+              max={12}
+              onChange={(v) => onChange({ insertEqLow: v })}
+            />
+            <Knob
+              label="Mid dB"
+              value={params.insertEqMid}
+              min={-12}
+              max={12}
+              onChange={(v) => onChange({ insertEqMid: v })}
+            />
+            <Knob
+              label="High dB"
+              value={params.insertEqHigh}
+              min={-12}
+              max={12}
+              onChange={(v) => onChange({ insertEqHigh: v })}
+            />
+          </div>
+        );
+      case 'limiter':
+        return (
+          <div className="knobs-grid">
+            <Knob
+              label="Ceiling dB"
+              value={params.insertLimiterCeiling}
+              min={-24}
+              max={0}
+              onChange={(v) => onChange({ insertLimiterCeiling: v })}
+            />
+          </div>
+        );
+    }
+  };
+
+  return (
+    <div className="insert-chain">
+      {order.map((type, index) => {
+        const bypassed = isInsertBypassed(params, type);
+        return (
+          <div key={type} className={`insert-slot ${bypassed ? 'bypassed' : ''}`}>
+            <div className="insert-slot-header">
+              <span className="insert-slot-name">{index + 1}. {INSERT_LABELS[type]}</span>
+              <button
+                className="synth-button"
+                onClick={() => onChange({ insertOrder: moveInsert(params, type, -1) })}
+                disabled={index === 0}
+                style={{ fontSize: '10px' }}
+              >
+                ↑
+              </button>
+              <button
+                className="synth-button"
+                onClick={() => onChange({ insertOrder: moveInsert(params, type, 1) })}
+                disabled={index === order.length - 1}
+                style={{ fontSize: '10px' }}
+              >
+                ↓
+              </button>
+              <button
+                className={`synth-button ${bypassed ? '' : 'active'}`}
+                onClick={() => onChange({ [BYPASS_KEYS[type]]: !bypassed })}
+                style={{ fontSize: '10px' }}
+              >
+                {bypassed ? 'Off' : 'On'}
+              </button>
+            </div>
+            {!bypassed && renderControls(type)}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,128 @@
+import React from 'react';
+import { LfoWaveform, ModDestination, ModLfoSettings, ModMatrix, ModSlot, ModSource } from '../synthesizer/SynthEngine';
+import { MOD_DESTINATIONS, MOD_SOURCES, isModDestination } from '../synthesizer/modMatrix';
+
+interface ModMatrixPanelProps {
+  matrix: ModMatrix;
+  onChange: (matrix: ModMatrix) => void;
+}
+
+const LFO_WAVEFORMS: { value: LfoWaveform; label: string }[] = [
+  { value: 'sine', label: 'Sine' },
+  { value: 'triangle', label: 'Triangle' },
+  { value: 'sawtooth', label: 'Saw' },
+  { value: 'square', label: 'Square' },
+  { value: 'sampleHold', label: 'S&H' },
+];
+
+const DESTINATIONS = (Object.keys(MOD_DESTINATIONS) as ModDestination[]).map((value) => ({
+  value,
+  label: MOD_DESTINATIONS[value].label,
+}));
+
+const selectStyle: React.CSSProperties = {
+  width: '100%',
+  padding: '4px',
+  backgroundColor: '#1a2332',
+  color: '#00d9ff',
+  border: '1px solid #00d9ff',
+  borderRadius: '4px',
+};
+
+// Slots routing a source to any numeric parameter, and the matrix's own LFOs
+export const ModMatrixPanel: React.FC<ModMatrixPanelProps> = ({ matrix, onChange }) => {
+  const updateSlot = (index: number, settings: Partial<ModSlot>) => {
+    onChange({ ...matrix, slots: matrix.slots.map((slot, i) => (i === index ? { ...slot, ...settings } : slot)) });
+  };
+
+  const updateLfo = (index: number, settings: Partial<ModLfoSettings>) => {
+    onChange({ ...matrix, lfos: matrix.lfos.map((lfo, i) => (i === index ? { ...lfo, ...settings } : lfo)) });
+  };
+
+  return (
+    <div>
+      <div style={{ marginBottom: '12px' }}>
+        {matrix.lfos.map((lfo, index) => (
+          <div key={index} className="mod-lfo">
+            <span className="mod-label">LFO {index + 1}</span>
+            <select
+              value={lfo.waveform}
+              onChange={(e) => updateLfo(index, { waveform: e.target.value as LfoWaveform })}
+              style={selectStyle}
+            >
+              {LFO_WAVEFORMS.map(({ value, label }) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+            <input
+              type="range"
+              min={0.05}
+              max={20}
+              step={0.05}
+              value={lfo.rate}
+              onChange={(e) => updateLfo(index, { rate: Number(e.target.value) })}
+              className="master-volume-slider"
+            />
+            <span className="mod-value">{lfo.rate.toFixed(2)} Hz</span>
+          </div>
+        ))}
+      </div>
+
+      {matrix.slots.map((slot, index) => (
+        <div key={index} className={`mod-slot ${isModDestination(slot.destination) ? '' : 'unused'}`}>
+          <div style={{ display: 'flex', gap: '4px' }}>
+            <select
+              value={slot.source}
+              onChange={(e) => updateSlot(index, { source: e.target.value as ModSource })}
+              style={selectStyle}
+            >
+              {MOD_SOURCES.map(({ value, label }) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+            {slot.source === 'cc' && (
+              <input
+                type="number"
+                min={0}
+                max={127}
+                value={slot.controller}
+                onChange={(e) => {
+                  const controller = Math.round(Number(e.target.value));
+                  if (controller >= 0 && controller <= 127) updateSlot(index, { controller });
+                }}
+                className="tuning-input"
+                style={{ width: '52px' }}
+                title="Controller number"
+              />
+            )}
+          </div>
+          <select
+            value={isModDestination(slot.destination) ? slot.destination : ''}
+            onChange={(e) => updateSlot(index, { destination: (e.target.value || null) as ModDestination | null })}
+            style={selectStyle}
+          >
+            <option value="">Off</option>
+            {DESTINATIONS.map(({ value, label }) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+          <input
+            type="range"
+            min={-100}
+            max={100}
+            step={1}
+            value={slot.depth * 100}
+            onChange={(e) => updateSlot(index, { depth: Number(e.target.value) / 100 })}
+            onDoubleClick={() => updateSlot(index, { depth: 0 })}
+            className="master-volume-slider"
+            title="Depth, double-click to reset"
+          />
+          <span className="mod-value">
+            {slot.depth > 0 ? '+' : ''}
+            {Math.round(slot.depth * 100)}%
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+};
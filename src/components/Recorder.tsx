@@ -0,0 +1,159 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { EngineType, SynthEngine } from '../synthesizer/SynthEngine';
+import { LiveRecorder } from '../synthesizer/liveRecorder';
+import { WAV_FORMATS, WavFormat, downloadBlob, encodeWav } from '../synthesizer/wav';
+
+interface RecorderProps {
+  getEngine: () => SynthEngine | null;
+  engineType: EngineType;
+  patchName: string;
+  tempo: number;
+  onMessage: (text: string) => void;
+}
+
+// A finished recording, kept for the rest of the session
+interface Take {
+  id: number;
+  buffer: AudioBuffer;
+  patchName: string;
+  tempo: number;
+  recordedAt: Date;
+}
+
+// How quickly the peak meter falls back between batches, per batch
+const PEAK_FALLOFF = 0.85;
+
+function formatTime(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${(seconds % 60).toFixed(1).padStart(4, '0')}`;
+}
+
+function peakDb(peak: number): string {
+  return peak > 0 ? `${(20 * Math.log10(peak)).toFixed(1)} dB` : '-∞ dB';
+}
+
+export const Recorder: React.FC<RecorderProps> = ({ getEngine, engineType, patchName, tempo, onMessage }) => {
+  const recorderRef = useRef<LiveRecorder | null>(null);
+  const nextTakeId = useRef(1);
+  const [isRecording, setIsRecording] = useState(false);
+  const [elapsed, setElapsed] = useState(0);
+  const [peak, setPeak] = useState(0);
+  const [clipped, setClipped] = useState(false);
+  const [takes, setTakes] = useState<Take[]>([]);
+  const [format, setFormat] = useState<WavFormat>('pcm24');
+
+  // The patch and tempo when recording started name the take
+  const takeInfo = useRef({ patchName, tempo });
+
+  const stopRecording = async () => {
+    const recorder = recorderRef.current;
+    if (!recorder) return;
+    recorderRef.current = null;
+    setIsRecording(false);
+
+    const buffer = await recorder.stop();
+    if (!buffer) {
+      onMessage('Nothing recorded');
+      return;
+    }
+    const take: Take = { id: nextTakeId.current++, buffer, ...takeInfo.current, recordedAt: new Date() };
+    setTakes((existing) => [...existing, take]);
+    onMessage(`Take ${take.id}: ${formatTime(buffer.duration)}`);
+  };
+
+  const startRecording = async () => {
+    const engine = getEngine();
+    if (!engine || recorderRef.current) return;
+
+    takeInfo.current = { patchName, tempo };
+    setElapsed(0);
+    setPeak(0);
+    setClipped(false);
+    try {
+      recorderRef.current = await LiveRecorder.start(engine, (seconds, level) => {
+        setElapsed(seconds);
+        setPeak((previous) => Math.max(level, previous * PEAK_FALLOFF));
+        if (level >= 1) setClipped(true);
+      });
+      setIsRecording(true);
+      onMessage('Recording...');
+    } catch (error) {
+      console.error('Failed to start recording:', error);
+      onMessage('Recording unavailable');
+    }
+  };
+
+  // A take can't continue across an engine switch, since the old engine's output goes away
+  useEffect(() => {
+    return () => {
+      stopRecording();
+    };
+  }, [engineType]);
+
+  const handleDownload = (take: Take) => {
+    const blob = encodeWav(take.buffer, format, {
+      title: `${take.patchName} - Take ${take.id}`,
+      comment: `Patch: ${take.patchName}; Tempo: ${take.tempo} BPM`,
+      date: take.recordedAt.toISOString().slice(0, 10),
+      software: 'TS-404 Synthesizer',
+    });
+    const safeName = take.patchName.replace(/[^a-z0-9]+/gi, '-').toLowerCase();
+    downloadBlob(blob, `ts-404-${safeName}-take-${take.id}.wav`);
+  };
+
+  return (
+    <div className="synth-section recorder">
+      <div className="section-title">Recorder</div>
+      <div className="sequencer-controls">
+        <div className="control-group">
+          <button
+            className={`synth-button ${isRecording ? 'active recording' : ''}`}
+            onClick={isRecording ? stopRecording : startRecording}
+          >
+            {isRecording ? '■ Stop' : '● Rec'}
+          </button>
+          <span className="recorder-time">{formatTime(elapsed)}</span>
+        </div>
+        <div className="control-group">
+          <div className="recorder-meter">
+            <div
+              className={`recorder-meter-fill ${clipped ? 'clipped' : ''}`}
+              style={{ width: `${Math.min(1, peak) * 100}%` }}
+            />
+          </div>
+          <span className="recorder-peak">{peakDb(peak)}</span>
+        </div>
+        <div className="control-group">
+          <label>Format:</label>
+          <select value={format} onChange={(e) => setFormat(e.target.value as WavFormat)} className="export-select">
+            {WAV_FORMATS.map(({ value, label }) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {takes.length > 0 && (
+        <div className="recorder-takes">
+          {takes.map((take) => (
+            <div key={take.id} className="recorder-take">
+              <span>
+                Take {take.id} · {take.patchName} · {take.tempo} BPM · {formatTime(take.buffer.duration)}
+              </span>
+              <button className="synth-button" onClick={() => handleDownload(take)} style={{ fontSize: '10px' }}>
+                WAV
+              </button>
+              <button
+                className="synth-button"
+                onClick={() => setTakes((existing) => existing.filter((other) => other.id !== take.id))}
+                style={{ fontSize: '10px' }}
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,153 @@
+import React, { useRef } from 'react';
+import { SampleSettings } from '../synthesizer/SynthEngine';
+import { SampleInfo } from '../synthesizer/SampleLibrary';
+import { SAMPLE_FILE_ACCEPT, midiNoteName } from '../synthesizer/sampler';
+
+interface SamplerPanelProps {
+  sample: SampleSettings;
+  samples: SampleInfo[]; // Everything in the local sample library
+  onChange: (settings: Partial<SampleSettings>) => void;
+  onLoadFile: (file: File) => void;
+  onSelect: (id: string) => void;
+  onDelete: (id: string) => void;
+  onDetectRoot: () => void;
+}
+
+interface SampleSliderProps {
+  label: string;
+  display: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  disabled?: boolean;
+  onChange: (value: number) => void;
+}
+
+const SampleSlider: React.FC<SampleSliderProps> = ({ label, display, value, min, max, step, disabled, onChange }) => (
+  <div style={{ marginTop: '8px' }}>
+    <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '11px', color: '#00d9ff', fontWeight: 'bold', marginBottom: '4px' }}>
+      <span>{label}</span>
+      <span>{display}</span>
+    </div>
+    <input
+      type="range"
+      min={min}
+      max={max}
+      step={step}
+      value={value}
+      onChange={(e) => onChange(Number(e.target.value))}
+      disabled={disabled}
+      className="master-volume-slider"
+      style={{ width: '100%' }}
+    />
+  </div>
+);
+
+// Sample picker, root note and playback region for the 'sample' wave shape
+export const SamplerPanel: React.FC<SamplerPanelProps> = ({
+  sample,
+  samples,
+  onChange,
+  onLoadFile,
+  onSelect,
+  onDelete,
+  onDetectRoot,
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const missing = sample.id !== '' && !samples.some(({ id }) => id === sample.id);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) onLoadFile(file);
+  };
+
+  return (
+    <div className="sampler-panel">
+      <select value={sample.id} onChange={(e) => onSelect(e.target.value)} className="export-select" style={{ width: '100%' }}>
+        <option value="">No sample</option>
+        {missing && <option value={sample.id}>{sample.name} (missing)</option>}
+        {samples.map(({ id, name }) => (
+          <option key={id} value={id}>{name}</option>
+        ))}
+      </select>
+
+      <div style={{ display: 'grid', gridTemplateColumns: 'repeat(3, 1fr)', gap: '6px', marginTop: '8px' }}>
+        <button className="synth-button" onClick={() => fileInputRef.current?.click()} style={{ fontSize: '10px' }}>
+          Load File
+        </button>
+        <button className="synth-button" onClick={onDetectRoot} disabled={!sample.id || missing} style={{ fontSize: '10px' }}>
+          Detect Root
+        </button>
+        <button className="synth-button" onClick={() => onDelete(sample.id)} disabled={!sample.id || missing} style={{ fontSize: '10px' }}>
+          Delete
+        </button>
+        <input ref={fileInputRef} type="file" accept={SAMPLE_FILE_ACCEPT} onChange={handleFileChange} style={{ display: 'none' }} />
+      </div>
+      <div className="sampler-hint">WAV, FLAC or OGG; files can also be dropped anywhere on the page</div>
+
+      <div className="control-group" style={{ marginTop: '8px' }}>
+        <label>Root:</label>
+        <input
+          type="number"
+          min={0}
+          max={127}
+          value={sample.rootNote}
+          onChange={(e) => {
+            const note = Math.round(Number(e.target.value));
+            if (note >= 0 && note <= 127) onChange({ rootNote: note });
+          }}
+          className="tuning-input"
+        />
+        <span className="tuning-note">{midiNoteName(sample.rootNote)}</span>
+      </div>
+      <SampleSlider
+        label="Fine Tune"
+        display={`${sample.fineTune > 0 ? '+' : ''}${sample.fineTune} cents`}
+        value={sample.fineTune}
+        min={-50}
+        max={50}
+        step={1}
+        onChange={(fineTune) => onChange({ fineTune })}
+      />
+      <SampleSlider
+        label="Start"
+        display={`${(sample.start * 100).toFixed(0)}%`}
+        value={sample.start}
+        min={0}
+        max={1}
+        step={0.001}
+        onChange={(start) => onChange({ start })}
+      />
+
+      <button
+        className={`synth-button ${sample.loop ? 'active' : ''}`}
+        onClick={() => onChange({ loop: !sample.loop })}
+        style={{ fontSize: '10px', width: '100%', marginTop: '8px' }}
+      >
+        Loop {sample.loop ? 'On' : 'Off'}
+      </button>
+      <SampleSlider
+        label="Loop Start"
+        display={`${(sample.loopStart * 100).toFixed(1)}%`}
+        value={sample.loopStart}
+        min={0}
+        max={1}
+        step={0.001}
+        disabled={!sample.loop}
+        onChange={(loopStart) => onChange({ loopStart: Math.min(loopStart, sample.loopEnd) })}
+      />
+      <SampleSlider
+        label="Loop End"
+        display={`${(sample.loopEnd * 100).toFixed(1)}%`}
+        value={sample.loopEnd}
+        min={0}
+        max={1}
+        step={0.001}
+        disabled={!sample.loop}
+        onChange={(loopEnd) => onChange({ loopEnd: Math.max(loopEnd, sample.loopStart) })}
+      />
+    </div>
+  );
+};
@@ -1,18 +1,51 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { SequencerNote } from '../synthesizer/store';
+import { WAV_FORMATS, WavFormat } from '../synthesizer/wav';
+import {
+  MAX_PATTERN_STEPS,
+  MIN_PATTERN_STEPS,
+  PatternTiming,
+  STEP_RESOLUTIONS,
+  StepResolution,
+  TIME_SIGNATURES,
+  TimeSignature,
+  patternBars,
+  stepBoundary,
+} from '../synthesizer/patternPlayback';
+import {
+  DRUM_MAX_DECAY,
+  DRUM_MAX_TUNE,
+  DRUM_MIN_DECAY,
+  DRUM_TYPES,
+  DrumTracks,
+  DrumType,
+  DrumVoiceSettings,
+} from '../synthesizer/drums';
 
 interface SequencerProps {
   steps: SequencerNote[];
   currentStep: number;
   tempo: number;
+  timing: PatternTiming;
   isRunning: boolean;
   onStepChange: (index: number, note: SequencerNote) => void;
+  onLengthChange: (length: number) => void;
+  onTimingChange: (timing: Partial<PatternTiming>) => void;
+  drums: DrumTracks;
+  onDrumStepChange: (drum: DrumType, index: number, on: boolean) => void;
+  onDrumVoiceChange: (drum: DrumType, settings: Partial<DrumVoiceSettings>) => void;
   onTempoChange: (bpm: number) => void;
   onTogglePlay: () => void;
   onClear: () => void;
   onRandom: () => void;
+  isExporting: boolean;
+  onExport: (loops: number, format: WavFormat) => void;
 }
 
+const EXPORT_LOOPS = [1, 2, 4, 8];
+
+const signatureLabel = ({ beats, beatUnit }: TimeSignature) => `${beats}/${beatUnit}`;
+
 const ALL_NOTES = [
   'C-1', 'C#-1', 'D-1', 'D#-1', 'E-1', 'F-1', 'F#-1', 'G-1', 'G#-1', 'A-1', 'A#-1', 'B-1',
   'C0', 'C#0', 'D0', 'D#0', 'E0', 'F0', 'F#0', 'G0', 'G#0', 'A0', 'A#0', 'B0',
@@ -38,13 +71,24 @@ export const Sequencer: React.FC<SequencerProps> = ({
   steps,
   currentStep,
   tempo,
+  timing,
   isRunning,
   onStepChange,
+  onLengthChange,
+  onTimingChange,
+  drums,
+  onDrumStepChange,
+  onDrumVoiceChange,
   onTempoChange,
   onTogglePlay,
   onClear,
   onRandom,
+  isExporting,
+  onExport,
 }) => {
+  const [exportLoops, setExportLoops] = useState(2);
+  const [exportFormat, setExportFormat] = useState<WavFormat>('pcm16');
+
   const handleStepNoteChange = (stepIndex: number, midiNote: number) => {
     const newNote: SequencerNote = {
       ...steps[stepIndex],
@@ -61,6 +105,14 @@ export const Sequencer: React.FC<SequencerProps> = ({
     onStepChange(stepIndex, newNote);
   };
 
+  const handleAccentToggle = (stepIndex: number) => {
+    const newNote: SequencerNote = {
+      ...steps[stepIndex],
+      accent: !steps[stepIndex].accent,
+    };
+    onStepChange(stepIndex, newNote);
+  };
+
   const handleEnabledToggle = (stepIndex: number) => {
     const newNote: SequencerNote = {
       ...steps[stepIndex],
@@ -74,9 +126,15 @@ export const Sequencer: React.FC<SequencerProps> = ({
     onRandom();
   };
 
+  // Each grid gets a column per step; the editor scrolls sideways for long patterns
+  const gridColumns: React.CSSProperties = { gridTemplateColumns: `repeat(${steps.length}, minmax(70px, 1fr))` };
+  const boundaries = steps.map((_, idx) => stepBoundary(idx, timing));
+  const boundaryClass = (idx: number) => (boundaries[idx] ? `${boundaries[idx]}-start` : '');
+  const bars = patternBars(steps.length, timing);
+
   return (
     <div className="sequencer-section">
-      <div className="section-title">16-Step Sequencer</div>
+      <div className="section-title">Step Sequencer</div>
       
       <div className="sequencer-controls">
         <div className="control-group">
@@ -91,6 +149,48 @@ export const Sequencer: React.FC<SequencerProps> = ({
           />
           <span className="tempo-display">{tempo} BPM</span>
         </div>
+
+        <div className="control-group">
+          <label>Length:</label>
+          <input
+            type="number"
+            min={MIN_PATTERN_STEPS}
+            max={MAX_PATTERN_STEPS}
+            value={steps.length}
+            onChange={(e) => {
+              const length = Math.round(Number(e.target.value));
+              if (length >= MIN_PATTERN_STEPS && length <= MAX_PATTERN_STEPS) onLengthChange(length);
+            }}
+            className="tuning-input"
+            title="Steps in the pattern"
+          />
+          <select
+            value={timing.resolution}
+            onChange={(e) => onTimingChange({ resolution: e.target.value as StepResolution })}
+            className="export-select"
+            title="Note value of one step"
+          >
+            {STEP_RESOLUTIONS.map(({ value, label }) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+          <select
+            value={signatureLabel(timing.timeSignature)}
+            onChange={(e) => {
+              const timeSignature = TIME_SIGNATURES.find((signature) => signatureLabel(signature) === e.target.value);
+              if (timeSignature) onTimingChange({ timeSignature });
+            }}
+            className="export-select"
+            title="Time signature"
+          >
+            {TIME_SIGNATURES.map((signature) => (
+              <option key={signatureLabel(signature)} value={signatureLabel(signature)}>{signatureLabel(signature)}</option>
+            ))}
+          </select>
+          <span className="tempo-display">
+            {Number.isInteger(bars) ? bars : bars.toFixed(2)} {bars === 1 ? 'bar' : 'bars'}
+          </span>
+        </div>
         
         <div className="control-group">
           <button
@@ -106,24 +206,53 @@ export const Sequencer: React.FC<SequencerProps> = ({
             Random
           </button>
         </div>
+
+        <div className="control-group">
+          <label>Export:</label>
+          <select
+            value={exportLoops}
+            onChange={(e) => setExportLoops(Number(e.target.value))}
+            className="export-select"
+          >
+            {EXPORT_LOOPS.map((loops) => (
+              <option key={loops} value={loops}>{loops} {loops === 1 ? 'loop' : 'loops'}</option>
+            ))}
+          </select>
+          <select
+            value={exportFormat}
+            onChange={(e) => setExportFormat(e.target.value as WavFormat)}
+            className="export-select"
+          >
+            {WAV_FORMATS.map(({ value, label }) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+          <button
+            className="synth-button"
+            onClick={() => onExport(exportLoops, exportFormat)}
+            disabled={isExporting}
+          >
+            {isExporting ? 'Rendering…' : 'Export WAV'}
+          </button>
+        </div>
       </div>
 
       {/* Piano Roll Style Step Editor */}
       <div className="piano-roll-editor">
-        <div className="steps-header">
+        <div className="steps-header" style={gridColumns}>
           {steps.map((_, idx) => (
             <div 
               key={idx} 
-              className={`step-column-header ${isRunning && currentStep === idx ? 'current' : ''}`}
+              className={`step-column-header ${boundaryClass(idx)} ${isRunning && currentStep === idx ? 'current' : ''}`}
             >
               {idx + 1}
             </div>
           ))}
         </div>
 
-        <div className="piano-roll-container">
+        <div className="piano-roll-container" style={gridColumns}>
           {steps.map((step, stepIndex) => (
-            <div key={stepIndex} className="step-editor-column">
+            <div key={stepIndex} className={`step-editor-column ${boundaryClass(stepIndex)}`}>
               {/* Vertical note slider */}
               <div className="step-note-slider-area">
                 <input
@@ -154,6 +283,16 @@ export const Sequencer: React.FC<SequencerProps> = ({
                 <span className="checkmark"></span>
               </label>
 
+              {/* Accent checkbox */}
+              <label className="step-accent-checkbox" title="Accent this step">
+                <input
+                  type="checkbox"
+                  checked={!!step.accent}
+                  onChange={() => handleAccentToggle(stepIndex)}
+                />
+                <span className="checkmark"></span>
+              </label>
+
               {/* Enabled checkbox */}
               <label className="step-enabled-checkbox" title="Enable/disable this step">
                 <input
@@ -166,6 +305,68 @@ export const Sequencer: React.FC<SequencerProps> = ({
             </div>
           ))}
         </div>
+
+        {/* Drum rows, triggered from the same clock as the bass line */}
+        <div className="drum-rows">
+          {DRUM_TYPES.map(({ value: drum, label }) => {
+            const voice = drums.kit[drum];
+            return (
+              <div key={drum} className="drum-track">
+                <div className="drum-track-header">
+                  <span className="drum-track-name">{label}</span>
+                  <label title="Tune in semitones">
+                    Tune
+                    <input
+                      type="range"
+                      min={-DRUM_MAX_TUNE}
+                      max={DRUM_MAX_TUNE}
+                      value={voice.tune}
+                      onChange={(e) => onDrumVoiceChange(drum, { tune: Number(e.target.value) })}
+                      className="drum-param-slider"
+                    />
+                  </label>
+                  <label title="Decay">
+                    Decay
+                    <input
+                      type="range"
+                      min={DRUM_MIN_DECAY}
+                      max={DRUM_MAX_DECAY}
+                      step={0.05}
+                      value={voice.decay}
+                      onChange={(e) => onDrumVoiceChange(drum, { decay: Number(e.target.value) })}
+                      className="drum-param-slider"
+                    />
+                  </label>
+                  <label title="Level">
+                    Level
+                    <input
+                      type="range"
+                      min={0}
+                      max={1}
+                      step={0.01}
+                      value={voice.level}
+                      onChange={(e) => onDrumVoiceChange(drum, { level: Number(e.target.value) })}
+                      className="drum-param-slider"
+                    />
+                  </label>
+                </div>
+                <div className="drum-row" style={gridColumns}>
+                  {steps.map((_, stepIndex) => {
+                    const on = !!drums.pattern[drum]?.[stepIndex];
+                    return (
+                      <button
+                        key={stepIndex}
+                        className={`drum-step ${on ? 'on' : ''} ${boundaryClass(stepIndex)} ${isRunning && currentStep === stepIndex ? 'current' : ''}`}
+                        onClick={() => onDrumStepChange(drum, stepIndex, !on)}
+                        title={`${label} on step ${stepIndex + 1}`}
+                      />
+                    );
+                  })}
+                </div>
+              </div>
+            );
+          })}
+        </div>
       </div>
     </div>
   );
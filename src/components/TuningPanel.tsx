@@ -0,0 +1,143 @@
+import React, { useRef } from 'react';
+import { KeyboardMapping, Tuning } from '../synthesizer/SynthEngine';
+import { BUILT_IN_TUNINGS, LINEAR_MAPPING, MIDI_NOTE_COUNT, parseKbm, parseScl } from '../synthesizer/tuning';
+
+interface TuningPanelProps {
+  tuning: Tuning;
+  onChange: (tuning: Tuning) => void;
+  onMessage: (text: string) => void;
+}
+
+const NOTE_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+
+// Same octave numbering as the on-screen keyboard
+function noteName(note: number): string {
+  return `${NOTE_NAMES[note % 12]}${Math.floor(note / 12)}`;
+}
+
+// Scale picker, Scala file import and reference pitch for the note frequency table
+export const TuningPanel: React.FC<TuningPanelProps> = ({ tuning, onChange, onMessage }) => {
+  const sclInputRef = useRef<HTMLInputElement>(null);
+  const kbmInputRef = useRef<HTMLInputElement>(null);
+  const { mapping } = tuning;
+  const isBuiltIn = BUILT_IN_TUNINGS.some((builtIn) => builtIn.name === tuning.name);
+
+  const setMapping = (changes: Partial<KeyboardMapping>) => {
+    onChange({ ...tuning, mapping: { ...mapping, ...changes } });
+  };
+
+  // Built-in scales keep the current reference pitch
+  const handleSelect = (name: string) => {
+    const builtIn = BUILT_IN_TUNINGS.find((candidate) => candidate.name === name);
+    if (!builtIn) return;
+    onChange({
+      ...builtIn,
+      mapping: {
+        ...builtIn.mapping,
+        referenceNote: mapping.referenceNote,
+        referenceFrequency: mapping.referenceFrequency,
+      },
+    });
+    onMessage(`Tuning: ${builtIn.name}`);
+  };
+
+  const readFile = async (e: React.ChangeEvent<HTMLInputElement>, apply: (file: File, text: string) => void) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      apply(file, await file.text());
+    } catch (error) {
+      console.error('Failed to import tuning file:', error);
+      onMessage(`Import failed: ${error instanceof Error ? error.message : file.name}`);
+    }
+  };
+
+  // A scale replaces the notes but keeps the keyboard mapping, as in Scala
+  const handleSclChange = (e: React.ChangeEvent<HTMLInputElement>) =>
+    readFile(e, (file, text) => {
+      const scale = parseScl(text, file.name.replace(/\.scl$/i, ''));
+      onChange({ ...scale, mapping });
+      onMessage(`Tuning: ${scale.name}`);
+    });
+
+  const handleKbmChange = (e: React.ChangeEvent<HTMLInputElement>) =>
+    readFile(e, (file, text) => {
+      onChange({ ...tuning, mapping: parseKbm(text) });
+      onMessage(`Mapping: ${file.name}`);
+    });
+
+  return (
+    <div>
+      <div className="sequencer-controls">
+        <div className="control-group">
+          <label>Scale:</label>
+          <select value={tuning.name} onChange={(e) => handleSelect(e.target.value)} className="export-select">
+            {!isBuiltIn && <option value={tuning.name}>{tuning.name}</option>}
+            {BUILT_IN_TUNINGS.map(({ name }) => (
+              <option key={name} value={name}>{name}</option>
+            ))}
+          </select>
+        </div>
+        <div className="control-group">
+          <label>Reference:</label>
+          <input
+            type="number"
+            min={0}
+            max={MIDI_NOTE_COUNT - 1}
+            value={mapping.referenceNote}
+            onChange={(e) => {
+              const note = Math.round(Number(e.target.value));
+              if (note >= 0 && note < MIDI_NOTE_COUNT) setMapping({ referenceNote: note });
+            }}
+            className="tuning-input"
+          />
+          <span className="tuning-note">{noteName(mapping.referenceNote)}</span>
+          <input
+            type="number"
+            min={1}
+            max={20000}
+            step={0.1}
+            value={mapping.referenceFrequency}
+            onChange={(e) => {
+              const frequency = Number(e.target.value);
+              if (frequency > 0) setMapping({ referenceFrequency: frequency });
+            }}
+            className="tuning-input"
+          />
+          <span className="tuning-note">Hz</span>
+        </div>
+      </div>
+
+      <div className="tuning-description">
+        {tuning.description || tuning.name} · {tuning.scale.length} notes
+        {mapping.size > 0 && ` · ${mapping.size}-key mapping`}
+      </div>
+
+      <div style={{ display: 'grid', gridTemplateColumns: 'repeat(3, 1fr)', gap: '6px', marginTop: '8px' }}>
+        <button className="synth-button" onClick={() => sclInputRef.current?.click()} style={{ fontSize: '10px' }}>
+          Import .scl
+        </button>
+        <button className="synth-button" onClick={() => kbmInputRef.current?.click()} style={{ fontSize: '10px' }}>
+          Import .kbm
+        </button>
+        <button
+          className="synth-button"
+          onClick={() =>
+            setMapping({
+              ...LINEAR_MAPPING,
+              referenceNote: mapping.referenceNote,
+              referenceFrequency: mapping.referenceFrequency,
+            })
+          }
+          disabled={mapping.size === 0}
+          style={{ fontSize: '10px' }}
+        >
+          Clear .kbm
+        </button>
+        <input ref={sclInputRef} type="file" accept=".scl" onChange={handleSclChange} style={{ display: 'none' }} />
+        <input ref={kbmInputRef} type="file" accept=".kbm" onChange={handleKbmChange} style={{ display: 'none' }} />
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,231 @@
+import React, { useEffect, useRef } from 'react';
+import { SynthEngine } from '../synthesizer/SynthEngine';
+import { useSynthesizerStore } from '../synthesizer/store';
+
+interface VisualizerProps {
+  getEngine: () => SynthEngine | null;
+}
+
+const FFT_SIZE = 4096;
+// Samples shown by the oscilloscope, about 23 ms at 44.1 kHz
+const SCOPE_SAMPLES = 1024;
+const MIN_FREQUENCY = 20;
+const MAX_FREQUENCY = 20000;
+const MIN_DB = -100;
+const MAX_DB = 0;
+// Quietest level on the meter, in dBFS
+const METER_FLOOR_DB = -60;
+// How fast the held peak falls, in dB per frame
+const PEAK_HOLD_FALLOFF = 0.5;
+
+const SCOPE_COLOR = '#00ff00';
+const SPECTRUM_COLOR = '#00d9ff';
+const CUTOFF_COLOR = '#ff9900';
+const GRID_COLOR = '#1c2a1c';
+
+function toDb(level: number): number {
+  return level > 0 ? 20 * Math.log10(level) : -Infinity;
+}
+
+// Index of the first rising zero crossing in the first half of the buffer, so the
+// trace stays still for periodic waves; 0 when there is none
+function findTrigger(samples: Float32Array): number {
+  const limit = samples.length - SCOPE_SAMPLES;
+  for (let i = 1; i < limit; i++) {
+    if (samples[i - 1] <= 0 && samples[i] > 0) return i;
+  }
+  return 0;
+}
+
+// Matches the canvas's drawing buffer to its displayed size
+function fitCanvas(canvas: HTMLCanvasElement): CanvasRenderingContext2D | null {
+  const ratio = window.devicePixelRatio || 1;
+  const width = Math.round(canvas.clientWidth * ratio);
+  const height = Math.round(canvas.clientHeight * ratio);
+  if (canvas.width !== width || canvas.height !== height) {
+    canvas.width = width;
+    canvas.height = height;
+  }
+  return canvas.getContext('2d');
+}
+
+function frequencyToX(frequency: number, width: number): number {
+  return (Math.log(frequency / MIN_FREQUENCY) / Math.log(MAX_FREQUENCY / MIN_FREQUENCY)) * width;
+}
+
+function drawScope(canvas: HTMLCanvasElement, samples: Float32Array) {
+  const context = fitCanvas(canvas);
+  if (!context) return;
+  const { width, height } = canvas;
+  context.clearRect(0, 0, width, height);
+
+  context.strokeStyle = GRID_COLOR;
+  context.beginPath();
+  context.moveTo(0, height / 2);
+  context.lineTo(width, height / 2);
+  context.stroke();
+
+  const start = findTrigger(samples);
+  context.strokeStyle = SCOPE_COLOR;
+  context.lineWidth = Math.max(1, width / 400);
+  context.beginPath();
+  for (let i = 0; i < SCOPE_SAMPLES; i++) {
+    const x = (i / (SCOPE_SAMPLES - 1)) * width;
+    const y = (1 - (samples[start + i] + 1) / 2) * height;
+    if (i === 0) context.moveTo(x, y);
+    else context.lineTo(x, y);
+  }
+  context.stroke();
+}
+
+function drawSpectrum(canvas: HTMLCanvasElement, spectrum: Float32Array, sampleRate: number, cutoff: number) {
+  const context = fitCanvas(canvas);
+  if (!context) return;
+  const { width, height } = canvas;
+  context.clearRect(0, 0, width, height);
+
+  // Decade lines at 100 Hz, 1 kHz and 10 kHz
+  context.strokeStyle = GRID_COLOR;
+  context.beginPath();
+  [100, 1000, 10000].forEach((frequency) => {
+    const x = frequencyToX(frequency, width);
+    context.moveTo(x, 0);
+    context.lineTo(x, height);
+  });
+  context.stroke();
+
+  const binWidth = sampleRate / FFT_SIZE;
+  context.strokeStyle = SPECTRUM_COLOR;
+  context.lineWidth = Math.max(1, width / 400);
+  context.beginPath();
+  let started = false;
+  for (let bin = 1; bin < spectrum.length; bin++) {
+    const frequency = bin * binWidth;
+    if (frequency < MIN_FREQUENCY) continue;
+    if (frequency > MAX_FREQUENCY) break;
+    const x = frequencyToX(frequency, width);
+    const level = Math.max(MIN_DB, Math.min(MAX_DB, spectrum[bin]));
+    const y = ((MAX_DB - level) / (MAX_DB - MIN_DB)) * height;
+    if (started) context.lineTo(x, y);
+    else context.moveTo(x, y);
+    started = true;
+  }
+  context.stroke();
+
+  const cutoffX = frequencyToX(Math.max(MIN_FREQUENCY, Math.min(MAX_FREQUENCY, cutoff)), width);
+  context.strokeStyle = CUTOFF_COLOR;
+  context.setLineDash([4, 4]);
+  context.beginPath();
+  context.moveTo(cutoffX, 0);
+  context.lineTo(cutoffX, height);
+  context.stroke();
+  context.setLineDash([]);
+}
+
+function drawMeter(canvas: HTMLCanvasElement, peakDb: number, rmsDb: number, heldPeakDb: number) {
+  const context = fitCanvas(canvas);
+  if (!context) return;
+  const { width, height } = canvas;
+  context.clearRect(0, 0, width, height);
+
+  const toY = (db: number) => (Math.min(0, Math.max(METER_FLOOR_DB, db)) / METER_FLOOR_DB) * height;
+  const barWidth = width / 2 - 2;
+  context.fillStyle = peakDb >= 0 ? '#ff3355' : SCOPE_COLOR;
+  context.fillRect(0, toY(peakDb), barWidth, height - toY(peakDb));
+  context.fillStyle = SPECTRUM_COLOR;
+  context.fillRect(width / 2 + 2, toY(rmsDb), barWidth, height - toY(rmsDb));
+
+  context.fillStyle = '#fff';
+  context.fillRect(0, toY(heldPeakDb), barWidth, Math.max(1, height / 100));
+}
+
+// Scope, spectrum and peak/RMS meter of the master output. Drawing runs in its
+// own animation-frame loop and never touches React state.
+export const Visualizer: React.FC<VisualizerProps> = ({ getEngine }) => {
+  const scopeRef = useRef<HTMLCanvasElement>(null);
+  const spectrumRef = useRef<HTMLCanvasElement>(null);
+  const meterRef = useRef<HTMLCanvasElement>(null);
+  const peakTextRef = useRef<HTMLSpanElement>(null);
+  const rmsTextRef = useRef<HTMLSpanElement>(null);
+  const getEngineRef = useRef(getEngine);
+  getEngineRef.current = getEngine;
+
+  useEffect(() => {
+    let frame = 0;
+    let engine: SynthEngine | null = null;
+    let analyser: AnalyserNode | null = null;
+    const samples = new Float32Array(FFT_SIZE);
+    const spectrum = new Float32Array(FFT_SIZE / 2);
+    let heldPeakDb = -Infinity;
+
+    const detach = () => {
+      if (engine && analyser) {
+        try {
+          engine.disconnectTap(analyser);
+        } catch {
+          // Already disconnected along with a disposed engine
+        }
+      }
+      engine = null;
+      analyser = null;
+    };
+
+    const draw = () => {
+      frame = requestAnimationFrame(draw);
+
+      // Follow engine switches: the analyser has to live on the current engine's context
+      const current = getEngineRef.current();
+      if (current !== engine) {
+        detach();
+        if (current) {
+          engine = current;
+          analyser = current.getAudioContext().createAnalyser();
+          analyser.fftSize = FFT_SIZE;
+          analyser.smoothingTimeConstant = 0.7;
+          current.connectTap(analyser);
+        }
+      }
+      if (!analyser || !engine) return;
+
+      analyser.getFloatTimeDomainData(samples);
+      analyser.getFloatFrequencyData(spectrum);
+
+      let peak = 0;
+      let sumOfSquares = 0;
+      for (let i = 0; i < samples.length; i++) {
+        peak = Math.max(peak, Math.abs(samples[i]));
+        sumOfSquares += samples[i] * samples[i];
+      }
+      const peakDb = toDb(peak);
+      const rmsDb = toDb(Math.sqrt(sumOfSquares / samples.length));
+      heldPeakDb = Math.max(peakDb, heldPeakDb - PEAK_HOLD_FALLOFF);
+
+      const { cutoff } = useSynthesizerStore.getState().params;
+      if (scopeRef.current) drawScope(scopeRef.current, samples);
+      if (spectrumRef.current) drawSpectrum(spectrumRef.current, spectrum, analyser.context.sampleRate, cutoff);
+      if (meterRef.current) drawMeter(meterRef.current, peakDb, rmsDb, heldPeakDb);
+      if (peakTextRef.current) peakTextRef.current.textContent = Number.isFinite(peakDb) ? peakDb.toFixed(1) : '-∞';
+      if (rmsTextRef.current) rmsTextRef.current.textContent = Number.isFinite(rmsDb) ? rmsDb.toFixed(1) : '-∞';
+    };
+
+    frame = requestAnimationFrame(draw);
+    return () => {
+      cancelAnimationFrame(frame);
+      detach();
+    };
+  }, []);
+
+  return (
+    <div className="visualizer">
+      <canvas ref={scopeRef} className="visualizer-scope" />
+      <canvas ref={spectrumRef} className="visualizer-spectrum" />
+      <div className="visualizer-meter">
+        <canvas ref={meterRef} />
+        <div className="visualizer-meter-readout">
+          <span>PK <span ref={peakTextRef}>-∞</span></span>
+          <span>RMS <span ref={rmsTextRef}>-∞</span></span>
+        </div>
+      </div>
+    </div>
+  );
+};
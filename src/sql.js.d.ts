@@ -1,13 +1,15 @@
 declare module 'sql.js' {
+  export type SqlValue = number | string | Uint8Array | null;
+
   export interface Statement {
-    bind(values?: any[]): boolean;
+    bind(values?: SqlValue[]): boolean;
     step(): boolean;
     free(): boolean;
   }
 
   export interface Database {
-    run(sql: string, params?: any[]): void;
-    exec(sql: string, params?: any[]): Array<{ columns: string[]; values: any[][] }>;
+    run(sql: string, params?: SqlValue[]): void;
+    exec(sql: string, params?: SqlValue[]): Array<{ columns: string[]; values: SqlValue[][] }>;
     prepare(sql: string): Statement;
     export(): Uint8Array;
     close(): void;
@@ -1,27 +1,124 @@
 // Database management for storing and loading patches
-import initSqlJs, { Database, SqlJsStatic } from 'sql.js';
+import initSqlJs, { Database, SqlJsStatic, SqlValue } from 'sql.js';
+import { SynthesizerParams } from './SynthEngine';
+import { ArpeggiatorSettings } from './arpeggiator';
+import { DrumTracks } from './drums';
+import { PatternTiming } from './patternPlayback';
+
+// Synth parameters stored with a patch; fields missing from older rows are left out
+export type PatchParams = Partial<Omit<SynthesizerParams, 'frequency'>>;
 
 export interface Patch {
   id?: number;
   name: string;
   timestamp?: number;
-  params: {
-    oscillatorType: OscillatorType;
-    volume: number;
-    attack: number;
-    decay: number;
-    sustain: number;
-    release: number;
-    cutoff: number;
-    resonance: number;
-    filterType: BiquadFilterType;
-    lfoRate: number;
-    lfoAmount: number;
-    detuneAmount: number;
-  };
-  sequencerSteps?: string; // JSON string of sequencer pattern
+  params: PatchParams;
+  sequencerSteps?: string; // JSON string of sequencer pattern, 1-64 steps
+  sequencerTiming?: PatternTiming; // Step resolution and time signature; older patches have none
+  arpeggiator?: ArpeggiatorSettings; // Only stored when the arpeggiator was set to save with patches
+  drums?: DrumTracks; // Drum rows and kit played alongside the sequencer pattern
+}
+
+interface ParamColumn {
+  key: keyof PatchParams;
+  column: string;
+  type: 'REAL' | 'TEXT' | 'BOOLEAN' | 'JSON'; // Booleans are stored as 0/1 integers, JSON as text
 }
 
+// Maps each stored synth parameter to its column in the patches table.
+// Columns missing from an existing database are added on startup.
+const PARAM_COLUMNS: ParamColumn[] = [
+  { key: 'oscillatorType', column: 'oscillator_type', type: 'TEXT' },
+  { key: 'volume', column: 'volume', type: 'REAL' },
+  { key: 'wavetable', column: 'wavetable', type: 'JSON' },
+  { key: 'wavetablePosition', column: 'wavetable_position', type: 'REAL' },
+  { key: 'osc1Level', column: 'osc1_level', type: 'REAL' },
+  { key: 'osc2Type', column: 'osc2_type', type: 'TEXT' },
+  { key: 'osc2Level', column: 'osc2_level', type: 'REAL' },
+  { key: 'osc2Octave', column: 'osc2_octave', type: 'REAL' },
+  { key: 'osc2Semitone', column: 'osc2_semitone', type: 'REAL' },
+  { key: 'osc2Fine', column: 'osc2_fine', type: 'REAL' },
+  { key: 'osc2Sync', column: 'osc2_sync', type: 'BOOLEAN' },
+  { key: 'subLevel', column: 'sub_level', type: 'REAL' },
+  { key: 'subOctave', column: 'sub_octave', type: 'REAL' },
+  { key: 'noiseLevel', column: 'noise_level', type: 'REAL' },
+  { key: 'noiseType', column: 'noise_type', type: 'TEXT' },
+  { key: 'attack', column: 'attack', type: 'REAL' },
+  { key: 'decay', column: 'decay', type: 'REAL' },
+  { key: 'sustain', column: 'sustain', type: 'REAL' },
+  { key: 'release', column: 'release', type: 'REAL' },
+  { key: 'cutoff', column: 'cutoff', type: 'REAL' },
+  { key: 'resonance', column: 'resonance', type: 'REAL' },
+  { key: 'filterType', column: 'filter_type', type: 'TEXT' },
+  { key: 'filterAttack', column: 'filter_attack', type: 'REAL' },
+  { key: 'filterDecay', column: 'filter_decay', type: 'REAL' },
+  { key: 'filterSustain', column: 'filter_sustain', type: 'REAL' },
+  { key: 'filterRelease', column: 'filter_release', type: 'REAL' },
+  { key: 'filterEnvAmount', column: 'filter_env_amount', type: 'REAL' },
+  { key: 'filterKeyTrack', column: 'filter_key_track', type: 'REAL' },
+  { key: 'lfoRate', column: 'lfo_rate', type: 'REAL' },
+  { key: 'lfoAmount', column: 'lfo_amount', type: 'REAL' },
+  { key: 'lfoWaveform', column: 'lfo_waveform', type: 'TEXT' },
+  { key: 'lfoDestination', column: 'lfo_destination', type: 'TEXT' },
+  { key: 'lfoRetrigger', column: 'lfo_retrigger', type: 'BOOLEAN' },
+  { key: 'lfoSync', column: 'lfo_sync', type: 'BOOLEAN' },
+  { key: 'lfoSyncDivision', column: 'lfo_sync_division', type: 'TEXT' },
+  // detune_amount held a fraction of a semitone before detune moved to cents
+  { key: 'detuneAmount', column: 'detune_cents', type: 'REAL' },
+  { key: 'ringModAmount', column: 'ring_mod_amount', type: 'REAL' },
+  { key: 'ringModMode', column: 'ring_mod_mode', type: 'TEXT' },
+  { key: 'ringModRatio', column: 'ring_mod_ratio', type: 'REAL' },
+  { key: 'ringModFrequency', column: 'ring_mod_frequency', type: 'REAL' },
+  { key: 'wetness', column: 'wetness', type: 'REAL' },
+  { key: 'coarseness', column: 'coarseness', type: 'REAL' },
+  { key: 'driveCurve', column: 'drive_curve', type: 'TEXT' },
+  { key: 'crushBits', column: 'crush_bits', type: 'REAL' },
+  { key: 'crushRate', column: 'crush_rate', type: 'REAL' },
+  { key: 'voiceMode', column: 'voice_mode', type: 'TEXT' },
+  { key: 'glideTime', column: 'glide_time', type: 'REAL' },
+  { key: 'maxPolyphony', column: 'max_polyphony', type: 'REAL' },
+  { key: 'voiceStealing', column: 'voice_stealing', type: 'TEXT' },
+  { key: 'unisonVoices', column: 'unison_voices', type: 'REAL' },
+  { key: 'unisonDetune', column: 'unison_detune', type: 'REAL' },
+  { key: 'unisonCurve', column: 'unison_curve', type: 'REAL' },
+  { key: 'unisonSpread', column: 'unison_spread', type: 'REAL' },
+  { key: 'accentAmount', column: 'accent_amount', type: 'REAL' },
+  { key: 'velocityToFilter', column: 'velocity_to_filter', type: 'REAL' },
+  { key: 'reverbDecay', column: 'reverb_decay', type: 'REAL' },
+  { key: 'reverbPreDelay', column: 'reverb_pre_delay', type: 'REAL' },
+  { key: 'insertOrder', column: 'insert_order', type: 'JSON' },
+  { key: 'insertDriveBypass', column: 'insert_drive_bypass', type: 'BOOLEAN' },
+  { key: 'insertDriveAmount', column: 'insert_drive_amount', type: 'REAL' },
+  { key: 'insertDriveCurve', column: 'insert_drive_curve', type: 'TEXT' },
+  { key: 'insertChorusBypass', column: 'insert_chorus_bypass', type: 'BOOLEAN' },
+  { key: 'insertChorusMode', column: 'insert_chorus_mode', type: 'TEXT' },
+  { key: 'insertChorusRate', column: 'insert_chorus_rate', type: 'REAL' },
+  { key: 'insertChorusDepth', column: 'insert_chorus_depth', type: 'REAL' },
+  { key: 'insertChorusMix', column: 'insert_chorus_mix', type: 'REAL' },
+  { key: 'insertDelayBypass', column: 'insert_delay_bypass', type: 'BOOLEAN' },
+  { key: 'insertDelayDivision', column: 'insert_delay_division', type: 'TEXT' },
+  { key: 'insertDelayFeedback', column: 'insert_delay_feedback', type: 'REAL' },
+  { key: 'insertDelayMix', column: 'insert_delay_mix', type: 'REAL' },
+  { key: 'insertEqBypass', column: 'insert_eq_bypass', type: 'BOOLEAN' },
+  { key: 'insertEqLow', column: 'insert_eq_low', type: 'REAL' },
+  { key: 'insertEqMid', column: 'insert_eq_mid', type: 'REAL' },
+  { key: 'insertEqHigh', column: 'insert_eq_high', type: 'REAL' },
+  { key: 'insertLimiterBypass', column: 'insert_limiter_bypass', type: 'BOOLEAN' },
+  { key: 'insertLimiterCeiling', column: 'insert_limiter_ceiling', type: 'REAL' },
+  { key: 'tuning', column: 'tuning', type: 'JSON' },
+  { key: 'sample', column: 'sample', type: 'JSON' },
+  { key: 'modMatrix', column: 'mod_matrix', type: 'JSON' },
+];
+
+// Everything a patch stores besides its name and timestamp, in the order patchValues writes it
+const SETTING_COLUMNS = [
+  ...PARAM_COLUMNS.map(({ column }) => column),
+  'sequencer_steps',
+  'sequencer_timing',
+  'arpeggiator',
+  'drums',
+];
+
 export class PatchDatabase {
   private db: Database | null = null;
   private SQL: SqlJsStatic | null = null;
@@ -34,7 +131,7 @@ export class PatchDatabase {
       this.SQL = await initSqlJs({
         locateFile: (file: string) => `https://sql.js.org/dist/${file}`
       });
-      
+
       // Try to load from localStorage first
       const saved = localStorage.getItem('ts404_db');
       if (saved) {
@@ -61,21 +158,107 @@ export class PatchDatabase {
         id INTEGER PRIMARY KEY AUTOINCREMENT,
         name TEXT NOT NULL,
         timestamp INTEGER,
-        oscillator_type TEXT,
-        volume REAL,
-        attack REAL,
-        decay REAL,
-        sustain REAL,
-        release REAL,
-        cutoff REAL,
-        resonance REAL,
-        filter_type TEXT,
-        lfo_rate REAL,
-        lfo_amount REAL,
-        detune_amount REAL,
-        sequencer_steps TEXT
+        sequencer_steps TEXT,
+        arpeggiator TEXT,
+        drums TEXT,
+        sequencer_timing TEXT
       )
     `);
+
+    this.migrateColumns();
+  }
+
+  private migrateColumns() {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const result = this.db.exec('PRAGMA table_info(patches)');
+    const existing = new Set<string>(
+      result.length > 0 ? result[0].values.map((values) => values[1] as string) : []
+    );
+
+    const missing = PARAM_COLUMNS.filter(({ column }) => !existing.has(column));
+    missing.forEach(({ column, type }) => {
+      const sqlType = type === 'BOOLEAN' ? 'INTEGER' : type === 'JSON' ? 'TEXT' : type;
+      this.db!.run(`ALTER TABLE patches ADD COLUMN ${column} ${sqlType}`);
+    });
+
+    // Patches saved with the fractional detune carry it over in cents
+    if (missing.some(({ column }) => column === 'detune_cents') && existing.has('detune_amount')) {
+      this.db.run('UPDATE patches SET detune_cents = detune_amount * 100 WHERE detune_amount IS NOT NULL');
+    }
+
+    // Databases created before the arpeggiator, the drum rows or pattern timing existed
+    const missingSettings = ['arpeggiator', 'drums', 'sequencer_timing'].filter((column) => !existing.has(column));
+    missingSettings.forEach((column) => {
+      this.db!.run(`ALTER TABLE patches ADD COLUMN ${column} TEXT`);
+    });
+
+    if (missing.length > 0 || missingSettings.length > 0) {
+      this.save();
+    }
+  }
+
+  private rowToPatch(columns: string[], values: SqlValue[]): Patch {
+    const arpeggiator = values[columns.indexOf('arpeggiator')] as string | null;
+    const drums = values[columns.indexOf('drums')] as string | null;
+    const sequencerTiming = values[columns.indexOf('sequencer_timing')] as string | null;
+    const params: PatchParams = {};
+    PARAM_COLUMNS.forEach(({ key, column, type }) => {
+      const value = values[columns.indexOf(column)];
+      // Older patches have no value for parameters added after they were saved
+      if (value === null || value === undefined) return;
+      const parsed = this.fromColumnValue(type, value);
+      if (parsed !== undefined) {
+        (params as Record<string, unknown>)[key] = parsed;
+      }
+    });
+
+    return {
+      id: values[columns.indexOf('id')] as number,
+      name: values[columns.indexOf('name')] as string,
+      timestamp: values[columns.indexOf('timestamp')] as number,
+      params,
+      sequencerSteps: values[columns.indexOf('sequencer_steps')] as string,
+      sequencerTiming: sequencerTiming ? JSON.parse(sequencerTiming) : undefined,
+      arpeggiator: arpeggiator ? JSON.parse(arpeggiator) : undefined,
+      drums: drums ? JSON.parse(drums) : undefined,
+    };
+  }
+
+  private fromColumnValue(type: ParamColumn['type'], value: SqlValue): unknown {
+    switch (type) {
+      case 'BOOLEAN':
+        return value === 1;
+      case 'JSON':
+        return typeof value === 'string' ? JSON.parse(value) : undefined;
+      default:
+        return value;
+    }
+  }
+
+  private paramValues(params: PatchParams): SqlValue[] {
+    return PARAM_COLUMNS.map(({ key, type }): SqlValue => {
+      const value = params[key];
+      if (value === undefined) return null;
+      switch (type) {
+        case 'BOOLEAN':
+          return value ? 1 : 0;
+        case 'JSON':
+          return JSON.stringify(value);
+        default:
+          return value as number | string;
+      }
+    });
+  }
+
+  private settingValues(patch: Patch): SqlValue[] {
+    return [
+      ...this.paramValues(patch.params),
+      patch.sequencerSteps || '[]',
+      patch.sequencerTiming ? JSON.stringify(patch.sequencerTiming) : null,
+      patch.arpeggiator ? JSON.stringify(patch.arpeggiator) : null,
+      patch.drums ? JSON.stringify(patch.drums) : null,
+    ];
   }
 
   async savePatch(patch: Patch): Promise<number> {
@@ -85,30 +268,13 @@ export class PatchDatabase {
     }
 
     try {
+      const columns = ['name', 'timestamp', ...SETTING_COLUMNS];
       const stmt = this.db.prepare(`
-        INSERT INTO patches (
-          name, timestamp, oscillator_type, volume, attack, decay, sustain, release,
-          cutoff, resonance, filter_type, lfo_rate, lfo_amount, detune_amount, sequencer_steps
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        INSERT INTO patches (${columns.join(', ')})
+        VALUES (${columns.map(() => '?').join(', ')})
       `);
 
-      stmt.bind([
-        patch.name,
-        Date.now(),
-        patch.params.oscillatorType,
-        patch.params.volume,
-        patch.params.attack,
-        patch.params.decay,
-        patch.params.sustain,
-        patch.params.release,
-        patch.params.cutoff,
-        patch.params.resonance,
-        patch.params.filterType,
-        patch.params.lfoRate,
-        patch.params.lfoAmount,
-        patch.params.detuneAmount,
-        patch.sequencerSteps || '[]',
-      ]);
+      stmt.bind([patch.name, Date.now(), ...this.settingValues(patch)]);
 
       stmt.step();
       stmt.free();
@@ -134,31 +300,7 @@ export class PatchDatabase {
       return null;
     }
 
-    const row = result[0].values[0];
-    const columns = result[0].columns;
-
-    const patch: Patch = {
-      id: row[columns.indexOf('id')] as number,
-      name: row[columns.indexOf('name')] as string,
-      timestamp: row[columns.indexOf('timestamp')] as number,
-      params: {
-        oscillatorType: row[columns.indexOf('oscillator_type')] as OscillatorType,
-        volume: row[columns.indexOf('volume')] as number,
-        attack: row[columns.indexOf('attack')] as number,
-        decay: row[columns.indexOf('decay')] as number,
-        sustain: row[columns.indexOf('sustain')] as number,
-        release: row[columns.indexOf('release')] as number,
-        cutoff: row[columns.indexOf('cutoff')] as number,
-        resonance: row[columns.indexOf('resonance')] as number,
-        filterType: row[columns.indexOf('filter_type')] as BiquadFilterType,
-        lfoRate: row[columns.indexOf('lfo_rate')] as number,
-        lfoAmount: row[columns.indexOf('lfo_amount')] as number,
-        detuneAmount: row[columns.indexOf('detune_amount')] as number,
-      },
-      sequencerSteps: row[columns.indexOf('sequencer_steps')] as string,
-    };
-
-    return patch;
+    return this.rowToPatch(result[0].columns, result[0].values[0]);
   }
 
   async loadAllPatches(): Promise<Patch[]> {
@@ -173,34 +315,8 @@ export class PatchDatabase {
         return [];
       }
 
-      const patches: Patch[] = [];
-      const row = result[0];
-      const columns = row.columns;
-
-      for (const values of row.values) {
-        patches.push({
-          id: values[columns.indexOf('id')] as number,
-          name: values[columns.indexOf('name')] as string,
-          timestamp: values[columns.indexOf('timestamp')] as number,
-          params: {
-            oscillatorType: values[columns.indexOf('oscillator_type')] as OscillatorType,
-            volume: values[columns.indexOf('volume')] as number,
-            attack: values[columns.indexOf('attack')] as number,
-            decay: values[columns.indexOf('decay')] as number,
-            sustain: values[columns.indexOf('sustain')] as number,
-            release: values[columns.indexOf('release')] as number,
-            cutoff: values[columns.indexOf('cutoff')] as number,
-            resonance: values[columns.indexOf('resonance')] as number,
-            filterType: values[columns.indexOf('filter_type')] as BiquadFilterType,
-            lfoRate: values[columns.indexOf('lfo_rate')] as number,
-            lfoAmount: values[columns.indexOf('lfo_amount')] as number,
-            detuneAmount: values[columns.indexOf('detune_amount')] as number,
-          },
-          sequencerSteps: values[columns.indexOf('sequencer_steps')] as string,
-        });
-      }
-
-      return patches;
+      const { columns, values } = result[0];
+      return values.map((row) => this.rowToPatch(columns, row));
     } catch (error) {
       console.error('Failed to load patches:', error);
       return [];
@@ -217,28 +333,11 @@ export class PatchDatabase {
   async updatePatch(patch: Patch): Promise<void> {
     if (!this.db || !patch.id) throw new Error('Database not initialized or invalid patch');
 
+    const assignments = ['name = ?', ...SETTING_COLUMNS.map((column) => `${column} = ?`)];
     this.db.run(`
-      UPDATE patches SET
-        name = ?, oscillator_type = ?, volume = ?, attack = ?, decay = ?,
-        sustain = ?, release = ?, cutoff = ?, resonance = ?, filter_type = ?,
-        lfo_rate = ?, lfo_amount = ?, detune_amount = ?
+      UPDATE patches SET ${assignments.join(', ')}
       WHERE id = ?
-    `, [
-      patch.name,
-      patch.params.oscillatorType,
-      patch.params.volume,
-      patch.params.attack,
-      patch.params.decay,
-      patch.params.sustain,
-      patch.params.release,
-      patch.params.cutoff,
-      patch.params.resonance,
-      patch.params.filterType,
-      patch.params.lfoRate,
-      patch.params.lfoAmount,
-      patch.params.detuneAmount,
-      patch.id,
-    ]);
+    `, [patch.name, ...this.settingValues(patch), patch.id]);
     this.save();
   }
 
@@ -0,0 +1,95 @@
+// Local storage for sampler audio files. The files are kept as they were loaded
+// in IndexedDB, which holds binary data without the size limits of localStorage.
+// Patches only store a sample's id.
+
+export interface SampleInfo {
+  id: string;
+  name: string; // File name
+  type: string; // MIME type of the file
+  size: number; // Bytes
+  timestamp: number;
+}
+
+const DB_NAME = 'ts404_samples';
+const DB_VERSION = 1;
+// Listing samples reads only their info; the audio is fetched when a sample is played
+const INFO_STORE = 'info';
+const DATA_STORE = 'data';
+
+// Wraps an IndexedDB request in a promise
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+export class SampleLibrary {
+  private db: IDBDatabase | null = null;
+
+  async initialize() {
+    if (this.db) return;
+
+    const open = indexedDB.open(DB_NAME, DB_VERSION);
+    open.onupgradeneeded = () => {
+      const db = open.result;
+      if (!db.objectStoreNames.contains(INFO_STORE)) {
+        db.createObjectStore(INFO_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(DATA_STORE)) {
+        db.createObjectStore(DATA_STORE);
+      }
+    };
+    this.db = await request(open);
+  }
+
+  private getDb(): IDBDatabase {
+    if (!this.db) throw new Error('Sample library not initialized');
+    return this.db;
+  }
+
+  // Stores the file's bytes and returns the new sample's info
+  async saveSample(file: File, data: ArrayBuffer): Promise<SampleInfo> {
+    const info: SampleInfo = {
+      id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`,
+      name: file.name,
+      type: file.type,
+      size: data.byteLength,
+      timestamp: Date.now(),
+    };
+    const transaction = this.getDb().transaction([INFO_STORE, DATA_STORE], 'readwrite');
+    transaction.objectStore(INFO_STORE).put(info);
+    transaction.objectStore(DATA_STORE).put(data, info.id);
+    await transactionDone(transaction);
+    return info;
+  }
+
+  // The file's bytes, or null when the sample is no longer in the library
+  async loadSampleData(id: string): Promise<ArrayBuffer | null> {
+    const transaction = this.getDb().transaction(DATA_STORE, 'readonly');
+    const data = await request<ArrayBuffer | undefined>(transaction.objectStore(DATA_STORE).get(id));
+    return data ?? null;
+  }
+
+  // Every stored sample, newest first
+  async listSamples(): Promise<SampleInfo[]> {
+    const transaction = this.getDb().transaction(INFO_STORE, 'readonly');
+    const samples = await request<SampleInfo[]>(transaction.objectStore(INFO_STORE).getAll());
+    return samples.sort((a, b) => b.timestamp - a.timestamp);
+  }
+
+  async deleteSample(id: string): Promise<void> {
+    const transaction = this.getDb().transaction([INFO_STORE, DATA_STORE], 'readwrite');
+    transaction.objectStore(INFO_STORE).delete(id);
+    transaction.objectStore(DATA_STORE).delete(id);
+    await transactionDone(transaction);
+  }
+}
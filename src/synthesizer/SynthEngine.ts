@@ -0,0 +1,300 @@
+// Shared synthesizer parameter types and the interface every audio engine implements
+import { DEFAULT_TUNING } from './tuning';
+import { DEFAULT_SAMPLE } from './sampler';
+import { DEFAULT_MOD_MATRIX } from './modMatrix';
+import { DrumType, DrumVoiceSettings } from './drums';
+import { DEFAULT_WAVETABLE } from './wavetable';
+
+export type OscillatorShape = 'sine' | 'triangle' | 'sawtooth' | 'square';
+// The main oscillator can also play the patch's wavetable or its sample
+export type WaveShape = OscillatorShape | 'wavetable' | 'sample';
+// Harmonic amplitudes of one wavetable frame, fundamental first
+export type WavetableFrame = number[];
+export type NoiseType = 'white' | 'pink';
+// 'ladder' is a 24 dB/oct lowpass running in an AudioWorklet; the others are 12 dB biquads
+export type FilterType = 'lowpass' | 'highpass' | 'bandpass' | 'notch' | 'ladder';
+export type DriveCurve = 'soft' | 'hard' | 'fold';
+export type RingModMode = 'track' | 'fixed';
+export type VoiceMode = 'poly' | 'mono';
+export type VoiceStealing = 'oldest' | 'quietest';
+export type LfoWaveform = 'sine' | 'triangle' | 'sawtooth' | 'square' | 'sampleHold';
+export type LfoDestination = 'pitch' | 'cutoff' | 'amplitude' | 'pan' | 'pulseWidth';
+export type LfoSyncDivision = '1/1' | '1/2' | '1/4' | '1/8' | '1/16' | '1/32' | '1/4T' | '1/8T' | '1/16T' | '1/4.' | '1/8.';
+// Effects on the master insert chain, which processes the whole mix on its way out
+export type InsertType = 'drive' | 'chorus' | 'delay' | 'eq' | 'limiter';
+export type ChorusMode = 'chorus' | 'flanger';
+
+// Available engine backends
+export type EngineType = 'tone' | 'webaudio';
+
+// Which scale degree each MIDI key plays, as in a Scala .kbm file
+export interface KeyboardMapping {
+  size: number; // Keys in one repeat of the map; 0 maps every key to the next degree
+  firstNote: number; // Lowest and highest MIDI notes that sound
+  lastNote: number;
+  middleNote: number; // Key that plays degree 0
+  referenceNote: number; // Key tuned to the reference frequency
+  referenceFrequency: number; // Hz
+  octaveDegree: number; // Degree the map repeats at; 0 uses the scale's period
+  map: (number | null)[]; // Degree for each key of one repeat, null for keys left silent
+}
+
+// A Scala scale with its keyboard mapping
+export interface Tuning {
+  name: string;
+  description: string;
+  scale: number[]; // Cents above degree 0, ending with the period (usually 1200)
+  mapping: KeyboardMapping;
+}
+
+// Audio file played by the 'sample' shape. The audio lives in the local sample
+// library; patches only keep its id and how it is played.
+export interface SampleSettings {
+  id: string; // Sample library id, '' when no sample is loaded
+  name: string; // File name, shown when the sample is missing from the library
+  rootNote: number; // MIDI note at which the sample plays at its recorded pitch
+  fineTune: number; // Cents, -50 to 50, added to the root note
+  start: number; // 0-1, where playback starts in the file
+  loop: boolean;
+  loopStart: number; // 0-1 of the file's length
+  loopEnd: number; // 0-1, after loopStart
+}
+
+// Where a modulation matrix slot takes its value from
+export type ModSource = 'lfo1' | 'lfo2' | 'ampEnv' | 'filterEnv' | 'velocity' | 'key' | 'step' | 'random' | 'cc';
+
+// Every numeric parameter is a modulation destination, apart from the unused frequency
+// and those that rebuild voices or buffers when they change, which can't follow a control rate
+export type ModDestination = Exclude<
+  { [K in keyof SynthesizerParams]: SynthesizerParams[K] extends number ? K : never }[keyof SynthesizerParams],
+  'frequency' | 'maxPolyphony' | 'unisonVoices' | 'reverbDecay' | 'reverbPreDelay' | 'coarseness'
+>;
+
+export interface ModSlot {
+  source: ModSource;
+  destination: ModDestination | null; // null leaves the slot unused
+  depth: number; // -1 to 1; full depth sweeps the destination's whole range
+  controller: number; // 0-127, the MIDI CC number read by the 'cc' source
+}
+
+// Free-running LFOs that only feed the modulation matrix
+export interface ModLfoSettings {
+  rate: number; // Hz
+  waveform: LfoWaveform;
+}
+
+export interface ModMatrix {
+  slots: ModSlot[];
+  lfos: ModLfoSettings[]; // Sources 'lfo1' and 'lfo2'
+}
+
+// Master insert chain settings, saved with the rest of the patch
+export interface InsertParams {
+  insertOrder: InsertType[]; // Processing order of the master inserts
+  insertDriveBypass: boolean;
+  insertDriveAmount: number; // 0-1
+  insertDriveCurve: DriveCurve;
+  insertChorusBypass: boolean;
+  insertChorusMode: ChorusMode;
+  insertChorusRate: number; // Hz
+  insertChorusDepth: number; // 0-1
+  insertChorusMix: number; // 0-1
+  insertDelayBypass: boolean;
+  insertDelayDivision: LfoSyncDivision; // Delay time as a note division of the sequencer tempo
+  insertDelayFeedback: number; // 0-0.9
+  insertDelayMix: number; // 0-1
+  insertEqBypass: boolean;
+  insertEqLow: number; // dB, low shelf
+  insertEqMid: number; // dB, mid peak
+  insertEqHigh: number; // dB, high shelf
+  insertLimiterBypass: boolean;
+  insertLimiterCeiling: number; // dBFS the output never exceeds
+}
+
+export interface SynthesizerParams extends InsertParams {
+  oscillatorType: WaveShape;
+  frequency: number;
+  volume: number;
+  wavetable: WavetableFrame[]; // Frames played by the 'wavetable' shape, 1-8
+  wavetablePosition: number; // 0-1, morphs from the first frame to the last
+  osc1Level: number; // 0-1, mixer level of the main oscillator
+  osc2Type: OscillatorShape;
+  osc2Level: number; // 0-1
+  osc2Octave: number; // -2 to 2, octave offset from the main oscillator
+  osc2Semitone: number; // -12 to 12
+  osc2Fine: number; // cents, -50 to 50
+  osc2Sync: boolean; // Hard-sync the second oscillator to the main one
+  subLevel: number; // 0-1, square sub-oscillator level
+  subOctave: number; // 1 or 2 octaves below the main oscillator
+  noiseLevel: number; // 0-1
+  noiseType: NoiseType;
+  attack: number;
+  decay: number;
+  sustain: number;
+  release: number;
+  cutoff: number;
+  resonance: number;
+  filterType: FilterType;
+  filterAttack: number; // seconds
+  filterDecay: number; // seconds
+  filterSustain: number; // 0-1
+  filterRelease: number; // seconds
+  filterEnvAmount: number; // -1 to 1, bipolar env-mod depth (full scale is 4 octaves)
+  filterKeyTrack: number; // 0-1, how closely the cutoff follows the note pitch
+  lfoRate: number; // Hz, used when tempo sync is off
+  lfoAmount: number; // 0-1, depth at the chosen destination
+  lfoWaveform: LfoWaveform;
+  lfoDestination: LfoDestination; // Pulse width only affects the square oscillator
+  lfoRetrigger: boolean; // Restart the LFO cycle on every note instead of free-running
+  lfoSync: boolean; // Lock the rate to a note division of the sequencer tempo
+  lfoSyncDivision: LfoSyncDivision; // Length of one LFO cycle when synced
+  detuneAmount: number; // cents
+  ringModAmount: number; // 0-1, blend from plain amplitude to full ring modulation
+  ringModMode: RingModMode; // Whether the modulator tracks the note or runs at a fixed frequency
+  ringModRatio: number; // Modulator frequency as a multiple of the note frequency (track mode)
+  ringModFrequency: number; // Hz, modulator frequency in fixed mode
+  wetness: number; // 0-1, reverb/effect wet amount
+  coarseness: number; // 0-1, waveform harshness
+  driveCurve: DriveCurve; // Waveshaper curve used by the coarseness stage
+  crushBits: number; // 1-16, bit depth reached at full coarseness
+  crushRate: number; // 0-1, amount of sample-rate reduction at full coarseness
+  voiceMode: VoiceMode; // Poly voices per note, or one legato voice with last-note priority
+  glideTime: number; // seconds, portamento time for slides and mono legato
+  maxPolyphony: number; // 1-16, voices that can sound at once
+  voiceStealing: VoiceStealing; // Which sounding voice a new note takes over when all are busy
+  unisonVoices: number; // 1-8 detuned copies per note, each taking a voice from the polyphony limit
+  unisonDetune: number; // cents, detune of the outermost copies
+  unisonCurve: number; // 0-1, from evenly spaced copies to a tight centre with wide outer copies
+  unisonSpread: number; // 0-1, stereo width of the copies
+  accentAmount: number; // 0-1, how much accented steps boost volume, cutoff and resonance
+  velocityToFilter: number; // 0-1, how much velocity scales the filter envelope depth
+  reverbDecay: number; // seconds, length of the reverb tail
+  reverbPreDelay: number; // seconds before the reverb tail starts
+  tuning: Tuning; // Note frequencies for the keyboard and sequencer
+  sample: SampleSettings;
+  modMatrix: ModMatrix; // Applied on top of the other parameters while the engine plays
+}
+
+// Master insert settings, shared by the defaults and the factory presets
+export const DEFAULT_INSERT_PARAMS: InsertParams = {
+  insertOrder: ['drive', 'chorus', 'delay', 'eq', 'limiter'],
+  insertDriveBypass: true,
+  insertDriveAmount: 0.3,
+  insertDriveCurve: 'soft',
+  insertChorusBypass: true,
+  insertChorusMode: 'chorus',
+  insertChorusRate: 0.8,
+  insertChorusDepth: 0.5,
+  insertChorusMix: 0.5,
+  insertDelayBypass: true,
+  insertDelayDivision: '1/8.',
+  insertDelayFeedback: 0.35,
+  insertDelayMix: 0.25,
+  insertEqBypass: true,
+  insertEqLow: 0,
+  insertEqMid: 0,
+  insertEqHigh: 0,
+  insertLimiterBypass: false,
+  insertLimiterCeiling: -1,
+};
+
+// Starting parameters for a freshly constructed engine
+export const DEFAULT_SYNTH_PARAMS: SynthesizerParams = {
+  oscillatorType: 'square',
+  frequency: 440,
+  volume: 0.3,
+  wavetable: DEFAULT_WAVETABLE,
+  wavetablePosition: 0,
+  osc1Level: 1,
+  osc2Type: 'sawtooth',
+  osc2Level: 0,
+  osc2Octave: 0,
+  osc2Semitone: 0,
+  osc2Fine: 0,
+  osc2Sync: false,
+  subLevel: 0,
+  subOctave: 1,
+  noiseLevel: 0,
+  noiseType: 'white',
+  attack: 0.1,
+  decay: 0.2,
+  sustain: 0.5,
+  release: 0.3,
+  cutoff: 4000,
+  resonance: 1,
+  filterType: 'lowpass',
+  filterAttack: 0.005,
+  filterDecay: 0.3,
+  filterSustain: 0,
+  filterRelease: 0.3,
+  filterEnvAmount: 0,
+  filterKeyTrack: 0,
+  lfoRate: 5,
+  lfoAmount: 0,
+  lfoWaveform: 'sine',
+  lfoDestination: 'pitch',
+  lfoRetrigger: false,
+  lfoSync: false,
+  lfoSyncDivision: '1/4',
+  detuneAmount: 0,
+  ringModAmount: 0,
+  ringModMode: 'track',
+  ringModRatio: 1.5,
+  ringModFrequency: 440,
+  wetness: 0.3,
+  coarseness: 0.5,
+  driveCurve: 'soft',
+  crushBits: 16,
+  crushRate: 0,
+  voiceMode: 'poly',
+  glideTime: 0.08,
+  maxPolyphony: 8,
+  voiceStealing: 'oldest',
+  unisonVoices: 1,
+  unisonDetune: 20,
+  unisonCurve: 0.5,
+  unisonSpread: 0.7,
+  accentAmount: 0.5,
+  velocityToFilter: 0.3,
+  reverbDecay: 2.5,
+  reverbPreDelay: 0.02,
+  tuning: DEFAULT_TUNING,
+  sample: DEFAULT_SAMPLE,
+  modMatrix: DEFAULT_MOD_MATRIX,
+  ...DEFAULT_INSERT_PARAMS,
+};
+
+export interface SynthEngine {
+  updateParams(params: Partial<SynthesizerParams>): void;
+  // Notes and drums play at `time` on the audio context's clock when given, otherwise straight away
+  noteOn(noteNumber: number, velocity?: number, slideTime?: number, accent?: boolean, time?: number): void;
+  noteOff(noteNumber: number, time?: number): void;
+  stopAllNotes(): void;
+  // Plays a drum hit through the master volume, effects and inserts alongside the synth voices
+  triggerDrum(drum: DrumType, settings: DrumVoiceSettings, velocity?: number, time?: number): void;
+  // Decoded audio for the 'sample' shape, or null to play silence
+  setSample(buffer: AudioBuffer | null): void;
+  // Step the sequencer reaches at `time`, or straight away, read by the matrix's 'step' source
+  setSequencerStep(step: number, length: number, time?: number): void;
+  // Latest value, 0-127, of a MIDI continuous controller, read by the matrix's 'cc' source
+  setControlChange(controller: number, value: number): void;
+  // Re-applies the modulation matrix at the current time; called at MOD_UPDATE_INTERVAL while playing
+  updateModulation(): void;
+  midiNoteToFrequency(noteNumber: number): number;
+  // 0-1 output level on the master gain; params.volume sets the patch level ahead of the drive
+  setMasterVolume(volume: number): void;
+  // Sequencer tempo in BPM, used by tempo-synced modulation
+  setTempo(bpm: number): void;
+  // Feeds the final output, after master volume, effects and inserts, to a tap such as the recorder
+  connectTap(node: AudioNode): void;
+  disconnectTap(node: AudioNode): void;
+  // Builds a node from the shared worklet module on the engine's context
+  createWorkletNode(processor: string, options?: AudioWorkletNodeOptions): AudioWorkletNode;
+  // Resolves once worklets and the reverb impulse are ready, so an offline render starts complete
+  whenReady(): Promise<void>;
+  suspend(): void;
+  resume(): void;
+  getAudioContext(): AudioContext;
+  // Releases every audio node; the engine cannot be used afterwards
+  dispose(): void;
+}
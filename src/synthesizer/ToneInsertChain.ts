@@ -0,0 +1,168 @@
+// Master insert chain for the Tone.js engine: drive, chorus/flanger,
+// ping-pong delay, EQ and limiter, wired in the patch's order
+import * as Tone from 'tone';
+import { InsertParams, InsertType } from './SynthEngine';
+import { makeDriveCurve, driveMakeupGain } from './drive';
+import {
+  EQ_HIGH_FREQUENCY,
+  EQ_LOW_FREQUENCY,
+  EQ_MID_FREQUENCY,
+  EQ_MID_Q,
+  LIMITER_ATTACK,
+  LIMITER_RATIO,
+  LIMITER_RELEASE,
+  MAX_INSERT_DELAY,
+  activeInserts,
+  chorusTiming,
+  insertDelaySeconds,
+  makeLimiterCurve,
+} from './masterInserts';
+
+// Where audio enters and leaves one insert
+interface Insert {
+  input: Tone.ToneAudioNode;
+  output: Tone.ToneAudioNode;
+}
+
+export class ToneInsertChain {
+  readonly input = new Tone.Gain(1);
+  readonly output = new Tone.Gain(1);
+  private driveShaper: Tone.WaveShaper;
+  private driveMakeup: Tone.Gain;
+  private chorus: Tone.Chorus;
+  private delay: Tone.PingPongDelay;
+  private eqLow: Tone.Filter;
+  private eqMid: Tone.Filter;
+  private eqHigh: Tone.Filter;
+  private limiter: Tone.Compressor;
+  private limiterClip: Tone.WaveShaper;
+  private inserts: Record<InsertType, Insert>;
+  private params: InsertParams;
+  private tempo: number;
+  private route = '';
+
+  constructor(params: InsertParams, tempo: number) {
+    this.params = params;
+    this.tempo = tempo;
+
+    this.driveShaper = new Tone.WaveShaper(makeDriveCurve(params.insertDriveCurve, params.insertDriveAmount));
+    this.driveShaper.oversample = '4x';
+    this.driveMakeup = new Tone.Gain(driveMakeupGain(params.insertDriveAmount));
+    this.driveShaper.connect(this.driveMakeup);
+
+    this.chorus = new Tone.Chorus({ spread: 180 }).start();
+
+    this.delay = new Tone.PingPongDelay({
+      delayTime: insertDelaySeconds(params, tempo),
+      maxDelay: MAX_INSERT_DELAY,
+    });
+
+    this.eqLow = new Tone.Filter({ type: 'lowshelf', frequency: EQ_LOW_FREQUENCY });
+    this.eqMid = new Tone.Filter({ type: 'peaking', frequency: EQ_MID_FREQUENCY, Q: EQ_MID_Q });
+    this.eqHigh = new Tone.Filter({ type: 'highshelf', frequency: EQ_HIGH_FREQUENCY });
+    this.eqLow.chain(this.eqMid, this.eqHigh);
+
+    this.limiter = new Tone.Compressor({
+      threshold: params.insertLimiterCeiling,
+      ratio: LIMITER_RATIO,
+      attack: LIMITER_ATTACK,
+      release: LIMITER_RELEASE,
+      knee: 0,
+    });
+    this.limiterClip = new Tone.WaveShaper(makeLimiterCurve(params.insertLimiterCeiling));
+    this.limiter.connect(this.limiterClip);
+
+    this.inserts = {
+      drive: { input: this.driveShaper, output: this.driveMakeup },
+      chorus: { input: this.chorus, output: this.chorus },
+      delay: { input: this.delay, output: this.delay },
+      eq: { input: this.eqLow, output: this.eqHigh },
+      limiter: { input: this.limiter, output: this.limiterClip },
+    };
+
+    this._applySettings(null);
+    this._rewire();
+  }
+
+  update(params: InsertParams, tempo: number) {
+    const previous = this.params;
+    const previousTempo = this.tempo;
+    this.params = params;
+    this.tempo = tempo;
+    this._applySettings(previous, previousTempo);
+    this._rewire();
+  }
+
+  private _applySettings(previous: InsertParams | null, previousTempo = this.tempo) {
+    const params = this.params;
+
+    if (
+      !previous ||
+      previous.insertDriveAmount !== params.insertDriveAmount ||
+      previous.insertDriveCurve !== params.insertDriveCurve
+    ) {
+      this.driveShaper.curve = makeDriveCurve(params.insertDriveCurve, params.insertDriveAmount);
+      this.driveMakeup.gain.rampTo(driveMakeupGain(params.insertDriveAmount), 0.05);
+    }
+
+    // Tone's chorus takes its delay in milliseconds and its depth as a fraction of that delay
+    const timing = chorusTiming(params.insertChorusMode, params.insertChorusDepth);
+    this.chorus.delayTime = timing.delay * 1000;
+    this.chorus.depth = timing.depth / timing.delay;
+    this.chorus.feedback.rampTo(timing.feedback, 0.05);
+    this.chorus.frequency.rampTo(Math.max(0.01, params.insertChorusRate), 0.05);
+    this.chorus.wet.rampTo(Math.max(0, Math.min(1, params.insertChorusMix)), 0.05);
+
+    if (
+      !previous ||
+      previous.insertDelayDivision !== params.insertDelayDivision ||
+      previousTempo !== this.tempo
+    ) {
+      this.delay.delayTime.rampTo(insertDelaySeconds(params, this.tempo), 0.05);
+    }
+    this.delay.feedback.rampTo(Math.max(0, Math.min(0.9, params.insertDelayFeedback)), 0.05);
+    this.delay.wet.rampTo(Math.max(0, Math.min(1, params.insertDelayMix)), 0.05);
+
+    this.eqLow.gain.rampTo(params.insertEqLow, 0.05);
+    this.eqMid.gain.rampTo(params.insertEqMid, 0.05);
+    this.eqHigh.gain.rampTo(params.insertEqHigh, 0.05);
+
+    if (!previous || previous.insertLimiterCeiling !== params.insertLimiterCeiling) {
+      this.limiter.threshold.rampTo(params.insertLimiterCeiling, 0.05);
+      this.limiterClip.curve = makeLimiterCurve(params.insertLimiterCeiling);
+    }
+  }
+
+  // Reconnects the chain when an insert is bypassed, enabled or moved
+  private _rewire() {
+    const active = activeInserts(this.params);
+    const route = active.join('>');
+    if (route === this.route) return;
+    this.route = route;
+
+    this.input.disconnect();
+    Object.values(this.inserts).forEach((insert) => insert.output.disconnect());
+
+    let previous: Tone.ToneAudioNode = this.input;
+    active.forEach((type) => {
+      const insert = this.inserts[type];
+      previous.connect(insert.input);
+      previous = insert.output;
+    });
+    previous.connect(this.output);
+  }
+
+  dispose() {
+    this.input.dispose();
+    this.driveShaper.dispose();
+    this.driveMakeup.dispose();
+    this.chorus.dispose();
+    this.delay.dispose();
+    this.eqLow.dispose();
+    this.eqMid.dispose();
+    this.eqHigh.dispose();
+    this.limiter.dispose();
+    this.limiterClip.dispose();
+    this.output.dispose();
+  }
+}
@@ -1,209 +1,1323 @@
 // Tone.js Synthesizer Implementation
 import * as Tone from 'tone';
+import { SynthEngine, SynthesizerParams, OscillatorShape, DEFAULT_SYNTH_PARAMS } from './SynthEngine';
+import { makeDriveCurve, driveMakeupGain, coarsenessToBits, coarsenessToDownsample } from './drive';
+import { CRUSHER_PROCESSOR, LADDER_FILTER_PROCESSOR, SYNC_OSCILLATOR_PROCESSOR, getWorkletModuleUrl } from './worklets';
+import { filterEnvDepthCents, keyTrackCents } from './filterEnvelope';
+import { AccentTracker } from './accent';
+import { STEAL_FADE_TIME, clampPolyphony, pickVoiceToSteal } from './voiceStealing';
+import {
+  SAMPLE_HOLD_BASE_RATE,
+  fillSampleHoldSteps,
+  lfoDepthFor,
+  lfoRateHz,
+  sampleHoldLength,
+  tremoloBaseGain,
+} from './lfo';
+import { osc2Ratio, subRatio, syncShapeIndex } from './oscillators';
+import { morphPartials } from './wavetable';
+import { buildTuningTable, tunedFrequency } from './tuning';
+import { ToneInsertChain } from './ToneInsertChain';
+import { DrumMachine, DrumType, DrumVoiceSettings } from './drums';
+import { applySampleLoop, createSampleSource, samplePitchScale } from './sampler';
+import { ModulationSources, modMatrixActive, modulateParams } from './modMatrix';
+import { SHAPE_CROSSFADE_TIME, sustainRetarget } from './liveUpdates';
+import {
+  MAX_PHASE_DELAY,
+  unisonCount,
+  unisonDetuneCents,
+  unisonGain,
+  unisonPan,
+  unisonPhaseDelay,
+  unisonPositions,
+} from './unison';
 
-export interface SynthesizerParams {
-  oscillatorType: 'sine' | 'triangle' | 'sawtooth' | 'square';
-  frequency: number;
-  volume: number;
-  attack: number;
-  decay: number;
-  sustain: number;
-  release: number;
-  cutoff: number;
-  resonance: number;
-  filterType: 'lowpass' | 'highpass' | 'bandpass' | 'notch';
-  lfoRate: number;
-  lfoAmount: number;
-  detuneAmount: number;
-  ringModAmount: number;
-  wetness: number; // 0-1, reverb/effect wet amount
-  coarseness: number; // 0-1, waveform harshness
-}
+// Osc 1 switches between the basic shapes, custom partials and a pulse; osc 2 only uses the basic shapes
+type VoiceOscillator = Tone.OmniOscillator<Tone.Oscillator | Tone.PulseOscillator>;
 
 interface VoiceNode {
-  synth: Tone.Synth;
+  pitch: Tone.Signal<'frequency'>; // Note frequency shared by every oscillator, glides move this
+  detune: Tone.Signal<'cents'>;
+  osc1: VoiceOscillator;
+  osc1Fader: Tone.Gain; // Fades osc1 across shape changes and out while the sample plays
+  partials: number[] | null; // Wavetable partials osc1 is playing, null for the basic shapes
+  sampleRatio: Tone.Multiply; // Scales the pitch into the sample's playback rate
+  sample: AudioBufferSourceNode | null; // Sample started by the last note, played in place of osc1
+  sampleFader: Tone.Gain; // Fades the sample in and out as the shape changes to and from 'sample'
+  osc2: VoiceOscillator;
+  osc2Fader: Tone.Gain;
+  osc2Ratio: Tone.Multiply; // Scales the pitch by the second oscillator's octave, semitone and fine offsets
+  syncOsc: AudioWorkletNode | null; // Hard-synced second oscillator, created the first time the voice needs it
+  sub: Tone.Oscillator;
+  subRatio: Tone.Multiply;
+  noise: Tone.Noise;
+  osc1Gain: Tone.Gain;
+  osc2Gain: Tone.Gain;
+  syncGain: Tone.Gain;
+  subGain: Tone.Gain;
+  noiseGain: Tone.Gain;
+  phaseDelay: Tone.Delay; // Randomizes the start phase of a unison copy
+  ampEnv: VoiceAmpEnvelope;
+  ringModVCA: Tone.Gain;
+  ringModDepth: Tone.Gain;
+  ringModOsc: Tone.Oscillator;
   filter: Tone.Filter;
+  ladder: AudioWorkletNode | null; // 24 dB ladder, created the first time the voice needs it
+  ladderActive: boolean; // Whether the ring mod VCA feeds the ladder instead of the biquad
+  filterEnv: VoiceFilterEnvelope;
+  filterEnvDepth: Tone.Gain;
   lfo: Tone.LFO;
+  sampleHold: Tone.Player; // Random steps, heard instead of the LFO for the sample-and-hold waveform
+  lfoDepth: Tone.Gain;
+  lfoRoute: string | null; // Destination the LFO depth is currently connected to
+  tremolo: Tone.Gain;
+  panner: Tone.Panner;
+  output: Tone.Gain; // Fader used for anti-click fades when a voice is stolen
+  frequency: number;
+  unisonPosition: number; // -1 to 1, where the voice sits in its note's unison stack
+  velocity: number;
+  accentLevel: number;
+  note: number | null; // Note the voice is playing, null when free
+  startedAt: number;
+  triggeredAt: number; // When the envelopes last started
+  releasedAt: number;
+  sourcesRunning: boolean; // Oscillators, noise and LFOs run only while the voice plays a note or fades out
+}
+
+// Voice settings that glide to new values
+interface RampedParam {
+  rampTo(value: number, rampTime: number): unknown;
+  cancelAndHoldAtTime(time: number): unknown;
+  setValueAtTime(value: number, time: number): unknown;
+}
+
+// Tone schedules an envelope's decay when the note starts. These envelopes can
+// replace that schedule so a held note follows a new sustain level, or drop it
+// altogether, along with notes scheduled ahead, and fade to silence.
+class VoiceAmpEnvelope extends Tone.AmplitudeEnvelope {
+  retarget(level: number, time: number, timeConstant: number) {
+    this._sig.cancelAndHoldAtTime(time);
+    this._sig.setTargetAtTime(level, time, timeConstant);
+  }
+
+  silence(time: number, fadeTime: number) {
+    this._sig.cancelAndHoldAtTime(time);
+    this._sig.linearRampToValueAtTime(0, time + fadeTime);
+  }
 }
 
-export class WebAudioSynthesizer {
-  private voices: Map<number, VoiceNode> = new Map();
+class VoiceFilterEnvelope extends Tone.Envelope {
+  retarget(level: number, time: number, timeConstant: number) {
+    this._sig.cancelAndHoldAtTime(time);
+    this._sig.setTargetAtTime(level, time, timeConstant);
+  }
+
+  silence(time: number, fadeTime: number) {
+    this._sig.cancelAndHoldAtTime(time);
+    this._sig.linearRampToValueAtTime(0, time + fadeTime);
+  }
+}
+
+// Fixed settings for the delay on the shared effects bus
+const FX_DELAY_TIME = 0.3;
+const FX_DELAY_FEEDBACK = 0.3;
+const FX_DELAY_RETURN = 0.35;
+
+export class ToneSynthesizer implements SynthEngine {
+  // Preallocated voices, reused for every note instead of being rebuilt
+  private pool: VoiceNode[] = [];
+  // The context the engine was built in. Offline rendering only makes its context
+  // global for each call, so work that runs later must not rely on the global one.
+  private context = Tone.getContext();
+  private voices: Map<number, VoiceNode[]> = new Map(); // One voice per unison copy of each note
+  private voiceBus: Tone.Gain;
+  private driveShaper: Tone.WaveShaper;
+  private driveMakeup: Tone.Gain;
+  private crusher: AudioWorkletNode | null = null;
   private masterGain: Tone.Gain;
-  private params: SynthesizerParams;
+  private drums: DrumMachine;
+  private effectsMix: Tone.CrossFade;
+  private inserts: ToneInsertChain;
+  private effectsSend: Tone.Gain;
+  private reverb: Tone.Reverb;
+  private delay: Tone.FeedbackDelay;
+  private delayReturn: Tone.Gain;
+  private reverbUpdateTimeout: ReturnType<typeof setTimeout> | null = null;
+  private params: SynthesizerParams; // Modulated by the matrix
+  private baseParams: SynthesizerParams; // As last set through updateParams
+  private modSources = new ModulationSources();
   private activeNotes: Set<number> = new Set();
+  private monoVoices: VoiceNode[] = [];
+  private monoNoteStack: number[] = [];
+  private lastFrequency: number | null = null;
+  private accent = new AccentTracker();
+  private tempo = 120;
+  private sampleHoldBuffer: Tone.ToneAudioBuffer;
+  private wavetablePartials: number[];
+  private tuningTable: (number | null)[];
+  private sampleBuffer: AudioBuffer | null = null;
+  private workletsLoaded = false;
+  private workletsReady: Promise<void>;
+  private disposed = false;
+  private voiceSetupTime: number | null = null; // Start of the note a voice is being set up for
 
   constructor() {
     console.log('ToneSynthesizer constructor called');
-    this.masterGain = new Tone.Gain(0.35);  // Balanced level - not too hot to avoid noise
-    this.masterGain.toDestination();
-    console.log('Master gain connected to destination, Tone context state:', Tone.context.state);
-
-    this.params = {
-      oscillatorType: 'square',
-      frequency: 440,
-      volume: 0.3,
-      attack: 0.1,
-      decay: 0.2,
-      sustain: 0.5,
-      release: 0.3,
-      cutoff: 4000,
-      resonance: 1,
-      filterType: 'lowpass',
-      lfoRate: 5,
-      lfoAmount: 0,
-      detuneAmount: 0,
-      ringModAmount: 0,
-      wetness: 0.3,
-      coarseness: 0.5,
-    };
+    this.masterGain = new Tone.Gain(1); // Master volume; the patch level is set on the voice bus
+
+    this.params = { ...DEFAULT_SYNTH_PARAMS };
+    this.baseParams = this.params;
+    this.wavetablePartials = morphPartials(this.params.wavetable, this.params.wavetablePosition);
+    this.tuningTable = buildTuningTable(this.params.tuning);
+
+    // Coarseness stage: every voice passes through a shared drive and crusher
+    // on its way to masterGain. The crusher joins once its worklet has loaded.
+    // The bus gain sets the patch volume ahead of the drive.
+    this.voiceBus = new Tone.Gain(this.params.volume);
+    this.driveShaper = new Tone.WaveShaper(makeDriveCurve(this.params.driveCurve, this.params.coarseness));
+    this.driveShaper.oversample = '4x';
+    this.driveMakeup = new Tone.Gain(driveMakeupGain(this.params.coarseness));
+    this.voiceBus.chain(this.driveShaper, this.driveMakeup, this.masterGain);
+    this.workletsReady = this._loadWorklets();
+
+    // Drums skip the voice drive and join the voices at masterGain
+    this.drums = new DrumMachine(this.context.rawContext as BaseAudioContext);
+    Tone.connect(this.drums.output, this.masterGain);
+
+    // One buffer of random steps shared by every voice's sample-and-hold
+    const { context } = this;
+    const steps = context.createBuffer(1, sampleHoldLength(context.sampleRate), context.sampleRate);
+    fillSampleHoldSteps(steps.getChannelData(0), context.sampleRate);
+    this.sampleHoldBuffer = new Tone.ToneAudioBuffer(steps);
+
+    this._resizePool(clampPolyphony(this.params.maxPolyphony));
+
+    // Effects bus: masterGain feeds the dry side of the mix directly and the
+    // wet side through a send to a reverb and a delay in parallel
+    this.effectsMix = new Tone.CrossFade(this.params.wetness);
+    this.masterGain.connect(this.effectsMix.a);
+
+    // The master inserts process the whole mix, reverb and delay included, on its way out
+    this.inserts = new ToneInsertChain(this.params, this.tempo);
+    this.effectsMix.connect(this.inserts.input);
+    this.inserts.output.toDestination();
+
+    this.effectsSend = new Tone.Gain(1);
+    this.reverb = new Tone.Reverb({
+      decay: this.params.reverbDecay,
+      preDelay: this.params.reverbPreDelay,
+      wet: 1,
+    });
+    this.delay = new Tone.FeedbackDelay({
+      delayTime: FX_DELAY_TIME,
+      feedback: FX_DELAY_FEEDBACK,
+      wet: 1,
+    });
+    this.delayReturn = new Tone.Gain(FX_DELAY_RETURN);
+
+    this.masterGain.connect(this.effectsSend);
+    this.effectsSend.fan(this.reverb, this.delay);
+    this.reverb.connect(this.effectsMix.b);
+    this.delay.chain(this.delayReturn, this.effectsMix.b);
+  }
+
+  private _now(): number {
+    return this.context.now();
   }
 
   updateParams(params: Partial<SynthesizerParams>) {
-    this.params = { ...this.params, ...params };
-    
-    // Update all active voices with new parameters
-    this.voices.forEach((voice) => {
+    this.baseParams = { ...this.baseParams, ...params };
+    this._applyParams();
+  }
+
+  // Runs a note's start with the parameters modulated at the note's time
+  private _withParamsAt(time: number, run: () => void) {
+    if (!modMatrixActive(this.baseParams.modMatrix)) {
+      run();
+      return;
+    }
+    const current = this.params;
+    this.params = modulateParams(this.baseParams, this.modSources, time);
+    try {
+      run();
+    } finally {
+      this.params = current;
+    }
+  }
+
+  // Applies the parameters as set, plus the modulation matrix's current offsets
+  private _applyParams() {
+    const previous = this.params;
+    this.params = modulateParams(this.baseParams, this.modSources, this._now());
+
+    this.voiceBus.gain.rampTo(Math.max(0, this.params.volume), 0.05);
+    this._updateDriveParams(previous);
+    this._updateEffectsParams(previous);
+
+    // Leaving mono mode hands the keyboard back to the poly voices
+    if (previous.voiceMode === 'mono' && this.params.voiceMode !== 'mono') {
+      this._releaseMonoVoice();
+    }
+
+    if (
+      previous.wavetable !== this.params.wavetable ||
+      previous.wavetablePosition !== this.params.wavetablePosition
+    ) {
+      this.wavetablePartials = morphPartials(this.params.wavetable, this.params.wavetablePosition);
+    }
+
+    if (previous.tuning !== this.params.tuning) {
+      this.tuningTable = buildTuningTable(this.params.tuning);
+    }
+
+    if (previous.maxPolyphony !== this.params.maxPolyphony) {
+      this._resizePool(clampPolyphony(this.params.maxPolyphony));
+    }
+
+    // Only sounding voices follow the change; idle ones take the settings when they are next allocated.
+    // Under the matrix, voices waiting for a note scheduled ahead keep the settings of its time.
+    const modulating = modMatrixActive(this.baseParams.modMatrix);
+    const now = this._now();
+    this.pool.forEach((voice) => {
+      if (!this._isSounding(voice) || (modulating && voice.triggeredAt > now)) return;
       this._updateVoiceParams(voice);
+      this._updateHeldEnvelopes(voice, previous);
     });
   }
 
+  private async _loadWorklets() {
+    try {
+      const { context } = this;
+      await context.addAudioWorkletModule(getWorkletModuleUrl());
+      if (this.disposed) return;
+      this.workletsLoaded = true;
+
+      // Sounding voices gain their sync oscillator and ladder now if they need them
+      this.pool.forEach((voice) => {
+        if (this._isSounding(voice)) {
+          this._updateVoiceParams(voice);
+        }
+      });
+
+      const crusher = context.createAudioWorkletNode(CRUSHER_PROCESSOR);
+
+      // Splice the crusher in between the makeup gain and masterGain
+      this.driveMakeup.disconnect(this.masterGain);
+      Tone.connect(this.driveMakeup, crusher);
+      Tone.connect(crusher, this.masterGain);
+      this.crusher = crusher;
+      this._updateCrusherParams();
+    } catch (e) {
+      console.warn('Worklets unavailable, continuing without bit reduction, hard sync or the ladder filter:', e);
+    }
+  }
+
+  private _updateCrusherParams() {
+    if (!this.crusher) return;
+    const now = this.context.currentTime;
+    const bits = coarsenessToBits(this.params.coarseness, this.params.crushBits);
+    const downsample = coarsenessToDownsample(this.params.coarseness, this.params.crushRate);
+    this.crusher.parameters.get('bits')?.setValueAtTime(bits, now);
+    this.crusher.parameters.get('downsample')?.setValueAtTime(downsample, now);
+  }
+
+  private _updateDriveParams(previous: SynthesizerParams) {
+    if (
+      previous.coarseness !== this.params.coarseness ||
+      previous.driveCurve !== this.params.driveCurve
+    ) {
+      this.driveShaper.curve = makeDriveCurve(this.params.driveCurve, this.params.coarseness);
+      this.driveMakeup.gain.rampTo(driveMakeupGain(this.params.coarseness), 0.05);
+    }
+    this._updateCrusherParams();
+  }
+
+  private _updateEffectsParams(previous: SynthesizerParams) {
+    this.effectsMix.fade.rampTo(Math.max(0, Math.min(1, this.params.wetness)), 0.1);
+    this.inserts.update(this.params, this.tempo);
+
+    if (
+      previous.reverbDecay !== this.params.reverbDecay ||
+      previous.reverbPreDelay !== this.params.reverbPreDelay
+    ) {
+      // Regenerating the impulse response renders offline, so wait until the
+      // controls settle instead of rebuilding it on every slider movement
+      if (this.reverbUpdateTimeout) {
+        clearTimeout(this.reverbUpdateTimeout);
+      }
+      this.reverbUpdateTimeout = setTimeout(() => {
+        this.reverbUpdateTimeout = null;
+        this._updateReverb();
+      }, 150);
+    }
+  }
+
+  private _updateReverb() {
+    try {
+      this.reverb.decay = Math.max(0.1, this.params.reverbDecay);
+      this.reverb.preDelay = Math.max(0, this.params.reverbPreDelay);
+    } catch (e) {
+      console.warn('Failed to update reverb:', e);
+    }
+  }
+
+  // Square voices switch to a pulse oscillator while the LFO modulates pulse width
+  private _usesPulse(): boolean {
+    return this.params.oscillatorType === 'square' && this.params.lfoDestination === 'pulseWidth';
+  }
+
+  private _updateOscillatorShape(voice: VoiceNode) {
+    // The sample shape plays each note's sample source in place of osc1, and the two fade across
+    const sampled = this.params.oscillatorType === 'sample';
+    this._rampVoiceParam(voice.osc1Fader.gain, sampled ? 0 : 1, SHAPE_CROSSFADE_TIME);
+    this._rampVoiceParam(voice.sampleFader.gain, sampled ? 1 : 0, SHAPE_CROSSFADE_TIME);
+    if (sampled) return;
+
+    const wavetable = this.params.oscillatorType === 'wavetable';
+    const type = wavetable ? 'custom' : this._usesPulse() ? 'pulse' : this.params.oscillatorType;
+    if (voice.osc1.type !== type && voice.sourcesRunning && this._isSounding(voice)) {
+      // A sounding voice crossfades to a fresh oscillator rather than switching with a click
+      const { osc, fader } = this._crossfadeOscillator(voice.osc1, voice.osc1Fader, voice.pitch, voice, (next) => {
+        this._shapeOsc1(next);
+      });
+      Tone.connect(fader, voice.osc1Gain);
+      voice.osc1 = osc;
+      voice.osc1Fader = fader;
+      voice.partials = wavetable ? this.wavetablePartials : null;
+      voice.lfoRoute = null;
+      return;
+    }
+
+    if (wavetable) {
+      // New partials morph the running wave in place
+      if (voice.partials !== this.wavetablePartials) {
+        this._shapeOsc1(voice.osc1);
+        voice.partials = this.wavetablePartials;
+      }
+      return;
+    }
+    voice.partials = null;
+    if (voice.osc1.type !== type) {
+      this._shapeOsc1(voice.osc1);
+    }
+  }
+
+  // Gives an oscillator the main shape
+  private _shapeOsc1(osc: VoiceOscillator) {
+    if (this.params.oscillatorType === 'wavetable') {
+      // Setting partials switches the oscillator to a custom wave, which a pulse oscillator can't take
+      if (osc.type === 'pulse') {
+        osc.type = 'sine';
+      }
+      osc.partials = this.wavetablePartials;
+      return;
+    }
+    const type = this._usesPulse() ? 'pulse' : (this.params.oscillatorType as OscillatorShape);
+    osc.type = type;
+    if (type === 'pulse') {
+      // A width of 0 is a plain square; the LFO swings it either way
+      (osc.width as Tone.Signal<'audioRange'>).setValueAtTime(0, this._now());
+    }
+  }
+
+  // Whether a voice is playing a note or still fading out
+  private _isSounding(voice: VoiceNode): boolean {
+    return voice.note !== null || voice.ampEnv.getValueAtTime(this._now()) > 0.001;
+  }
+
+  // Glides a voice setting to a new value, or sets it at the note's start while the voice is set up for a new note
+  private _rampVoiceParam(param: RampedParam, value: number, rampTime: number) {
+    if (this.voiceSetupTime === null) {
+      param.rampTo(value, rampTime);
+    } else {
+      param.cancelAndHoldAtTime(this.voiceSetupTime);
+      param.setValueAtTime(value, this.voiceSetupTime);
+    }
+  }
+
+  // Gives a voice taking a new note the current settings from the note's start, rather than
+  // gliding from the ones it last played with
+  private _setUpVoice(voice: VoiceNode, start: number) {
+    this.voiceSetupTime = start;
+    try {
+      this._updateVoiceParams(voice);
+    } finally {
+      this.voiceSetupTime = null;
+    }
+  }
+
+  private _startSources(voice: VoiceNode, time: number) {
+    voice.osc1.start(time);
+    voice.osc2.start(time);
+    voice.sub.start(time);
+    voice.noise.start(time);
+    voice.ringModOsc.start(time);
+    voice.lfo.start(time);
+    voice.sampleHold.start(time, Math.random() * this.sampleHoldBuffer.duration);
+    voice.sourcesRunning = true;
+  }
+
+  // Stops a released voice's sources once it has faded out, unless it has played again by then
+  private _stopSourcesWhenIdle(voice: VoiceNode, idleAt: number) {
+    const { triggeredAt, releasedAt } = voice;
+    const { context } = this;
+    context.setTimeout(() => {
+      if (
+        !voice.sourcesRunning ||
+        voice.triggeredAt !== triggeredAt ||
+        voice.releasedAt !== releasedAt ||
+        !this.pool.includes(voice)
+      ) {
+        return;
+      }
+      const now = context.currentTime;
+      voice.osc1.stop(now);
+      voice.osc2.stop(now);
+      voice.sub.stop(now);
+      voice.noise.stop(now);
+      voice.ringModOsc.stop(now);
+      voice.lfo.stop(now);
+      voice.sampleHold.stop(now);
+      voice.sourcesRunning = false;
+    }, Math.max(0, idleAt - context.currentTime));
+  }
+
+  // Starts a new oscillator following the voice's pitch and fades it in over the old one,
+  // which is freed once it has faded out. The caller connects the returned fader onwards.
+  private _crossfadeOscillator(
+    old: VoiceOscillator,
+    oldFader: Tone.Gain,
+    frequency: Tone.ToneAudioNode,
+    voice: VoiceNode,
+    shape: (osc: VoiceOscillator) => void
+  ): { osc: VoiceOscillator; fader: Tone.Gain } {
+    const now = this._now();
+    const osc = new Tone.OmniOscillator({ context: this.context });
+    shape(osc);
+    const fader = new Tone.Gain({ gain: 0, context: this.context });
+    frequency.connect(osc.frequency);
+    voice.detune.connect(osc.detune);
+    osc.connect(fader);
+    osc.start(now);
+    fader.gain.linearRampToValueAtTime(1, now + SHAPE_CROSSFADE_TIME);
+
+    oldFader.gain.cancelAndHoldAtTime(now);
+    oldFader.gain.linearRampToValueAtTime(0, now + SHAPE_CROSSFADE_TIME);
+    old.stop(now + SHAPE_CROSSFADE_TIME);
+    setTimeout(() => {
+      try {
+        old.dispose();
+        oldFader.dispose();
+      } catch (e) {
+        // Already disposed
+      }
+    }, (SHAPE_CROSSFADE_TIME + 0.1) * 1000);
+    return { osc, fader };
+  }
+
+  // Peak of the amp envelope for the voice's note
+  private _voicePeak(voice: VoiceNode): number {
+    return voice.velocity * (1 + voice.accentLevel * 0.5);
+  }
+
+  // Accented notes play with extra resonance
+  private _voiceResonance(voice: VoiceNode): number {
+    return this.params.resonance * (1 + voice.accentLevel * 0.5);
+  }
+
+  // Moves a held note to changed envelope levels; released notes finish the release they started
+  private _updateHeldEnvelopes(voice: VoiceNode, previous: SynthesizerParams) {
+    const now = this._now();
+    // Notes scheduled ahead keep the envelope they were given
+    if (voice.note === null || voice.releasedAt >= voice.triggeredAt || voice.triggeredAt > now) return;
+    const elapsed = now - voice.triggeredAt;
+
+    if (
+      previous.attack !== this.params.attack ||
+      previous.decay !== this.params.decay ||
+      previous.sustain !== this.params.sustain
+    ) {
+      const { delay, timeConstant } = sustainRetarget(this.params, elapsed);
+      voice.ampEnv.retarget(this._voicePeak(voice) * this.params.sustain, now + delay, timeConstant);
+    }
+    if (
+      previous.filterAttack !== this.params.filterAttack ||
+      previous.filterDecay !== this.params.filterDecay ||
+      previous.filterSustain !== this.params.filterSustain
+    ) {
+      const { delay, timeConstant } = sustainRetarget(
+        { attack: this.params.filterAttack, decay: this.params.filterDecay },
+        elapsed
+      );
+      voice.filterEnv.retarget(this.params.filterSustain, now + delay, timeConstant);
+    }
+  }
+
   private _updateVoiceParams(voice: VoiceNode) {
+    // Update oscillator shape and amp envelope
+    this._updateOscillatorShape(voice);
+    this._updateMixer(voice);
+    voice.sampleRatio.factor.value = samplePitchScale(this.params.sample);
+    if (voice.sample) {
+      applySampleLoop(voice.sample, this.params.sample);
+    }
+    voice.ampEnv.set({
+      attack: Math.max(0.001, this.params.attack),
+      decay: Math.max(0.001, this.params.decay),
+      sustain: this.params.sustain,
+      release: Math.max(0.001, this.params.release),
+    });
+
     // Update filter
-    voice.filter.frequency.rampTo(this.params.cutoff, 0.1);
-    voice.filter.Q.rampTo(this.params.resonance, 0.1);
-    voice.filter.type = this.params.filterType;
+    this._rampVoiceParam(voice.filter.frequency, this.params.cutoff, 0.1);
+    this._rampVoiceParam(voice.filter.Q, this._voiceResonance(voice), 0.1);
+    voice.filter.type = this._biquadType();
+    this._updateFilterRouting(voice);
 
-    // Update LFO frequency
-    voice.lfo.frequency.rampTo(this.params.lfoRate, 0.1);
+    // Update filter envelope shape and depth
+    voice.filterEnv.set({
+      attack: Math.max(0.001, this.params.filterAttack),
+      decay: Math.max(0.001, this.params.filterDecay),
+      sustain: this.params.filterSustain,
+      release: Math.max(0.001, this.params.filterRelease),
+    });
+    this._rampVoiceParam(voice.filterEnvDepth.gain, filterEnvDepthCents(this.params, voice.velocity, voice.accentLevel), 0.1);
+    this._rampVoiceParam(voice.filter.detune, keyTrackCents(this.params, voice.frequency), 0.1);
+
+    this._updateLfo(voice);
+
+    // Update detune and ring modulation
+    this._rampVoiceParam(voice.detune, this._voiceDetune(voice), 0.1);
+    this._applyRingMod(voice);
   }
 
-  noteOn(noteNumber: number, _velocity: number = 1, _slideTime: number = 0) {
-    if (this.activeNotes.has(noteNumber)) {
-      this.noteOff(noteNumber);
+  // Sets the second oscillator, sub and noise sources and the mixer levels
+  private _updateMixer(voice: VoiceNode) {
+    const { osc2Type, osc2Level, osc2Sync, noiseType } = this.params;
+    if (voice.osc2.type !== osc2Type) {
+      if (voice.sourcesRunning && this._isSounding(voice)) {
+        const { osc, fader } = this._crossfadeOscillator(voice.osc2, voice.osc2Fader, voice.osc2Ratio, voice, (next) => {
+          next.type = osc2Type;
+        });
+        Tone.connect(fader, voice.osc2Gain);
+        voice.osc2 = osc;
+        voice.osc2Fader = fader;
+      } else {
+        voice.osc2.type = osc2Type;
+      }
+    }
+    if (voice.noise.type !== noiseType) {
+      voice.noise.type = noiseType;
+    }
+    const ratio = osc2Ratio(this.params);
+    this._rampVoiceParam(voice.osc2Ratio.factor, ratio, 0.05);
+    this._rampVoiceParam(voice.subRatio.factor, subRatio(this.params), 0.05);
+
+    // While synced the worklet oscillator stands in for the free-running one
+    if (osc2Sync && this.workletsLoaded) {
+      this._attachSyncOscillator(voice);
+    }
+    const synced = osc2Sync && voice.syncOsc !== null;
+    if (voice.syncOsc) {
+      const now = this._now();
+      voice.syncOsc.parameters.get('ratio')?.setTargetAtTime(ratio, now, 0.015);
+      voice.syncOsc.parameters.get('shape')?.setValueAtTime(syncShapeIndex(osc2Type), now);
     }
 
-    const frequency = this.midiNoteToFrequency(noteNumber);
-    console.log('noteOn:', { noteNumber, frequency, oscType: this.params.oscillatorType });
+    this._rampVoiceParam(voice.osc1Gain.gain, this.params.osc1Level, 0.05);
+    this._rampVoiceParam(voice.osc2Gain.gain, synced ? 0 : osc2Level, 0.05);
+    this._rampVoiceParam(voice.syncGain.gain, synced ? osc2Level : 0, 0.05);
+    this._rampVoiceParam(voice.subGain.gain, this.params.subLevel, 0.05);
+    this._rampVoiceParam(voice.noiseGain.gain, this.params.noiseLevel, 0.05);
+  }
 
+  // Hard sync needs sample-accurate phase resets, which only the worklet can do
+  private _attachSyncOscillator(voice: VoiceNode) {
+    if (voice.syncOsc) return;
     try {
-      // Create a new synth for this voice with proper envelope
-      const synth = new Tone.Synth({
-        oscillator: { type: this.params.oscillatorType },
-        envelope: {
-          attack: this.params.attack,
-          decay: this.params.decay,
-          sustain: this.params.sustain,
-          release: this.params.release,
-        },
+      const syncOsc = this.context.createAudioWorkletNode(SYNC_OSCILLATOR_PROCESSOR, {
+        outputChannelCount: [1],
       });
+      voice.pitch.connect(syncOsc.parameters.get('frequency')!);
+      voice.detune.connect(syncOsc.parameters.get('detune')!);
+      Tone.connect(syncOsc, voice.syncGain);
+      voice.syncOsc = syncOsc;
+    } catch (e) {
+      console.warn('Failed to create sync oscillator:', e);
+    }
+  }
 
-      // Create filter and connect synth to it
-      const filter = new Tone.Filter({
-        frequency: this.params.cutoff,
-        type: this.params.filterType,
-        Q: this.params.resonance,
+  // Biquad response for the filter type; the ladder falls back to a plain lowpass
+  private _biquadType(): BiquadFilterType {
+    return this.params.filterType === 'ladder' ? 'lowpass' : this.params.filterType;
+  }
+
+  // The ladder follows the biquad's cutoff, detune and Q signals, so the
+  // envelope, key tracking, accent and LFO drive it without extra wiring
+  private _attachLadder(voice: VoiceNode) {
+    if (voice.ladder) return;
+    try {
+      const ladder = this.context.createAudioWorkletNode(LADDER_FILTER_PROCESSOR, {
+        channelCount: 1,
+        channelCountMode: 'explicit',
+        outputChannelCount: [1],
       });
+      voice.filter.frequency.connect(ladder.parameters.get('cutoff')!);
+      voice.filter.detune.connect(ladder.parameters.get('detune')!);
+      voice.filter.Q.connect(ladder.parameters.get('resonance')!);
+      Tone.connect(ladder, voice.ampEnv);
+      voice.ladder = ladder;
+    } catch (e) {
+      console.warn('Failed to create ladder filter:', e);
+    }
+  }
 
-      // Connect synth -> filter -> masterGain
-      synth.connect(filter);
-      filter.connect(this.masterGain);
-
-      // Create LFO and connect to synth frequency only if LFO amount > 0
-      let lfo: Tone.LFO | null = null;
-      if (this.params.lfoAmount > 0) {
-        lfo = new Tone.LFO({
-          frequency: this.params.lfoRate,
-          min: frequency * 0.95,
-          max: frequency * 1.05,
-        });
-        lfo.connect(synth.frequency);
-        lfo.start();
+  private _updateFilterRouting(voice: VoiceNode) {
+    if (this.params.filterType === 'ladder' && this.workletsLoaded) {
+      this._attachLadder(voice);
+    }
+    const ladderActive = this.params.filterType === 'ladder' && voice.ladder !== null;
+    if (voice.ladderActive !== ladderActive) {
+      voice.ringModVCA.disconnect();
+      voice.ringModVCA.connect(ladderActive ? voice.ladder! : voice.filter);
+      voice.ladderActive = ladderActive;
+    }
+  }
+
+  private _pulseWidth(voice: VoiceNode): Tone.Signal<'audioRange'> | undefined {
+    return voice.osc1.type === 'pulse'
+      ? (voice.osc1.width as Tone.Signal<'audioRange'>)
+      : undefined;
+  }
+
+  private _lfoTarget(voice: VoiceNode): Tone.InputNode | undefined {
+    switch (this.params.lfoDestination) {
+      case 'pitch':
+        return voice.detune;
+      case 'cutoff':
+        return voice.filter.detune;
+      case 'amplitude':
+        return voice.tremolo.gain;
+      case 'pan':
+        return voice.panner.pan;
+      case 'pulseWidth':
+        return this._pulseWidth(voice);
+    }
+  }
+
+  private _updateLfo(voice: VoiceNode) {
+    const { lfoWaveform, lfoDestination, lfoAmount } = this.params;
+    const rate = lfoRateHz(this.params, this.tempo);
+    const sampleHold = lfoWaveform === 'sampleHold';
+
+    // Only one of the LFO and the sample-and-hold player is heard
+    if (!sampleHold) {
+      voice.lfo.type = lfoWaveform;
+    }
+    this._rampVoiceParam(voice.lfo.amplitude, sampleHold ? 0 : 1, 0.05);
+    voice.sampleHold.mute = !sampleHold;
+    this._rampVoiceParam(voice.lfo.frequency, rate, 0.1);
+    voice.sampleHold.playbackRate = rate / SAMPLE_HOLD_BASE_RATE;
+
+    // Reconnect the depth gain when the destination changes; it is a gain
+    // rather than a direct connection so it adds to the target instead of overriding it
+    const route = `${lfoDestination}:${voice.osc1.type}`;
+    if (voice.lfoRoute !== route) {
+      voice.lfoDepth.disconnect();
+      const target = this._lfoTarget(voice);
+      if (target) {
+        voice.lfoDepth.connect(target);
       }
+      voice.lfoRoute = route;
+    }
+    this._rampVoiceParam(voice.lfoDepth.gain, lfoDepthFor(lfoDestination, lfoAmount), 0.1);
+    this._rampVoiceParam(voice.tremolo.gain, tremoloBaseGain(lfoDestination, lfoAmount), 0.1);
+    // The pan LFO swings around the copy's place in the unison spread
+    this._rampVoiceParam(voice.panner.pan, unisonPan(this.params, voice.unisonPosition), 0.1);
+  }
+
+  private _voiceDetune(voice: VoiceNode): number {
+    return this.params.detuneAmount + unisonDetuneCents(this.params, voice.unisonPosition);
+  }
+
+  private _ringModFrequency(noteFrequency: number): number {
+    return this.params.ringModMode === 'fixed'
+      ? this.params.ringModFrequency
+      : noteFrequency * this.params.ringModRatio;
+  }
+
+  private _applyRingMod(voice: VoiceNode) {
+    // The VCA passes (1 - amount) of the dry signal and the modulator adds
+    // amount * sine, so 0 is clean, in between is AM and 1 is pure ring mod
+    const amount = Math.max(0, Math.min(1, this.params.ringModAmount));
+    this._rampVoiceParam(voice.ringModVCA.gain, 1 - amount, 0.05);
+    this._rampVoiceParam(voice.ringModDepth.gain, amount, 0.05);
+    this._rampVoiceParam(voice.ringModOsc.frequency, this._ringModFrequency(voice.frequency), 0.05);
+  }
+
+  private _disposeVoice(voice: VoiceNode) {
+    try {
+      voice.syncOsc?.disconnect();
+      this._stopSample(voice, 0);
+      voice.pitch.dispose();
+      voice.detune.dispose();
+      voice.osc1.dispose();
+      voice.osc1Fader.dispose();
+      voice.sampleRatio.dispose();
+      voice.sampleFader.dispose();
+      voice.osc2.dispose();
+      voice.osc2Fader.dispose();
+      voice.osc2Ratio.dispose();
+      voice.sub.dispose();
+      voice.subRatio.dispose();
+      voice.noise.dispose();
+      voice.osc1Gain.dispose();
+      voice.osc2Gain.dispose();
+      voice.syncGain.dispose();
+      voice.subGain.dispose();
+      voice.noiseGain.dispose();
+      voice.phaseDelay.dispose();
+      voice.ampEnv.dispose();
+      voice.ringModOsc.dispose();
+      voice.ringModDepth.dispose();
+      voice.ringModVCA.dispose();
+      voice.filter.dispose();
+      voice.ladder?.disconnect();
+      voice.filterEnv.dispose();
+      voice.filterEnvDepth.dispose();
+      voice.lfo.dispose();
+      voice.sampleHold.dispose();
+      voice.lfoDepth.dispose();
+      voice.tremolo.dispose();
+      voice.panner.dispose();
+      voice.output.dispose();
+    } catch (e) {
+      // Already disposed
+    }
+  }
+
+  private _nextAccentLevel(accent: boolean, now: number): number {
+    return this.accent.next(accent, now, this.params.accentAmount);
+  }
+
+  private _createVoice(frequency: number): VoiceNode {
+    // Every oscillator follows the shared pitch and detune signals, so glides
+    // and the pitch LFO move them together
+    const pitch = new Tone.Signal({ value: frequency, units: 'frequency' });
+    const detune = new Tone.Signal({ value: this.params.detuneAmount, units: 'cents' });
+
+    const osc1 = new Tone.OmniOscillator();
+    const osc2 = new Tone.OmniOscillator({ type: this.params.osc2Type });
+    const osc2RatioNode = new Tone.Multiply(osc2Ratio(this.params));
+    const sub = new Tone.Oscillator({ type: 'square' });
+    const subRatioNode = new Tone.Multiply(subRatio(this.params));
+    const noise = new Tone.Noise(this.params.noiseType);
+
+    const sampleRatio = new Tone.Multiply(samplePitchScale(this.params.sample));
+    pitch.connect(osc1.frequency);
+    pitch.connect(sampleRatio);
+    pitch.chain(osc2RatioNode, osc2.frequency);
+    pitch.chain(subRatioNode, sub.frequency);
+    detune.fan(osc1.detune, osc2.detune, sub.detune);
+
+    // Mixer: each source has its own level into the ring mod VCA
+    const sampled = this.params.oscillatorType === 'sample';
+    const osc1Gain = new Tone.Gain(this.params.osc1Level);
+    const osc1Fader = new Tone.Gain(sampled ? 0 : 1);
+    const sampleFader = new Tone.Gain(sampled ? 1 : 0);
+    const osc2Gain = new Tone.Gain(0);
+    const osc2Fader = new Tone.Gain(1);
+    const syncGain = new Tone.Gain(0);
+    const subGain = new Tone.Gain(this.params.subLevel);
+    const noiseGain = new Tone.Gain(this.params.noiseLevel);
+    osc1.chain(osc1Fader, osc1Gain);
+    sampleFader.connect(osc1Gain);
+    osc2.chain(osc2Fader, osc2Gain);
+    sub.connect(subGain);
+    noise.connect(noiseGain);
+
+    const ampEnv = new VoiceAmpEnvelope({
+      attack: Math.max(0.001, this.params.attack),
+      decay: Math.max(0.001, this.params.decay),
+      sustain: this.params.sustain,
+      release: Math.max(0.001, this.params.release),
+    });
+
+    // Ring modulator: a sine modulator drives the gain of a VCA after the mixer
+    const ringModAmount = Math.max(0, Math.min(1, this.params.ringModAmount));
+    const ringModVCA = new Tone.Gain(1 - ringModAmount);
+    const ringModDepth = new Tone.Gain(ringModAmount);
+    const ringModOsc = new Tone.Oscillator({
+      type: 'sine',
+      frequency: this._ringModFrequency(frequency),
+    });
+    ringModOsc.connect(ringModDepth);
+    ringModDepth.connect(ringModVCA.gain);
+
+    // Create filter
+    const filter = new Tone.Filter({
+      frequency: this.params.cutoff,
+      type: this._biquadType(),
+      Q: this.params.resonance,
+    });
+
+    filter.detune.value = keyTrackCents(this.params, frequency);
+
+    // Filter envelope: a 0-1 envelope scaled to cents and added to the filter detune
+    const filterEnv = new VoiceFilterEnvelope({
+      attack: Math.max(0.001, this.params.filterAttack),
+      decay: Math.max(0.001, this.params.filterDecay),
+      sustain: this.params.filterSustain,
+      release: Math.max(0.001, this.params.filterRelease),
+    });
+    const filterEnvDepth = new Tone.Gain(0);
+    filterEnv.connect(filterEnvDepth);
+    filterEnvDepth.connect(filter.detune);
+
+    // Connect mixer -> phase delay -> ring mod VCA -> filter -> amp envelope -> tremolo -> output fader -> panner -> voice bus (drive) -> masterGain
+    const phaseDelay = new Tone.Delay(0, MAX_PHASE_DELAY);
+    const tremolo = new Tone.Gain(1);
+    const output = new Tone.Gain(1);
+    const panner = new Tone.Panner(0);
+    [osc1Gain, osc2Gain, syncGain, subGain, noiseGain].forEach((gain) => gain.connect(phaseDelay));
+    phaseDelay.connect(ringModVCA);
+    ringModVCA.chain(filter, ampEnv, tremolo, output, panner, this.voiceBus);
+
+    // LFO and sample-and-hold both feed the depth gain, which _updateLfo
+    // connects to the chosen destination
+    const lfo = new Tone.LFO({ min: -1, max: 1 });
+    const sampleHold = new Tone.Player({ url: this.sampleHoldBuffer, loop: true });
+    const lfoDepth = new Tone.Gain(0);
+    lfo.connect(lfoDepth);
+    sampleHold.connect(lfoDepth);
+
+    const voice: VoiceNode = {
+      pitch,
+      detune,
+      osc1,
+      osc1Fader,
+      partials: null,
+      sampleRatio,
+      sample: null,
+      sampleFader,
+      osc2,
+      osc2Fader,
+      osc2Ratio: osc2RatioNode,
+      syncOsc: null,
+      sub,
+      subRatio: subRatioNode,
+      noise,
+      osc1Gain,
+      osc2Gain,
+      syncGain,
+      subGain,
+      noiseGain,
+      phaseDelay,
+      ampEnv,
+      ringModVCA,
+      ringModDepth,
+      ringModOsc,
+      filter,
+      ladder: null,
+      ladderActive: false,
+      filterEnv,
+      filterEnvDepth,
+      lfo,
+      sampleHold,
+      lfoDepth,
+      lfoRoute: null,
+      tremolo,
+      panner,
+      output,
+      frequency,
+      unisonPosition: 0,
+      velocity: 1,
+      accentLevel: 0,
+      note: null,
+      startedAt: 0,
+      triggeredAt: 0,
+      releasedAt: -Infinity,
+      sourcesRunning: false,
+    };
+    this._updateOscillatorShape(voice);
+    this._updateMixer(voice);
+    this._updateFilterRouting(voice);
+    this._updateLfo(voice);
+    return voice;
+  }
+
+  // Grows or shrinks the pool to the polyphony limit
+  private _resizePool(size: number) {
+    while (this.pool.length < size) {
+      this.pool.push(this._createVoice(this.params.frequency));
+    }
+
+    const now = this._now();
+    while (this.pool.length > size) {
+      const voice = this._pickVoice();
+      this.pool = this.pool.filter((pooled) => pooled !== voice);
+      this._detachVoice(voice);
+      voice.output.gain.cancelScheduledValues(now);
+      voice.output.gain.rampTo(0, STEAL_FADE_TIME, now);
+      setTimeout(() => {
+        this._disposeVoice(voice);
+      }, 100);
+    }
+  }
+
+  // The free voice that was released longest ago, or a sounding voice to steal.
+  // Voices already taken for the note being allocated are skipped.
+  private _pickVoice(taken: VoiceNode[] = []): VoiceNode {
+    const candidates = this.pool.filter((voice) => !taken.includes(voice));
+    const free = candidates.filter((voice) => voice.note === null);
+    if (free.length > 0) {
+      return free.reduce((oldest, voice) => (voice.releasedAt < oldest.releasedAt ? voice : oldest));
+    }
+    const now = this._now();
+    return pickVoiceToSteal(candidates, this.params.voiceStealing, (voice) => voice.ampEnv.getValueAtTime(now))!;
+  }
+
+  // Forgets which note a voice was playing; a note whose last copy goes is no longer active
+  private _detachVoice(voice: VoiceNode) {
+    if (this.monoVoices.includes(voice)) {
+      this.monoVoices = this.monoVoices.filter((other) => other !== voice);
+      if (this.monoVoices.length === 0) {
+        this.monoNoteStack.forEach((note) => this.activeNotes.delete(note));
+        this.monoNoteStack = [];
+      }
+    } else if (voice.note !== null) {
+      const copies = this.voices.get(voice.note);
+      if (copies?.includes(voice)) {
+        const remaining = copies.filter((other) => other !== voice);
+        if (remaining.length > 0) {
+          this.voices.set(voice.note, remaining);
+        } else {
+          this.voices.delete(voice.note);
+          this.activeNotes.delete(voice.note);
+        }
+      }
+    }
+    voice.note = null;
+  }
+
+  // Takes one voice per unison copy for a new note and returns them with the time the
+  // note can start. Voices that are still audible are faded out first so the retrigger doesn't click.
+  private _allocateVoices(noteNumber: number, frequency: number, now: number): { voices: VoiceNode[]; start: number } {
+    const count = unisonCount(this.params);
+    const voices: VoiceNode[] = [];
+    let audible = false;
+    while (voices.length < count) {
+      const voice = this._pickVoice(voices);
+      audible = audible || voice.ampEnv.getValueAtTime(now) > 0.001;
+      this._detachVoice(voice);
+      voices.push(voice);
+    }
+
+    const start = audible ? now + STEAL_FADE_TIME : now;
+    const positions = unisonPositions(count);
+    voices.forEach((voice, i) => {
+      // Each copy gets its own detune, stereo position and start phase
+      voice.unisonPosition = positions[i];
+      this._setUpVoice(voice, start);
 
-      // Set frequency
-      synth.frequency.value = frequency;
-      
-      // Trigger attack - note will sustain until noteOff is called
-      synth.triggerAttack(Tone.now());
-      console.log('Note triggered with attack');
+      voice.output.gain.cancelScheduledValues(now);
+      if (audible) {
+        voice.output.gain.rampTo(0, STEAL_FADE_TIME, now);
+      }
+      voice.output.gain.setValueAtTime(unisonGain(count), start);
+
+      voice.detune.cancelScheduledValues(now);
+      voice.detune.setValueAtTime(this._voiceDetune(voice), start);
+      voice.panner.pan.cancelScheduledValues(now);
+      voice.panner.pan.setValueAtTime(unisonPan(this.params, voice.unisonPosition), start);
+      voice.phaseDelay.delayTime.setValueAtTime(unisonPhaseDelay(count, frequency), start);
+
+      voice.note = noteNumber;
+      voice.startedAt = start;
+    });
+    return { voices, start };
+  }
 
-      this.voices.set(noteNumber, { synth, filter, lfo: lfo || new Tone.LFO() });
+  // Starts the amp and filter envelopes for a voice
+  private _triggerVoice(voice: VoiceNode, velocity: number, accentLevel: number, now: number) {
+    voice.velocity = velocity;
+    voice.accentLevel = accentLevel;
+    voice.triggeredAt = now;
+    voice.filter.Q.setValueAtTime(this._voiceResonance(voice), now);
+
+    // Velocity and accent scale how far the filter envelope sweeps
+    voice.filterEnvDepth.gain.setValueAtTime(filterEnvDepthCents(this.params, velocity, accentLevel), now);
+    voice.filterEnv.triggerAttack(now);
+
+    if (!voice.sourcesRunning) {
+      // An idle voice starts its sources, and with them a fresh LFO cycle
+      this._startSources(voice, now);
+    } else if (this.params.lfoRetrigger) {
+      // Start the LFO cycle from the top, or jump to a new random step
+      voice.lfo.stop(now).start(now);
+      voice.sampleHold.restart(now, Math.random() * this.sampleHoldBuffer.duration);
+    }
+
+    // Trigger attack - note will sustain until noteOff is called
+    voice.ampEnv.triggerAttack(now, this._voicePeak(voice));
+    this._startSample(voice, now);
+  }
+
+  private _releaseVoice(voice: VoiceNode, now: number) {
+    voice.ampEnv.triggerRelease(now);
+    voice.filterEnv.triggerRelease(now);
+    voice.releasedAt = now;
+    // A looping sample and the voice's sources stop once the release has faded out
+    const idleAt = now + Math.max(0.001, this.params.release) + 0.05;
+    this._stopSample(voice, idleAt, false);
+    this._stopSourcesWhenIdle(voice, idleAt);
+  }
+
+  // Plays the sample from its start offset for a new note, cutting off the previous one
+  private _startSample(voice: VoiceNode, now: number) {
+    this._stopSample(voice, now);
+    if (this.params.oscillatorType !== 'sample' || !this.sampleBuffer) return;
+
+    const { source, offset } = createSampleSource(
+      this.context.rawContext as BaseAudioContext,
+      this.sampleBuffer,
+      this.params.sample
+    );
+    const { sampleRatio, detune } = voice;
+    Tone.connect(sampleRatio, source.playbackRate);
+    Tone.connect(detune, source.detune);
+    Tone.connect(source, voice.sampleFader);
+    source.onended = () => {
+      source.disconnect();
+      try {
+        sampleRatio.disconnect(source.playbackRate);
+        detune.disconnect(source.detune);
+      } catch (e) {
+        // The voice was disposed first
+      }
+      if (voice.sample === source) {
+        voice.sample = null;
+      }
+    };
+    source.start(now, offset);
+    voice.sample = source;
+  }
+
+  // Schedules the sample to stop. A released voice keeps hold of it so that a
+  // new note can still cut it short.
+  private _stopSample(voice: VoiceNode, when: number, forget: boolean = true) {
+    if (!voice.sample) return;
+    try {
+      voice.sample.stop(when);
+    } catch (e) {
+      // Already stopped
+    }
+    if (forget) {
+      voice.sample = null;
+    }
+  }
+
+  // Moves a sounding voice to a new pitch without touching its envelopes
+  private _glideVoice(voice: VoiceNode, frequency: number, glideTime: number, now: number, from?: number) {
+    voice.pitch.cancelScheduledValues(now);
+    if (from !== undefined) {
+      voice.pitch.setValueAtTime(from, now);
+    }
+    if (glideTime > 0) {
+      voice.pitch.exponentialRampTo(frequency, glideTime, now);
+    } else {
+      voice.pitch.setValueAtTime(frequency, now);
+    }
+    voice.frequency = frequency;
+    voice.filter.detune.rampTo(keyTrackCents(this.params, frequency), Math.max(0.01, glideTime), now);
+    if (this.params.ringModMode === 'track') {
+      voice.ringModOsc.frequency.rampTo(this._ringModFrequency(frequency), Math.max(0.01, glideTime), now);
+    }
+  }
+
+  noteOn(noteNumber: number, velocity: number = 1, slideTime: number = 0, accent: boolean = false, time?: number) {
+    // Keys the tuning's keyboard mapping leaves out stay silent
+    if (this.tuningTable[noteNumber] === null) return;
+    const now = time ?? this._now();
+
+    if (this.params.voiceMode !== 'mono' && this.activeNotes.has(noteNumber)) {
+      this.noteOff(noteNumber, now);
+    }
+
+    // The note starts from the settings modulated at its own time, which may be ahead
+    // of the clock; voices already sounding follow once the control updates reach it
+    this.modSources.noteOn(noteNumber, velocity, now);
+    this._withParamsAt(now, () => {
+      if (this.params.voiceMode === 'mono') {
+        this._monoNoteOn(noteNumber, velocity, slideTime, accent, now);
+      } else {
+        this._polyNoteOn(noteNumber, velocity, slideTime, accent, now);
+      }
+    });
+  }
+
+  private _polyNoteOn(noteNumber: number, velocity: number, slideTime: number, accent: boolean, now: number) {
+    const frequency = this.midiNoteToFrequency(noteNumber);
+    const accentLevel = this._nextAccentLevel(accent, now);
+
+    try {
+      const { voices, start } = this._allocateVoices(noteNumber, frequency, now);
+
+      // Poly slides start the voices at the previous pitch and bend them in
+      const slideFrom = slideTime > 0 ? this.lastFrequency : null;
+      voices.forEach((voice) => {
+        if (slideFrom !== null) {
+          this._glideVoice(voice, frequency, slideTime, start, slideFrom);
+        } else {
+          this._glideVoice(voice, frequency, 0, start);
+        }
+        this._triggerVoice(voice, velocity, accentLevel, start);
+      });
+
+      this.voices.set(noteNumber, voices);
       this.activeNotes.add(noteNumber);
+      this.lastFrequency = frequency;
     } catch (e) {
       console.error('Error in noteOn:', e);
     }
   }
 
-  noteOff(noteNumber: number) {
-    const voice = this.voices.get(noteNumber);
-    if (voice) {
+  private _monoNoteOn(noteNumber: number, velocity: number, slideTime: number, accent: boolean, now: number) {
+    const frequency = this.midiNoteToFrequency(noteNumber);
+    const gateOpen = this.monoNoteStack.length > 0;
+
+    // Last-note priority: the newest note goes to the top of the stack
+    this.monoNoteStack = this.monoNoteStack.filter((note) => note !== noteNumber);
+    this.monoNoteStack.push(noteNumber);
+    this.activeNotes.add(noteNumber);
+    this.lastFrequency = frequency;
+
+    try {
+      if (this.monoVoices.length > 0 && gateOpen && slideTime > 0) {
+        // Slide: glide the running oscillators without retriggering anything
+        this.monoVoices.forEach((voice) => this._glideVoice(voice, frequency, slideTime, now));
+        return;
+      }
+
+      const accentLevel = this._nextAccentLevel(accent, now);
+      let start = now;
+      if (this.monoVoices.length === 0) {
+        const allocated = this._allocateVoices(noteNumber, frequency, now);
+        this.monoVoices = allocated.voices;
+        start = allocated.start;
+      }
+      this.monoVoices.forEach((voice) => {
+        voice.note = noteNumber;
+        this._glideVoice(voice, frequency, 0, start);
+        this._triggerVoice(voice, velocity, accentLevel, start);
+      });
+    } catch (e) {
+      console.error('Error in mono noteOn:', e);
+    }
+  }
+
+  private _monoNoteOff(noteNumber: number, now: number) {
+    const wasTop = this.monoNoteStack[this.monoNoteStack.length - 1] === noteNumber;
+    this.monoNoteStack = this.monoNoteStack.filter((note) => note !== noteNumber);
+    this.activeNotes.delete(noteNumber);
+
+    if (this.monoVoices.length === 0 || !wasTop) return;
+
+    if (this.monoNoteStack.length > 0) {
+      // Fall back to the most recent note still held, legato
+      const previous = this.monoNoteStack[this.monoNoteStack.length - 1];
+      const frequency = this.midiNoteToFrequency(previous);
+      this.monoVoices.forEach((voice) => this._glideVoice(voice, frequency, this.params.glideTime, now));
+    } else {
+      this.monoVoices.forEach((voice) => this._releaseVoice(voice, now));
+    }
+  }
+
+  private _releaseMonoVoice() {
+    const voices = this.monoVoices;
+    voices.forEach((voice) => {
+      this._detachVoice(voice);
       try {
-        voice.synth.triggerRelease(Tone.now());
-        if (voice.lfo) {
-          try {
-            voice.lfo.stop();
-          } catch (e) {
-            // LFO might not be running
-          }
-        }
-        // Schedule disposal after release time
-        setTimeout(() => {
-          try {
-            voice.synth.dispose();
-            voice.filter.dispose();
-            if (voice.lfo) {
-              voice.lfo.dispose();
-            }
-          } catch (e) {
-            // Already disposed
-          }
-        }, (this.params.release * 1000) + 100);
+        this._releaseVoice(voice, this._now());
       } catch (e) {
-        // Voice might already be disposed
+        // Voice might already be released
       }
-      this.voices.delete(noteNumber);
-      this.activeNotes.delete(noteNumber);
+    });
+  }
+
+  noteOff(noteNumber: number, time?: number) {
+    const now = time ?? this._now();
+    this.modSources.noteOff(noteNumber, now);
+    if (this.monoNoteStack.includes(noteNumber)) {
+      this._monoNoteOff(noteNumber, now);
+      return;
     }
+
+    const voices = this.voices.get(noteNumber) ?? [];
+    voices.forEach((voice) => {
+      try {
+        this._releaseVoice(voice, now);
+      } catch (e) {
+        // Voice might already be released
+      }
+      this._detachVoice(voice);
+    });
   }
 
   stopAllNotes() {
-    // Stop all voices immediately
-    const now = Tone.now();
-    this.voices.forEach((voice) => {
+    // Fade every sounding voice out quickly and release it back to the pool. The
+    // envelopes drop notes scheduled ahead too, so they never start.
+    // Uses the context's own time, as Tone's now() is ahead of it by its look-ahead.
+    const now = this.context.currentTime;
+    this.pool.forEach((voice) => {
+      if (!this._isSounding(voice)) return;
       try {
-        voice.synth.triggerRelease(now);
-        voice.lfo.stop();
+        voice.ampEnv.silence(now, STEAL_FADE_TIME);
+        voice.filterEnv.silence(now, STEAL_FADE_TIME);
+        this._stopSample(voice, now + STEAL_FADE_TIME);
+        voice.releasedAt = now;
+        this._stopSourcesWhenIdle(voice, now + STEAL_FADE_TIME);
       } catch (e) {
         // Voice might already be stopped
       }
+      this._detachVoice(voice);
     });
-
-    // Dispose after release
-    setTimeout(() => {
-      this.voices.forEach((voice) => {
-        try {
-          voice.synth.dispose();
-          voice.filter.dispose();
-          voice.lfo.dispose();
-        } catch (e) {
-          // Already disposed
-        }
-      });
-      this.voices.clear();
-      this.activeNotes.clear();
-    }, (this.params.release * 1000) + 100);
+    this.voices.clear();
+    this.activeNotes.clear();
   }
 
   updateFilterCutoff(_noteNumber: number, _frequency: number) {
     // This would be handled by updateParams
   }
 
-  updateOscillatorType(_noteNumber: number, _type: 'sine' | 'triangle' | 'sawtooth' | 'square') {
+  updateOscillatorType(_noteNumber: number, _type: OscillatorShape) {
     // Oscillator type would be set on new notes
   }
 
+  triggerDrum(drum: DrumType, settings: DrumVoiceSettings, velocity: number = 1, time?: number) {
+    this.drums.trigger(drum, settings, time ?? this._now(), velocity);
+  }
+
+  setSample(buffer: AudioBuffer | null) {
+    this.sampleBuffer = buffer;
+  }
+
+  setSequencerStep(step: number, length: number, time?: number) {
+    this.modSources.setStep(step, length, time ?? this._now());
+  }
+
+  setControlChange(controller: number, value: number) {
+    this.modSources.setController(controller, value);
+  }
+
+  updateModulation() {
+    if (modMatrixActive(this.baseParams.modMatrix)) {
+      this._applyParams();
+    }
+  }
+
   midiNoteToFrequency(noteNumber: number): number {
-    return 440 * Math.pow(2, (noteNumber - 69) / 12);
+    return tunedFrequency(this.tuningTable, noteNumber);
   }
 
   frequencyToMidiNote(frequency: number): number {
@@ -214,6 +1328,41 @@ export class WebAudioSynthesizer {
     this.masterGain.gain.rampTo(Math.max(0, Math.min(1, volume)), 0.1);
   }
 
+  setTempo(bpm: number) {
+    this.tempo = bpm;
+    if (this.params.lfoSync) {
+      this.pool.forEach((voice) => {
+        if (this._isSounding(voice)) {
+          this._updateLfo(voice);
+        }
+      });
+    }
+    this.inserts.update(this.params, this.tempo);
+  }
+
+  connectTap(node: AudioNode) {
+    Tone.connect(this.inserts.output, node);
+  }
+
+  disconnectTap(node: AudioNode) {
+    this.inserts.output.disconnect(node);
+  }
+
+  createWorkletNode(processor: string, options?: AudioWorkletNodeOptions): AudioWorkletNode {
+    return this.masterGain.context.createAudioWorkletNode(processor, options);
+  }
+
+  async whenReady() {
+    // Build a reverb change still waiting for its controls to settle now
+    if (this.reverbUpdateTimeout) {
+      clearTimeout(this.reverbUpdateTimeout);
+      this.reverbUpdateTimeout = null;
+      this._updateReverb();
+    }
+    await this.workletsReady;
+    await this.reverb.ready;
+  }
+
   suspend() {
     Tone.Transport.pause();
   }
@@ -229,6 +1378,34 @@ export class WebAudioSynthesizer {
   }
 
   getAudioContext(): AudioContext {
-    return Tone.getContext().rawContext as AudioContext;
+    return this.context.rawContext as AudioContext;
+  }
+
+  dispose() {
+    this.disposed = true;
+    if (this.reverbUpdateTimeout) {
+      clearTimeout(this.reverbUpdateTimeout);
+      this.reverbUpdateTimeout = null;
+    }
+
+    this._releaseMonoVoice();
+    this.pool.forEach((voice) => this._disposeVoice(voice));
+    this.pool = [];
+    this.voices.clear();
+    this.activeNotes.clear();
+
+    this.crusher?.disconnect();
+    this.crusher = null;
+    this.drums.dispose();
+    this.voiceBus.dispose();
+    this.driveShaper.dispose();
+    this.driveMakeup.dispose();
+    this.masterGain.dispose();
+    this.effectsSend.dispose();
+    this.reverb.dispose();
+    this.delay.dispose();
+    this.delayReturn.dispose();
+    this.effectsMix.dispose();
+    this.inserts.dispose();
   }
 }
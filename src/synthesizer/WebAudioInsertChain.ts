@@ -0,0 +1,244 @@
+// Master insert chain for the raw Web Audio engine: drive, chorus/flanger,
+// ping-pong delay, EQ and limiter, wired in the patch's order
+import { InsertParams, InsertType } from './SynthEngine';
+import { makeDriveCurve, driveMakeupGain } from './drive';
+import {
+  EQ_HIGH_FREQUENCY,
+  EQ_LOW_FREQUENCY,
+  EQ_MID_FREQUENCY,
+  EQ_MID_Q,
+  LIMITER_ATTACK,
+  LIMITER_RATIO,
+  LIMITER_RELEASE,
+  MAX_INSERT_DELAY,
+  activeInserts,
+  chorusTiming,
+  equalPowerMix,
+  insertDelaySeconds,
+  makeLimiterCurve,
+} from './masterInserts';
+
+// Time constant for parameter changes, matching the engine's smoothing
+const SMOOTHING = 0.03;
+
+// Longest chorus delay line; the chorus centre plus its full sweep fits well inside
+const MAX_CHORUS_DELAY = 0.05;
+
+// Where audio enters and leaves one insert
+interface Insert {
+  input: AudioNode;
+  output: AudioNode;
+}
+
+export class WebAudioInsertChain {
+  readonly input: GainNode;
+  readonly output: GainNode;
+  private context: BaseAudioContext;
+  private driveShaper: WaveShaperNode;
+  private driveMakeup: GainNode;
+  // Chorus: each channel runs through its own delay, swept in opposite directions by one LFO
+  private chorusDry: GainNode;
+  private chorusWet: GainNode;
+  private chorusDelays: DelayNode[];
+  private chorusFeedback: GainNode[];
+  private chorusLfo: OscillatorNode;
+  private chorusDepths: GainNode[];
+  // Ping-pong: the mono input starts on the left and each repeat crosses to the other side
+  private delayDry: GainNode;
+  private delayWet: GainNode;
+  private delayLeft: DelayNode;
+  private delayRight: DelayNode;
+  private delayFeedback: GainNode;
+  private eqLow: BiquadFilterNode;
+  private eqMid: BiquadFilterNode;
+  private eqHigh: BiquadFilterNode;
+  private limiter: DynamicsCompressorNode;
+  private limiterClip: WaveShaperNode;
+  private inserts: Record<InsertType, Insert>;
+  private params: InsertParams;
+  private tempo: number;
+  private route = '';
+
+  constructor(context: BaseAudioContext, params: InsertParams, tempo: number) {
+    this.context = context;
+    this.params = params;
+    this.tempo = tempo;
+    this.input = context.createGain();
+    this.output = context.createGain();
+
+    this.driveShaper = context.createWaveShaper();
+    this.driveShaper.oversample = '4x';
+    this.driveMakeup = context.createGain();
+    this.driveShaper.connect(this.driveMakeup);
+
+    const chorusIn = context.createGain();
+    const chorusOut = context.createGain();
+    const splitter = context.createChannelSplitter(2);
+    const merger = context.createChannelMerger(2);
+    this.chorusDry = context.createGain();
+    this.chorusWet = context.createGain();
+    this.chorusLfo = context.createOscillator();
+    this.chorusDelays = [context.createDelay(MAX_CHORUS_DELAY), context.createDelay(MAX_CHORUS_DELAY)];
+    this.chorusFeedback = [context.createGain(), context.createGain()];
+    this.chorusDepths = [context.createGain(), context.createGain()];
+    chorusIn.connect(this.chorusDry);
+    chorusIn.connect(splitter);
+    this.chorusDelays.forEach((delay, channel) => {
+      splitter.connect(delay, channel);
+      delay.connect(this.chorusFeedback[channel]);
+      this.chorusFeedback[channel].connect(delay);
+      delay.connect(merger, 0, channel);
+      this.chorusLfo.connect(this.chorusDepths[channel]);
+      this.chorusDepths[channel].connect(delay.delayTime);
+    });
+    merger.connect(this.chorusWet);
+    this.chorusDry.connect(chorusOut);
+    this.chorusWet.connect(chorusOut);
+    this.chorusLfo.start();
+
+    const delayIn = context.createGain();
+    const delayOut = context.createGain();
+    const mono = context.createGain();
+    mono.channelCount = 1;
+    mono.channelCountMode = 'explicit';
+    const pingPong = context.createChannelMerger(2);
+    this.delayDry = context.createGain();
+    this.delayWet = context.createGain();
+    this.delayLeft = context.createDelay(MAX_INSERT_DELAY);
+    this.delayRight = context.createDelay(MAX_INSERT_DELAY);
+    this.delayFeedback = context.createGain();
+    delayIn.connect(this.delayDry);
+    delayIn.connect(mono);
+    mono.connect(this.delayLeft);
+    this.delayLeft.connect(this.delayRight);
+    this.delayRight.connect(this.delayFeedback);
+    this.delayFeedback.connect(this.delayLeft);
+    this.delayLeft.connect(pingPong, 0, 0);
+    this.delayRight.connect(pingPong, 0, 1);
+    pingPong.connect(this.delayWet);
+    this.delayDry.connect(delayOut);
+    this.delayWet.connect(delayOut);
+
+    this.eqLow = context.createBiquadFilter();
+    this.eqLow.type = 'lowshelf';
+    this.eqLow.frequency.value = EQ_LOW_FREQUENCY;
+    this.eqMid = context.createBiquadFilter();
+    this.eqMid.type = 'peaking';
+    this.eqMid.frequency.value = EQ_MID_FREQUENCY;
+    this.eqMid.Q.value = EQ_MID_Q;
+    this.eqHigh = context.createBiquadFilter();
+    this.eqHigh.type = 'highshelf';
+    this.eqHigh.frequency.value = EQ_HIGH_FREQUENCY;
+    this.eqLow.connect(this.eqMid);
+    this.eqMid.connect(this.eqHigh);
+
+    this.limiter = context.createDynamicsCompressor();
+    this.limiter.knee.value = 0;
+    this.limiter.ratio.value = LIMITER_RATIO;
+    this.limiter.attack.value = LIMITER_ATTACK;
+    this.limiter.release.value = LIMITER_RELEASE;
+    this.limiterClip = context.createWaveShaper();
+    this.limiter.connect(this.limiterClip);
+
+    this.inserts = {
+      drive: { input: this.driveShaper, output: this.driveMakeup },
+      chorus: { input: chorusIn, output: chorusOut },
+      delay: { input: delayIn, output: delayOut },
+      eq: { input: this.eqLow, output: this.eqHigh },
+      limiter: { input: this.limiter, output: this.limiterClip },
+    };
+
+    this.applySettings(null, tempo, 0);
+    this.rewire();
+  }
+
+  update(params: InsertParams, tempo: number) {
+    const previous = this.params;
+    const previousTempo = this.tempo;
+    this.params = params;
+    this.tempo = tempo;
+    this.applySettings(previous, previousTempo, SMOOTHING);
+    this.rewire();
+  }
+
+  // Moves a parameter to its new value, immediately when timeConstant is 0
+  private setParam(param: AudioParam, value: number, timeConstant: number) {
+    if (timeConstant > 0) {
+      param.setTargetAtTime(value, this.context.currentTime, timeConstant);
+    } else {
+      param.value = value;
+    }
+  }
+
+  private applySettings(previous: InsertParams | null, previousTempo: number, timeConstant: number) {
+    const params = this.params;
+
+    if (
+      !previous ||
+      previous.insertDriveAmount !== params.insertDriveAmount ||
+      previous.insertDriveCurve !== params.insertDriveCurve
+    ) {
+      this.driveShaper.curve = makeDriveCurve(params.insertDriveCurve, params.insertDriveAmount);
+      this.setParam(this.driveMakeup.gain, driveMakeupGain(params.insertDriveAmount), timeConstant);
+    }
+
+    const timing = chorusTiming(params.insertChorusMode, params.insertChorusDepth);
+    const chorusMix = equalPowerMix(params.insertChorusMix);
+    this.setParam(this.chorusLfo.frequency, Math.max(0.01, params.insertChorusRate), timeConstant);
+    this.setParam(this.chorusDry.gain, chorusMix.dry, timeConstant);
+    this.setParam(this.chorusWet.gain, chorusMix.wet, timeConstant);
+    this.chorusDelays.forEach((delay, channel) => {
+      this.setParam(delay.delayTime, timing.delay, timeConstant);
+      this.setParam(this.chorusFeedback[channel].gain, timing.feedback, timeConstant);
+      this.setParam(this.chorusDepths[channel].gain, channel === 0 ? timing.depth : -timing.depth, timeConstant);
+    });
+
+    if (
+      !previous ||
+      previous.insertDelayDivision !== params.insertDelayDivision ||
+      previousTempo !== this.tempo
+    ) {
+      const seconds = insertDelaySeconds(params, this.tempo);
+      this.setParam(this.delayLeft.delayTime, seconds, timeConstant);
+      this.setParam(this.delayRight.delayTime, seconds, timeConstant);
+    }
+    const delayMix = equalPowerMix(params.insertDelayMix);
+    this.setParam(this.delayFeedback.gain, Math.max(0, Math.min(0.9, params.insertDelayFeedback)), timeConstant);
+    this.setParam(this.delayDry.gain, delayMix.dry, timeConstant);
+    this.setParam(this.delayWet.gain, delayMix.wet, timeConstant);
+
+    this.setParam(this.eqLow.gain, params.insertEqLow, timeConstant);
+    this.setParam(this.eqMid.gain, params.insertEqMid, timeConstant);
+    this.setParam(this.eqHigh.gain, params.insertEqHigh, timeConstant);
+
+    if (!previous || previous.insertLimiterCeiling !== params.insertLimiterCeiling) {
+      this.setParam(this.limiter.threshold, params.insertLimiterCeiling, timeConstant);
+      this.limiterClip.curve = makeLimiterCurve(params.insertLimiterCeiling);
+    }
+  }
+
+  // Reconnects the chain when an insert is bypassed, enabled or moved
+  private rewire() {
+    const active = activeInserts(this.params);
+    const route = active.join('>');
+    if (route === this.route) return;
+    this.route = route;
+
+    this.input.disconnect();
+    Object.values(this.inserts).forEach((insert) => insert.output.disconnect());
+
+    let previous: AudioNode = this.input;
+    active.forEach((type) => {
+      const insert = this.inserts[type];
+      previous.connect(insert.input);
+      previous = insert.output;
+    });
+    previous.connect(this.output);
+  }
+
+  dispose() {
+    this.chorusLfo.stop();
+    this.input.disconnect();
+    this.output.disconnect();
+  }
+}
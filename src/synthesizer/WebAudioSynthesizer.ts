@@ -1,317 +1,1419 @@
 // Web Audio API Synthesizer Core
-export interface SynthesizerParams {
-  oscillatorType: OscillatorType;
+import { SynthEngine, SynthesizerParams, OscillatorShape, NoiseType, DEFAULT_SYNTH_PARAMS } from './SynthEngine';
+import { makeDriveCurve, driveMakeupGain, coarsenessToBits, coarsenessToDownsample } from './drive';
+import { CRUSHER_PROCESSOR, LADDER_FILTER_PROCESSOR, SYNC_OSCILLATOR_PROCESSOR, getWorkletModuleUrl } from './worklets';
+import { filterEnvDepthCents, keyTrackCents } from './filterEnvelope';
+import { AccentTracker } from './accent';
+import { STEAL_FADE_TIME, clampPolyphony, pickVoiceToSteal } from './voiceStealing';
+import {
+  SAMPLE_HOLD_BASE_RATE,
+  fillSampleHoldSteps,
+  lfoDepthFor,
+  lfoRateHz,
+  sampleHoldLength,
+  tremoloBaseGain,
+} from './lfo';
+import { NOISE_BUFFER_SECONDS, fillNoise, osc2Ratio, subRatio, syncShapeIndex } from './oscillators';
+import { createWavetableWave, morphPartials } from './wavetable';
+import { buildTuningTable, tunedFrequency } from './tuning';
+import { WebAudioInsertChain } from './WebAudioInsertChain';
+import { DrumMachine, DrumType, DrumVoiceSettings } from './drums';
+import { applySampleLoop, createSampleSource, samplePitchScale } from './sampler';
+import { ModulationSources, modMatrixActive, modulateParams } from './modMatrix';
+import { SHAPE_CROSSFADE_TIME, sustainRetarget } from './liveUpdates';
+import {
+  MAX_PHASE_DELAY,
+  unisonCount,
+  unisonDetuneCents,
+  unisonGain,
+  unisonPan,
+  unisonPhaseDelay,
+  unisonPositions,
+} from './unison';
+
+type LfoSource = OscillatorNode | AudioBufferSourceNode;
+
+interface Voice {
+  pitch: ConstantSourceNode; // Note frequency driving every oscillator, glides move this
+  detune: ConstantSourceNode;
+  osc: OscillatorNode;
+  oscFader: GainNode; // Fades osc out while the sample shape plays, and across shape changes
+  sampleRatio: GainNode; // Scales the pitch into the sample's playback rate
+  sample: AudioBufferSourceNode | null; // Sample started by the last note, played in place of osc
+  osc2: OscillatorNode;
+  osc2Fader: GainNode;
+  osc2Ratio: GainNode; // Scales the pitch by the second oscillator's octave, semitone and fine offsets
+  syncOsc: AudioWorkletNode | null; // Hard-synced second oscillator, when the worklet is available
+  sub: OscillatorNode;
+  subRatio: GainNode;
+  noise: AudioBufferSourceNode;
+  osc1Gain: GainNode;
+  sampleFader: GainNode; // Fades the sample in while the sample shape plays
+  osc2Gain: GainNode;
+  syncGain: GainNode;
+  subGain: GainNode;
+  noiseGain: GainNode;
+  phaseDelay: DelayNode; // Randomizes the start phase of a unison copy
+  pulseShaper: WaveShaperNode; // Turns the oscillator's sawtooth into a pulse while pulse width is modulated
+  pulse: boolean;
+  ringModVCA: GainNode;
+  ringModDepth: GainNode;
+  ringModOsc: OscillatorNode;
+  filter: BiquadFilterNode;
+  ladder: AudioWorkletNode | null; // 24 dB ladder, created the first time the voice needs it
+  ladderActive: boolean; // Whether the ring mod VCA feeds the ladder instead of the biquad
+  cutoffMod: ConstantSourceNode; // Cutoff offset in cents from key tracking, the filter envelope and the LFO, shared by both filters
+  filterEnv: ConstantSourceNode;
+  filterEnvDepth: GainNode;
+  amp: GainNode;
+  tremolo: GainNode;
+  panner: StereoPannerNode;
+  lfo: LfoSource | null; // Own LFO after a key retrigger, null while following the shared free-running one
+  lfoDepth: GainNode;
+  lfoRoute: string | null; // Destination the LFO depth is currently connected to
   frequency: number;
-  volume: number;
-  attack: number;
-  decay: number;
-  sustain: number;
-  release: number;
-  cutoff: number;
-  resonance: number;
-  filterType: BiquadFilterType;
-  lfoRate: number;
-  lfoAmount: number;
-  detuneAmount: number;
-  ringModAmount: number; // 0-1, amount of ring modulation
-  wetness: number; // 0-1, reverb/effect wet amount
-  coarseness: number; // 0-1, waveform harshness
+  unisonPosition: number; // -1 to 1, where the voice sits in its note's unison stack
+  level: number; // Gain that keeps a unison stack about as loud as a single voice
+  velocity: number;
+  accentLevel: number;
+  startedAt: number;
+  triggeredAt: number;
+  releasedAt: number;
+  stopAt: number | null; // When the voice's sources are scheduled to stop
+}
+
+// Fixed settings for the delay on the shared effects bus, matching the Tone.js engine
+const FX_DELAY_TIME = 0.3;
+const FX_DELAY_FEEDBACK = 0.3;
+const FX_DELAY_RETURN = 0.35;
+
+// Comparator curve that turns a sawtooth into a pulse; adding an offset to
+// the sawtooth moves the threshold and with it the pulse width
+function makePulseCurve() {
+  const curve = new Float32Array(1024);
+  for (let i = 0; i < curve.length; i++) {
+    curve[i] = i < curve.length / 2 ? -1 : 1;
+  }
+  return curve;
+}
+
+const PULSE_CURVE = makePulseCurve();
+
+// Time constant for parameter changes on sounding voices
+const PARAM_SMOOTHING = 0.03;
+
+// Drops a parameter's automation after a time, keeping the value it has then so the next
+// ramp starts from there. Notes can be scheduled ahead, so the value may not be the current one;
+// browsers without cancelAndHoldAtTime fall back to the current value.
+function holdValue(param: AudioParam, time: number) {
+  if (param.cancelAndHoldAtTime) {
+    param.cancelAndHoldAtTime(time);
+  } else {
+    param.cancelScheduledValues(time);
+    param.setValueAtTime(param.value, time);
+  }
 }
 
-export class WebAudioSynthesizer {
-  private audioContext: AudioContext;
-  private oscillators: Map<number, OscillatorNode> = new Map();
-  private gains: Map<number, GainNode> = new Map();
-  private filters: Map<number, BiquadFilterNode> = new Map();
-  private lfos: Map<number, OscillatorNode> = new Map();
-  private ringModOscillators: Map<number, OscillatorNode> = new Map();
-  private ringModGains: Map<number, GainNode[]> = new Map(); // Array to track all ring mod gains
+export class WebAudioSynthesizer implements SynthEngine {
+  private audioContext: BaseAudioContext;
+  private voices: Map<number, Voice[]> = new Map(); // One voice per unison copy of each note
+  private releasingVoices: Set<Voice> = new Set(); // Released voices whose tails still count against polyphony
+  private voiceBus: GainNode;
+  private driveShaper: WaveShaperNode;
+  private driveMakeup: GainNode;
+  private crusher: AudioWorkletNode | null = null;
   private masterGain: GainNode;
-  private params: SynthesizerParams;
+  private drums: DrumMachine;
+  private dryGain: GainNode;
+  private wetGain: GainNode;
+  private inserts: WebAudioInsertChain;
+  private effectsSend: GainNode;
+  private reverbPreDelay: DelayNode;
+  private reverb: ConvolverNode;
+  private delay: DelayNode;
+  private delayFeedback: GainNode;
+  private delayReturn: GainNode;
+  private reverbUpdateTimeout: ReturnType<typeof setTimeout> | null = null;
+  private params: SynthesizerParams; // Modulated by the matrix
+  private baseParams: SynthesizerParams; // As last set through updateParams
+  private modSources = new ModulationSources();
   private activeNotes: Set<number> = new Set();
+  private monoVoices: Voice[] = [];
+  private monoNoteStack: number[] = [];
+  private lastFrequency: number | null = null;
+  private accent = new AccentTracker();
+  private tempo = 120;
+  private sampleHoldBuffer: AudioBuffer;
+  private sharedLfo: LfoSource;
+  private noiseBuffers: Record<NoiseType, AudioBuffer>;
+  private sampleBuffer: AudioBuffer | null = null;
+  private wavetableWave: PeriodicWave | null = null; // Built on first use and whenever the wavetable changes
+  private tuningTable: (number | null)[];
+  private workletsLoaded = false;
+  private workletsReady: Promise<void>;
+  private disposed = false;
 
-  constructor() {
-    this.audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
+  // Pass an OfflineAudioContext to render offline; otherwise the engine opens its own realtime context
+  constructor(context?: BaseAudioContext) {
+    this.audioContext = context ?? new (window.AudioContext || (window as any).webkitAudioContext)();
     this.masterGain = this.audioContext.createGain();
-    this.masterGain.connect(this.audioContext.destination);
-    
-    this.params = {
-      oscillatorType: 'square',
-      frequency: 440,
-      volume: 0.3,
-      attack: 0.1,
-      decay: 0.2,
-      sustain: 0.5,
-      release: 0.3,
-      cutoff: 4000,
-      resonance: 1,
-      filterType: 'lowpass',
-      lfoRate: 5,
-      lfoAmount: 0,
-      detuneAmount: 0,
-      ringModAmount: 0,
-      wetness: 0.3,
-      coarseness: 0.5,
+    this.params = { ...DEFAULT_SYNTH_PARAMS };
+    this.baseParams = this.params;
+    this.tuningTable = buildTuningTable(this.params.tuning);
+
+    // Coarseness stage shared by all voices: drive -> makeup -> crusher -> master.
+    // The bus gain sets the patch volume ahead of the drive, as in the Tone engine.
+    this.voiceBus = this.audioContext.createGain();
+    this.voiceBus.gain.value = this.params.volume;
+    this.driveShaper = this.audioContext.createWaveShaper();
+    this.driveShaper.curve = makeDriveCurve(this.params.driveCurve, this.params.coarseness);
+    this.driveShaper.oversample = '4x';
+    this.driveMakeup = this.audioContext.createGain();
+    this.driveMakeup.gain.value = driveMakeupGain(this.params.coarseness);
+    this.voiceBus.connect(this.driveShaper);
+    this.driveShaper.connect(this.driveMakeup);
+    this.driveMakeup.connect(this.masterGain);
+    this.workletsReady = this.loadWorklets();
+
+    // Drums skip the voice drive and join the voices at masterGain
+    this.drums = new DrumMachine(this.audioContext);
+    this.drums.output.connect(this.masterGain);
+
+    // Effects bus: masterGain feeds a dry gain directly and a wet gain through
+    // a send to a reverb and a delay in parallel; wetness crossfades the two
+    this.dryGain = this.audioContext.createGain();
+    this.wetGain = this.audioContext.createGain();
+
+    // The master inserts process the whole mix, reverb and delay included, on its way out
+    this.inserts = new WebAudioInsertChain(this.audioContext, this.params, this.tempo);
+    this.dryGain.connect(this.inserts.input);
+    this.wetGain.connect(this.inserts.input);
+    this.inserts.output.connect(this.audioContext.destination);
+    this.masterGain.connect(this.dryGain);
+
+    this.effectsSend = this.audioContext.createGain();
+    this.masterGain.connect(this.effectsSend);
+
+    this.reverbPreDelay = this.audioContext.createDelay(1);
+    this.reverbPreDelay.delayTime.value = Math.max(0, this.params.reverbPreDelay);
+    this.reverb = this.audioContext.createConvolver();
+    this.reverb.buffer = this.makeReverbImpulse(this.params.reverbDecay);
+    this.effectsSend.connect(this.reverbPreDelay);
+    this.reverbPreDelay.connect(this.reverb);
+    this.reverb.connect(this.wetGain);
+
+    this.delay = this.audioContext.createDelay(1);
+    this.delay.delayTime.value = FX_DELAY_TIME;
+    this.delayFeedback = this.audioContext.createGain();
+    this.delayFeedback.gain.value = FX_DELAY_FEEDBACK;
+    this.delayReturn = this.audioContext.createGain();
+    this.delayReturn.gain.value = FX_DELAY_RETURN;
+    this.effectsSend.connect(this.delay);
+    this.delay.connect(this.delayFeedback);
+    this.delayFeedback.connect(this.delay);
+    this.delay.connect(this.delayReturn);
+    this.delayReturn.connect(this.wetGain);
+
+    this.updateWetness(0);
+
+    // Free-running LFO shared by every voice that isn't key-retriggered
+    this.sampleHoldBuffer = this.audioContext.createBuffer(
+      1,
+      sampleHoldLength(this.audioContext.sampleRate),
+      this.audioContext.sampleRate
+    );
+    fillSampleHoldSteps(this.sampleHoldBuffer.getChannelData(0), this.audioContext.sampleRate);
+    this.sharedLfo = this.createLfoSource();
+
+    // Looping noise shared by every voice, each starting at a random offset
+    this.noiseBuffers = {
+      white: this.makeNoiseBuffer('white'),
+      pink: this.makeNoiseBuffer('pink'),
     };
   }
 
-  updateParams(params: Partial<SynthesizerParams>) {
-    this.params = { ...this.params, ...params };
+  private makeNoiseBuffer(type: NoiseType): AudioBuffer {
+    const sampleRate = this.audioContext.sampleRate;
+    const buffer = this.audioContext.createBuffer(1, Math.floor(sampleRate * NOISE_BUFFER_SECONDS), sampleRate);
+    fillNoise(buffer.getChannelData(0), type);
+    return buffer;
   }
 
-  noteOn(noteNumber: number, velocity: number = 1, slideTime: number = 0) {
-    if (this.activeNotes.has(noteNumber)) {
-      this.noteOff(noteNumber);
+  private async loadWorklets() {
+    if (!this.audioContext.audioWorklet) {
+      console.warn('AudioWorklet not supported, continuing without bit reduction, hard sync or the ladder filter');
+      return;
     }
 
-    const frequency = this.midiNoteToFrequency(noteNumber);
-    
-    // Create oscillator
-    const osc = this.audioContext.createOscillator();
-    osc.type = this.params.oscillatorType;
-    
-    // If slide is requested, start from a lower frequency
+    try {
+      await this.audioContext.audioWorklet.addModule(getWorkletModuleUrl());
+      if (this.disposed) return;
+      // Voices started from here on get a sync oscillator and can use the ladder
+      this.workletsLoaded = true;
+      const crusher = new AudioWorkletNode(this.audioContext, CRUSHER_PROCESSOR);
+
+      // Splice the crusher in between the makeup gain and masterGain
+      this.driveMakeup.disconnect(this.masterGain);
+      this.driveMakeup.connect(crusher);
+      crusher.connect(this.masterGain);
+      this.crusher = crusher;
+      this.updateCrusherParams();
+    } catch (e) {
+      console.warn('Worklets unavailable, continuing without bit reduction, hard sync or the ladder filter:', e);
+    }
+  }
+
+  private updateCrusherParams() {
+    if (!this.crusher) return;
     const now = this.audioContext.currentTime;
-    if (slideTime > 0) {
-      // Find the last active note frequency to slide from
-      let lastFrequency = frequency * 0.5; // Default: slide from half the target frequency
-      if (this.activeNotes.size > 0) {
-        const lastNote = Math.max(...Array.from(this.activeNotes));
-        lastFrequency = this.midiNoteToFrequency(lastNote);
+    const bits = coarsenessToBits(this.params.coarseness, this.params.crushBits);
+    const downsample = coarsenessToDownsample(this.params.coarseness, this.params.crushRate);
+    this.crusher.parameters.get('bits')?.setValueAtTime(bits, now);
+    this.crusher.parameters.get('downsample')?.setValueAtTime(downsample, now);
+  }
+
+  // Stereo noise burst with an exponential tail, used as the reverb impulse response
+  private makeReverbImpulse(decay: number): AudioBuffer {
+    const sampleRate = this.audioContext.sampleRate;
+    const duration = Math.max(0.1, decay);
+    const length = Math.floor(sampleRate * duration);
+    const impulse = this.audioContext.createBuffer(2, length, sampleRate);
+    for (let channel = 0; channel < 2; channel++) {
+      const data = impulse.getChannelData(channel);
+      for (let i = 0; i < length; i++) {
+        // Falls by 60 dB over the decay time
+        data[i] = (Math.random() * 2 - 1) * Math.pow(10, (-3 * i) / length);
       }
-      
-      osc.frequency.setValueAtTime(lastFrequency, now);
-      osc.frequency.linearRampToValueAtTime(frequency, now + slideTime);
+    }
+    return impulse;
+  }
+
+  // Equal-power crossfade between the dry and wet sides
+  private updateWetness(timeConstant: number) {
+    const wetness = Math.max(0, Math.min(1, this.params.wetness));
+    const now = this.audioContext.currentTime;
+    const dry = Math.cos(wetness * Math.PI / 2);
+    const wet = Math.sin(wetness * Math.PI / 2);
+    if (timeConstant > 0) {
+      this.dryGain.gain.setTargetAtTime(dry, now, timeConstant);
+      this.wetGain.gain.setTargetAtTime(wet, now, timeConstant);
     } else {
-      osc.frequency.setValueAtTime(frequency, now);
+      this.dryGain.gain.value = dry;
+      this.wetGain.gain.value = wet;
+    }
+  }
+
+  updateParams(params: Partial<SynthesizerParams>) {
+    this.baseParams = { ...this.baseParams, ...params };
+    this.applyParams();
+  }
+
+  // Runs a note's start with the parameters modulated at the note's time
+  private withParamsAt(time: number, run: () => void) {
+    if (!modMatrixActive(this.baseParams.modMatrix)) {
+      run();
+      return;
     }
-    
-    // Apply detune if specified
-    if (this.params.detuneAmount !== 0) {
-      osc.detune.value = this.params.detuneAmount;
+    const current = this.params;
+    this.params = modulateParams(this.baseParams, this.modSources, time);
+    try {
+      run();
+    } finally {
+      this.params = current;
     }
+  }
 
-    // Create filter
-    const filter = this.audioContext.createBiquadFilter();
-    filter.type = this.params.filterType;
-    filter.frequency.value = this.params.cutoff;
-    filter.Q.value = this.params.resonance;
+  // Applies the parameters as set, plus the modulation matrix's current offsets
+  private applyParams() {
+    const previous = this.params;
+    const now = this.audioContext.currentTime;
+    this.params = modulateParams(this.baseParams, this.modSources, now);
 
-    // Create gain (envelope)
-    const gainNode = this.audioContext.createGain();
-    
-    // ADSR Envelope
-    gainNode.gain.setValueAtTime(0, now);
-    gainNode.gain.linearRampToValueAtTime(
-      velocity * this.params.volume,
-      now + this.params.attack
-    );
-    gainNode.gain.linearRampToValueAtTime(
-      this.params.sustain * velocity * this.params.volume,
-      now + this.params.attack + this.params.decay
-    );
+    this.voiceBus.gain.setTargetAtTime(Math.max(0, this.params.volume), now, PARAM_SMOOTHING);
+    if (
+      previous.coarseness !== this.params.coarseness ||
+      previous.driveCurve !== this.params.driveCurve
+    ) {
+      this.driveShaper.curve = makeDriveCurve(this.params.driveCurve, this.params.coarseness);
+      this.driveMakeup.gain.setTargetAtTime(driveMakeupGain(this.params.coarseness), now, 0.01);
+    }
+    this.updateCrusherParams();
+
+    this.updateWetness(PARAM_SMOOTHING);
+    this.inserts.update(this.params, this.tempo);
+    if (
+      previous.wavetable !== this.params.wavetable ||
+      previous.wavetablePosition !== this.params.wavetablePosition
+    ) {
+      this.wavetableWave = null;
+    }
+    if (previous.tuning !== this.params.tuning) {
+      this.tuningTable = buildTuningTable(this.params.tuning);
+    }
+    this.reverbPreDelay.delayTime.setTargetAtTime(Math.max(0, this.params.reverbPreDelay), now, PARAM_SMOOTHING);
+    if (previous.reverbDecay !== this.params.reverbDecay) {
+      // Building a new impulse response is expensive, so wait until the control settles
+      if (this.reverbUpdateTimeout) {
+        clearTimeout(this.reverbUpdateTimeout);
+      }
+      this.reverbUpdateTimeout = setTimeout(() => {
+        this.reverbUpdateTimeout = null;
+        this.reverb.buffer = this.makeReverbImpulse(this.params.reverbDecay);
+      }, 150);
+    }
+
+    // Leaving mono mode hands the keyboard back to the poly voices
+    if (previous.voiceMode === 'mono' && this.params.voiceMode !== 'mono') {
+      this.releaseMonoVoice();
+    }
 
-    // Create ring modulator if needed
-    let ringModOsc: OscillatorNode | null = null;
-    const ringModGainsList: GainNode[] = [];
-    if (this.params.ringModAmount > 0 && this.params.ringModAmount < 1) {
-      ringModOsc = this.audioContext.createOscillator();
-      ringModOsc.frequency.value = frequency * 1.5; // Ring mod carrier frequency
-      ringModOsc.type = 'sine';
-      
-      // Create a separate gain node for ring mod that modulates the audio signal, not the envelope
-      const ringModCarrier = this.audioContext.createGain();
-      const ringModGain = this.audioContext.createGain();
-      
-      // Set ring mod gain to a reasonable range (0.1 to 0.5 for subtle effect)
-      const ringModAmount = Math.max(0, Math.min(0.5, this.params.ringModAmount * 0.5));
-      ringModGain.gain.value = ringModAmount;
-      
-      ringModOsc.connect(ringModGain);
-      ringModGain.connect(ringModCarrier.gain); // Modulate the carrier amplitude, not the envelope
-      
-      // Connect both oscillator and ring mod to the filter
-      osc.connect(filter);
-      ringModCarrier.connect(filter);
-      ringModOsc.start();
-      
-      // Track for cleanup
-      ringModGainsList.push(ringModGain);
-      ringModGainsList.push(ringModCarrier);
+    if (previous.lfoWaveform !== this.params.lfoWaveform) {
+      this.replaceLfoSources();
     } else {
-      // Normal path when no ring mod
-      osc.connect(filter);
-    }
-
-    // Create LFO if needed
-    if (this.params.lfoAmount > 0) {
-      const lfo = this.audioContext.createOscillator();
-      lfo.frequency.value = this.params.lfoRate;
-      
-      const lfoGain = this.audioContext.createGain();
-      lfoGain.gain.value = this.params.lfoAmount * 100;
-      
-      lfo.connect(lfoGain);
-      lfoGain.connect(osc.frequency);
-      lfo.start();
-      
-      this.lfos.set(noteNumber, lfo);
-    }
-
-    // Connect nodes
-    if (!ringModOsc) {
-      // Only connect osc to filter if we didn't already in ring mod section
-      osc.connect(filter);
-    }
-    filter.connect(gainNode);
-    gainNode.connect(this.masterGain);
-
-    osc.start();
-
-    this.oscillators.set(noteNumber, osc);
-    this.gains.set(noteNumber, gainNode);
-    this.filters.set(noteNumber, filter);
-    if (ringModOsc) {
-      this.ringModOscillators.set(noteNumber, ringModOsc);
-      this.ringModGains.set(noteNumber, ringModGainsList);
+      this.updateLfoRates();
     }
-    this.activeNotes.add(noteNumber);
+
+    // Under the matrix, voices waiting for a note scheduled ahead keep the settings of its time
+    const modulating = modMatrixActive(this.baseParams.modMatrix);
+    this.soundingVoices().forEach((voice) => {
+      if (modulating && voice.triggeredAt > now) return;
+      this.updateVoiceParams(voice);
+      this.updateHeldEnvelopes(voice, previous);
+    });
   }
 
-  noteOff(noteNumber: number) {
-    const gain = this.gains.get(noteNumber);
-    const osc = this.oscillators.get(noteNumber);
-    const lfo = this.lfos.get(noteNumber);
+  private soundingVoices(): Voice[] {
+    return [...[...this.voices.values()].flat(), ...this.releasingVoices, ...this.monoVoices];
+  }
 
-    if (gain && osc) {
-      const now = this.audioContext.currentTime;
-      gain.gain.cancelScheduledValues(now);
-      gain.gain.setValueAtTime(gain.gain.value, now);
-      gain.gain.linearRampToValueAtTime(0, now + this.params.release);
+  // Oscillator or random-step source for the current waveform, already running
+  private createLfoSource(): LfoSource {
+    const now = this.audioContext.currentTime;
+    const rate = lfoRateHz(this.params, this.tempo);
 
-      osc.stop(now + this.params.release);
+    if (this.params.lfoWaveform === 'sampleHold') {
+      const steps = this.audioContext.createBufferSource();
+      steps.buffer = this.sampleHoldBuffer;
+      steps.loop = true;
+      steps.playbackRate.value = rate / SAMPLE_HOLD_BASE_RATE;
+      steps.start(now, Math.random() * this.sampleHoldBuffer.duration);
+      return steps;
     }
 
-    if (lfo) {
-      lfo.stop();
-      this.lfos.delete(noteNumber);
+    const lfo = this.audioContext.createOscillator();
+    lfo.type = this.params.lfoWaveform;
+    lfo.frequency.value = rate;
+    lfo.start(now);
+    return lfo;
+  }
+
+  private setLfoSourceRate(source: LfoSource) {
+    const now = this.audioContext.currentTime;
+    const rate = lfoRateHz(this.params, this.tempo);
+    if (source instanceof OscillatorNode) {
+      source.frequency.setTargetAtTime(rate, now, PARAM_SMOOTHING);
+    } else {
+      source.playbackRate.setTargetAtTime(rate / SAMPLE_HOLD_BASE_RATE, now, PARAM_SMOOTHING);
     }
+  }
 
-    setTimeout(() => {
-      this.oscillators.delete(noteNumber);
-      this.gains.delete(noteNumber);
-      this.filters.delete(noteNumber);
-      this.activeNotes.delete(noteNumber);
-    }, this.params.release * 1000 + 100);
+  private updateLfoRates() {
+    this.setLfoSourceRate(this.sharedLfo);
+    this.soundingVoices().forEach((voice) => {
+      if (voice.lfo) {
+        this.setLfoSourceRate(voice.lfo);
+      }
+    });
   }
 
-  updateFilterCutoff(noteNumber: number, frequency: number) {
-    const filter = this.filters.get(noteNumber);
-    if (filter) {
-      filter.frequency.setTargetAtTime(
-        frequency,
-        this.audioContext.currentTime,
-        0.01
-      );
+  private stopLfoSource(source: LfoSource) {
+    try {
+      source.stop();
+    } catch (e) {
+      // Already stopped
     }
+    source.disconnect();
   }
 
-  updateOscillatorType(_noteNumber: number, _type: OscillatorType) {
-    // Note: OscillatorType cannot be changed after starting
-    // This would require stopping and starting a new one
+  // Rebuilds every LFO source after a waveform change; sources can't switch
+  // between oscillator and sample-and-hold in place
+  private replaceLfoSources() {
+    this.stopLfoSource(this.sharedLfo);
+    this.sharedLfo = this.createLfoSource();
+    this.soundingVoices().forEach((voice) => {
+      if (voice.lfo) {
+        this.stopLfoSource(voice.lfo);
+        voice.lfo = this.createLfoSource();
+        voice.lfo.connect(voice.lfoDepth);
+      } else {
+        this.sharedLfo.connect(voice.lfoDepth);
+      }
+    });
   }
 
-  midiNoteToFrequency(noteNumber: number): number {
-    return 440 * Math.pow(2, (noteNumber - 69) / 12);
+  // Gives a voice its own LFO starting from the top of the cycle
+  private retriggerLfo(voice: Voice) {
+    if (voice.lfo) {
+      this.stopLfoSource(voice.lfo);
+    } else {
+      try {
+        this.sharedLfo.disconnect(voice.lfoDepth);
+      } catch (e) {
+        // Not connected
+      }
+    }
+    voice.lfo = this.createLfoSource();
+    voice.lfo.connect(voice.lfoDepth);
   }
 
-  frequencyToMidiNote(frequency: number): number {
-    return Math.round(69 + 12 * Math.log2(frequency / 440));
+  private getWavetableWave(): PeriodicWave {
+    if (!this.wavetableWave) {
+      const partials = morphPartials(this.params.wavetable, this.params.wavetablePosition);
+      this.wavetableWave = createWavetableWave(this.audioContext, partials);
+    }
+    return this.wavetableWave;
   }
 
-  setMasterVolume(volume: number) {
-    this.masterGain.gain.value = Math.max(0, Math.min(1, volume));
+  // Square voices run a sawtooth into the pulse comparator while the LFO modulates pulse width
+  private usesPulse(): boolean {
+    return this.params.oscillatorType === 'square' && this.params.lfoDestination === 'pulseWidth';
   }
 
-  getActiveNotes(): number[] {
-    return Array.from(this.activeNotes);
+  // Gives an oscillator the main shape
+  private shapeOscillator(osc: OscillatorNode) {
+    const { oscillatorType } = this.params;
+    if (oscillatorType === 'wavetable') {
+      osc.setPeriodicWave(this.getWavetableWave());
+    } else if (oscillatorType !== 'sample') {
+      osc.type = this.usesPulse() ? 'sawtooth' : oscillatorType;
+    }
   }
 
-  stopAllNotes() {
+  // The sample shape fades the oscillator out and plays each note's sample instead.
+  // Other shape changes crossfade to a new oscillator rather than switching with a click.
+  private applyOscillatorRouting(voice: Voice) {
+    const now = this.audioContext.currentTime;
+    const { oscillatorType } = this.params;
+    const sampled = oscillatorType === 'sample';
+    voice.sampleFader.gain.setTargetAtTime(sampled ? 1 : 0, now, SHAPE_CROSSFADE_TIME / 3);
+    if (sampled) {
+      voice.oscFader.gain.setTargetAtTime(0, now, SHAPE_CROSSFADE_TIME / 3);
+      return;
+    }
+
+    const pulse = this.usesPulse();
+    const type = oscillatorType === 'wavetable' ? 'custom' : pulse ? 'sawtooth' : oscillatorType;
+    if (voice.osc.type !== type || voice.pulse !== pulse) {
+      const { osc, fader } = this.crossfadeOscillator(voice.osc, voice.oscFader, voice.pitch, voice, (next) => {
+        this.shapeOscillator(next);
+      });
+      fader.connect(pulse ? voice.pulseShaper : voice.osc1Gain);
+      voice.osc = osc;
+      voice.oscFader = fader;
+      voice.pulse = pulse;
+      return;
+    }
+    voice.oscFader.gain.setTargetAtTime(1, now, SHAPE_CROSSFADE_TIME / 3);
+    if (oscillatorType === 'wavetable') {
+      // A new wave morphs the running oscillator in place
+      voice.osc.setPeriodicWave(this.getWavetableWave());
+    }
+  }
+
+  // Starts a new oscillator following the voice's pitch and fades it in over the old one,
+  // which is disconnected once it has faded out. The caller connects the returned fader onwards.
+  private crossfadeOscillator(
+    old: OscillatorNode,
+    oldFader: GainNode,
+    frequency: AudioNode,
+    voice: Voice,
+    shape: (osc: OscillatorNode) => void
+  ): { osc: OscillatorNode; fader: GainNode } {
+    const now = this.audioContext.currentTime;
+    const osc = this.audioContext.createOscillator();
+    shape(osc);
+    osc.frequency.value = 0;
+    frequency.connect(osc.frequency);
+    voice.detune.connect(osc.detune);
+    const fader = this.audioContext.createGain();
+    fader.gain.setValueAtTime(0, now);
+    fader.gain.linearRampToValueAtTime(1, now + SHAPE_CROSSFADE_TIME);
+    osc.connect(fader);
+    osc.start(now);
+
+    holdValue(oldFader.gain, now);
+    oldFader.gain.linearRampToValueAtTime(0, now + SHAPE_CROSSFADE_TIME);
+    // The new oscillator takes over the voice's own stop time and clean-up
+    osc.onended = old.onended;
+    if (voice.stopAt !== null) {
+      osc.stop(Math.max(now, voice.stopAt));
+    }
+    old.onended = () => {
+      frequency.disconnect(old.frequency);
+      voice.detune.disconnect(old.detune);
+      oldFader.disconnect();
+    };
+    try {
+      old.stop(now + SHAPE_CROSSFADE_TIME);
+    } catch (e) {
+      // Already stopped
+    }
+    return { osc, fader };
+  }
+
+  // Sets the second oscillator, sub and noise sources and the mixer levels
+  private updateMixer(voice: Voice) {
     const now = this.audioContext.currentTime;
-    
-    // Stop all oscillators immediately
-    this.oscillators.forEach((osc) => {
+    const { osc2Type, osc2Level, osc2Sync, noiseType } = this.params;
+    const ratio = osc2Ratio(this.params);
+
+    if (voice.osc2.type !== osc2Type) {
+      const { osc, fader } = this.crossfadeOscillator(voice.osc2, voice.osc2Fader, voice.osc2Ratio, voice, (next) => {
+        next.type = osc2Type;
+      });
+      fader.connect(voice.osc2Gain);
+      voice.osc2 = osc;
+      voice.osc2Fader = fader;
+    }
+    voice.osc2Ratio.gain.setTargetAtTime(ratio, now, 0.01);
+    voice.subRatio.gain.setTargetAtTime(subRatio(this.params), now, 0.01);
+    if (voice.syncOsc) {
+      voice.syncOsc.parameters.get('ratio')?.setTargetAtTime(ratio, now, 0.01);
+      voice.syncOsc.parameters.get('shape')?.setValueAtTime(syncShapeIndex(osc2Type), now);
+    }
+
+    // A buffer source can't change its buffer, so a new noise colour needs a new source
+    if (voice.noise.buffer !== this.noiseBuffers[noiseType]) {
       try {
-        osc.stop(now);
+        voice.noise.stop();
       } catch (e) {
         // Already stopped
       }
+      voice.noise.disconnect();
+      voice.noise = this.createNoiseSource(noiseType);
+      voice.noise.connect(voice.noiseGain);
+    }
+
+    // While synced the worklet oscillator stands in for the free-running one
+    const synced = osc2Sync && voice.syncOsc !== null;
+    voice.osc1Gain.gain.setTargetAtTime(this.params.osc1Level, now, PARAM_SMOOTHING);
+    voice.osc2Gain.gain.setTargetAtTime(synced ? 0 : osc2Level, now, PARAM_SMOOTHING);
+    voice.syncGain.gain.setTargetAtTime(synced ? osc2Level : 0, now, PARAM_SMOOTHING);
+    voice.subGain.gain.setTargetAtTime(this.params.subLevel, now, PARAM_SMOOTHING);
+    voice.noiseGain.gain.setTargetAtTime(this.params.noiseLevel, now, PARAM_SMOOTHING);
+  }
+
+  private createNoiseSource(type: NoiseType): AudioBufferSourceNode {
+    const noise = this.audioContext.createBufferSource();
+    noise.buffer = this.noiseBuffers[type];
+    noise.loop = true;
+    noise.start(this.audioContext.currentTime, Math.random() * NOISE_BUFFER_SECONDS);
+    return noise;
+  }
+
+  // Hard sync needs sample-accurate phase resets, which only the worklet can do
+  private createSyncOscillator(voice: Voice): AudioWorkletNode | null {
+    if (!this.workletsLoaded) return null;
+    try {
+      const syncOsc = new AudioWorkletNode(this.audioContext, SYNC_OSCILLATOR_PROCESSOR, {
+        outputChannelCount: [1],
+      });
+      const frequency = syncOsc.parameters.get('frequency')!;
+      frequency.value = 0;
+      voice.pitch.connect(frequency);
+      voice.detune.connect(syncOsc.parameters.get('detune')!);
+      syncOsc.connect(voice.syncGain);
+      return syncOsc;
+    } catch (e) {
+      console.warn('Failed to create sync oscillator:', e);
+      return null;
+    }
+  }
+
+  // Biquad response for the filter type; the ladder falls back to a plain lowpass
+  private biquadType(): BiquadFilterType {
+    return this.params.filterType === 'ladder' ? 'lowpass' : this.params.filterType;
+  }
+
+  // Cutoff or resonance parameters of every filter the voice has
+  private filterParams(voice: Voice, name: 'frequency' | 'Q'): AudioParam[] {
+    const params = [voice.filter[name]];
+    const ladderParam = voice.ladder?.parameters.get(name === 'frequency' ? 'cutoff' : 'resonance');
+    if (ladderParam) {
+      params.push(ladderParam);
+    }
+    return params;
+  }
+
+  private createLadder(voice: Voice): AudioWorkletNode | null {
+    try {
+      const ladder = new AudioWorkletNode(this.audioContext, LADDER_FILTER_PROCESSOR, {
+        channelCount: 1,
+        channelCountMode: 'explicit',
+        outputChannelCount: [1],
+      });
+      ladder.parameters.get('cutoff')!.value = voice.filter.frequency.value;
+      ladder.parameters.get('resonance')!.value = voice.filter.Q.value;
+      const detune = ladder.parameters.get('detune')!;
+      detune.value = 0;
+      voice.cutoffMod.connect(detune);
+      ladder.connect(voice.tremolo);
+      return ladder;
+    } catch (e) {
+      console.warn('Failed to create ladder filter:', e);
+      return null;
+    }
+  }
+
+  private updateFilterRouting(voice: Voice) {
+    if (this.params.filterType === 'ladder' && this.workletsLoaded && !voice.ladder) {
+      voice.ladder = this.createLadder(voice);
+    }
+    const ladderActive = this.params.filterType === 'ladder' && voice.ladder !== null;
+    if (voice.ladderActive !== ladderActive) {
+      voice.ringModVCA.disconnect();
+      voice.ringModVCA.connect(ladderActive ? voice.ladder! : voice.filter);
+      voice.ladderActive = ladderActive;
+    }
+  }
+
+  private lfoTarget(voice: Voice): AudioNode | AudioParam | undefined {
+    switch (this.params.lfoDestination) {
+      case 'pitch':
+        return voice.detune.offset;
+      case 'cutoff':
+        return voice.cutoffMod.offset;
+      case 'amplitude':
+        return voice.tremolo.gain;
+      case 'pan':
+        return voice.panner.pan;
+      case 'pulseWidth':
+        return voice.pulse ? voice.pulseShaper : undefined;
+    }
+  }
+
+  private updateLfoRouting(voice: Voice) {
+    const now = this.audioContext.currentTime;
+    const { lfoDestination, lfoAmount } = this.params;
+
+    // Reconnect the depth gain when the destination changes; going through a
+    // gain adds the LFO to the target rather than replacing its value
+    const route = `${lfoDestination}:${voice.pulse}`;
+    if (voice.lfoRoute !== route) {
+      voice.lfoDepth.disconnect();
+      const target = this.lfoTarget(voice);
+      if (target instanceof AudioParam) {
+        voice.lfoDepth.connect(target);
+      } else if (target) {
+        voice.lfoDepth.connect(target);
+      }
+      voice.lfoRoute = route;
+    }
+    voice.lfoDepth.gain.setTargetAtTime(lfoDepthFor(lfoDestination, lfoAmount), now, PARAM_SMOOTHING);
+    voice.tremolo.gain.setTargetAtTime(tremoloBaseGain(lfoDestination, lfoAmount), now, PARAM_SMOOTHING);
+    // The pan LFO swings around the copy's place in the unison spread
+    voice.panner.pan.setTargetAtTime(unisonPan(this.params, voice.unisonPosition), now, PARAM_SMOOTHING);
+  }
+
+  private voiceDetune(voice: Pick<Voice, 'unisonPosition'>): number {
+    return this.params.detuneAmount + unisonDetuneCents(this.params, voice.unisonPosition);
+  }
+
+  private updateVoiceParams(voice: Voice) {
+    const now = this.audioContext.currentTime;
+
+    voice.filter.type = this.biquadType();
+    this.updateFilterRouting(voice);
+    this.filterParams(voice, 'frequency').forEach((param) => {
+      param.setTargetAtTime(this.params.cutoff, now, PARAM_SMOOTHING);
+    });
+    this.filterParams(voice, 'Q').forEach((param) => {
+      param.setTargetAtTime(this.params.resonance * (1 + voice.accentLevel * 0.5), now, PARAM_SMOOTHING);
+    });
+    voice.cutoffMod.offset.setTargetAtTime(keyTrackCents(this.params, voice.frequency), now, PARAM_SMOOTHING);
+    voice.filterEnvDepth.gain.setTargetAtTime(
+      filterEnvDepthCents(this.params, voice.velocity, voice.accentLevel),
+      now,
+      PARAM_SMOOTHING
+    );
+
+    this.applyOscillatorRouting(voice);
+    this.updateMixer(voice);
+    voice.sampleRatio.gain.setValueAtTime(samplePitchScale(this.params.sample), now);
+    if (voice.sample) {
+      applySampleLoop(voice.sample, this.params.sample);
+    }
+    this.updateLfoRouting(voice);
+    voice.detune.offset.setTargetAtTime(this.voiceDetune(voice), now, PARAM_SMOOTHING);
+    this.applyRingMod(voice);
+  }
+
+  // Peak of the amp envelope for the voice's note
+  private voicePeak(voice: Voice): number {
+    return voice.velocity * (1 + voice.accentLevel * 0.5) * voice.level;
+  }
+
+  // Moves a held note to changed envelope levels; released notes finish the release they started
+  private updateHeldEnvelopes(voice: Voice, previous: SynthesizerParams) {
+    const now = this.audioContext.currentTime;
+    // Notes scheduled ahead keep the envelope they were given
+    if (voice.releasedAt >= voice.triggeredAt || voice.triggeredAt > now) return;
+    const elapsed = now - voice.triggeredAt;
+
+    if (
+      previous.attack !== this.params.attack ||
+      previous.decay !== this.params.decay ||
+      previous.sustain !== this.params.sustain
+    ) {
+      const { delay, timeConstant } = sustainRetarget(this.params, elapsed);
+      this.retargetEnvelope(voice.amp.gain, this.voicePeak(voice), this.params.sustain, now, delay, timeConstant);
+    }
+    if (
+      previous.filterAttack !== this.params.filterAttack ||
+      previous.filterDecay !== this.params.filterDecay ||
+      previous.filterSustain !== this.params.filterSustain
+    ) {
+      const { delay, timeConstant } = sustainRetarget(
+        { attack: this.params.filterAttack, decay: this.params.filterDecay },
+        elapsed
+      );
+      this.retargetEnvelope(voice.filterEnv.offset, 1, this.params.filterSustain, now, delay, timeConstant);
+    }
+  }
+
+  // Reschedules an envelope from its current level: up to the peak if still in its attack, then to the sustain level
+  private retargetEnvelope(
+    param: AudioParam,
+    peak: number,
+    sustain: number,
+    now: number,
+    delay: number,
+    timeConstant: number
+  ) {
+    holdValue(param, now);
+    if (delay > 0) {
+      param.linearRampToValueAtTime(peak, now + delay);
+    }
+    param.setTargetAtTime(sustain * peak, now + delay, timeConstant);
+  }
+
+  private ringModFrequency(noteFrequency: number): number {
+    return this.params.ringModMode === 'fixed'
+      ? this.params.ringModFrequency
+      : noteFrequency * this.params.ringModRatio;
+  }
+
+  private applyRingMod(voice: Voice) {
+    // The VCA passes (1 - amount) of the dry signal and the modulator adds
+    // amount * sine, so 0 is clean, in between is AM and 1 is pure ring mod
+    const now = this.audioContext.currentTime;
+    const amount = Math.max(0, Math.min(1, this.params.ringModAmount));
+    voice.ringModVCA.gain.setTargetAtTime(1 - amount, now, 0.01);
+    voice.ringModDepth.gain.setTargetAtTime(amount, now, 0.01);
+    voice.ringModOsc.frequency.setTargetAtTime(this.ringModFrequency(voice.frequency), now, 0.01);
+  }
+
+  // Builds one voice; unison copies pass their place in the stack and the stack size
+  private createVoice(frequency: number, unisonPosition: number = 0, unisonVoices: number = 1): Voice {
+    const now = this.audioContext.currentTime;
+
+    // Every oscillator follows the voice's pitch and detune sources, so glides
+    // and the pitch LFO move them together
+    const pitch = this.audioContext.createConstantSource();
+    pitch.offset.setValueAtTime(frequency, now);
+    const detune = this.audioContext.createConstantSource();
+    detune.offset.value = this.voiceDetune({ unisonPosition });
+
+    const osc = this.audioContext.createOscillator();
+    this.shapeOscillator(osc);
+    const osc2 = this.audioContext.createOscillator();
+    osc2.type = this.params.osc2Type;
+    const osc2RatioGain = this.audioContext.createGain();
+    osc2RatioGain.gain.value = osc2Ratio(this.params);
+    const sub = this.audioContext.createOscillator();
+    sub.type = 'square';
+    const subRatioGain = this.audioContext.createGain();
+    subRatioGain.gain.value = subRatio(this.params);
+    [osc, osc2, sub].forEach((oscillator) => {
+      oscillator.frequency.value = 0;
+      detune.connect(oscillator.detune);
+    });
+    pitch.connect(osc.frequency);
+    const sampleRatio = this.audioContext.createGain();
+    sampleRatio.gain.value = samplePitchScale(this.params.sample);
+    pitch.connect(sampleRatio);
+    pitch.connect(osc2RatioGain);
+    osc2RatioGain.connect(osc2.frequency);
+    pitch.connect(subRatioGain);
+    subRatioGain.connect(sub.frequency);
+    const noise = this.createNoiseSource(this.params.noiseType);
+
+    // Ring modulator: a sine modulator drives the gain of a VCA after the mixer
+    const ringModAmount = Math.max(0, Math.min(1, this.params.ringModAmount));
+    const ringModVCA = this.audioContext.createGain();
+    ringModVCA.gain.value = 1 - ringModAmount;
+    const ringModDepth = this.audioContext.createGain();
+    ringModDepth.gain.value = ringModAmount;
+    const ringModOsc = this.audioContext.createOscillator();
+    ringModOsc.type = 'sine';
+    ringModOsc.frequency.value = this.ringModFrequency(frequency);
+    ringModOsc.connect(ringModDepth);
+    ringModDepth.connect(ringModVCA.gain);
+
+    const filter = this.audioContext.createBiquadFilter();
+    filter.type = this.biquadType();
+    filter.frequency.value = this.params.cutoff;
+    filter.Q.value = this.params.resonance;
+    filter.detune.value = 0;
+    const cutoffMod = this.audioContext.createConstantSource();
+    cutoffMod.offset.value = keyTrackCents(this.params, frequency);
+    cutoffMod.connect(filter.detune);
+
+    // Filter envelope: a 0-1 envelope scaled to cents and added to the cutoff offset
+    const filterEnv = this.audioContext.createConstantSource();
+    filterEnv.offset.value = 0;
+    const filterEnvDepth = this.audioContext.createGain();
+    filterEnvDepth.gain.value = 0;
+    filterEnv.connect(filterEnvDepth);
+    filterEnvDepth.connect(cutoffMod.offset);
+
+    const pulseShaper = this.audioContext.createWaveShaper();
+    pulseShaper.curve = PULSE_CURVE;
+    const tremolo = this.audioContext.createGain();
+    const amp = this.audioContext.createGain();
+    amp.gain.value = 0;
+    const panner = this.audioContext.createStereoPanner();
+    panner.pan.value = unisonPan(this.params, unisonPosition);
+    const phaseDelay = this.audioContext.createDelay(MAX_PHASE_DELAY);
+    phaseDelay.delayTime.value = unisonPhaseDelay(unisonVoices, frequency);
+    phaseDelay.connect(ringModVCA);
+
+    // Mixer: each source has its own level into the ring mod VCA, through the phase delay
+    const mixerGain = () => {
+      const gain = this.audioContext.createGain();
+      gain.gain.value = 0;
+      gain.connect(phaseDelay);
+      return gain;
+    };
+    const osc1Gain = mixerGain();
+    const osc2Gain = mixerGain();
+    const syncGain = mixerGain();
+    const subGain = mixerGain();
+    const noiseGain = mixerGain();
+    const sampled = this.params.oscillatorType === 'sample';
+    const pulse = this.usesPulse();
+    const oscFader = this.audioContext.createGain();
+    oscFader.gain.value = sampled ? 0 : 1;
+    const sampleFader = this.audioContext.createGain();
+    sampleFader.gain.value = sampled ? 1 : 0;
+    const osc2Fader = this.audioContext.createGain();
+    osc.connect(oscFader);
+    oscFader.connect(pulse ? pulseShaper : osc1Gain);
+    sampleFader.connect(osc1Gain);
+    osc2.connect(osc2Fader);
+    osc2Fader.connect(osc2Gain);
+    sub.connect(subGain);
+    noise.connect(noiseGain);
+
+    // osc -> fader (-> pulse comparator) -> mixer -> phase delay -> ring mod VCA -> filter or ladder -> tremolo -> amp -> panner -> voice bus (drive) -> masterGain
+    pulseShaper.connect(osc1Gain);
+    ringModVCA.connect(filter);
+    filter.connect(tremolo);
+    tremolo.connect(amp);
+    amp.connect(panner);
+    panner.connect(this.voiceBus);
+
+    // The voice follows the shared free-running LFO until a key retrigger gives it its own
+    const lfoDepth = this.audioContext.createGain();
+    lfoDepth.gain.value = 0;
+    this.sharedLfo.connect(lfoDepth);
+
+    [pitch, detune, osc, osc2, sub, cutoffMod].forEach((source) => source.start(now));
+    ringModOsc.start(now);
+    filterEnv.start(now);
+
+    const voice: Voice = {
+      pitch,
+      detune,
+      osc,
+      oscFader,
+      sampleRatio,
+      sample: null,
+      osc2,
+      osc2Fader,
+      osc2Ratio: osc2RatioGain,
+      syncOsc: null,
+      sub,
+      subRatio: subRatioGain,
+      noise,
+      osc1Gain,
+      sampleFader,
+      osc2Gain,
+      syncGain,
+      subGain,
+      noiseGain,
+      phaseDelay,
+      pulseShaper,
+      pulse,
+      ringModVCA,
+      ringModDepth,
+      ringModOsc,
+      filter,
+      ladder: null,
+      ladderActive: false,
+      cutoffMod,
+      filterEnv,
+      filterEnvDepth,
+      amp,
+      tremolo,
+      panner,
+      lfo: null,
+      lfoDepth,
+      lfoRoute: null,
+      frequency,
+      unisonPosition,
+      level: unisonGain(unisonVoices),
+      velocity: 1,
+      accentLevel: 0,
+      startedAt: now,
+      triggeredAt: now,
+      releasedAt: now,
+      stopAt: null,
+    };
+    voice.syncOsc = this.createSyncOscillator(voice);
+    this.applyOscillatorRouting(voice);
+    this.updateMixer(voice);
+    this.updateFilterRouting(voice);
+    this.updateLfoRouting(voice);
+    return voice;
+  }
+
+  // Starts the amp and filter envelopes for a voice
+  private triggerVoice(voice: Voice, velocity: number, accentLevel: number, now: number) {
+    voice.velocity = velocity;
+    voice.accentLevel = accentLevel;
+    voice.triggeredAt = now;
+    this.filterParams(voice, 'Q').forEach((param) => {
+      param.setValueAtTime(this.params.resonance * (1 + accentLevel * 0.5), now);
     });
+    if (this.params.lfoRetrigger) {
+      this.retriggerLfo(voice);
+    }
+
+    // Velocity and accent scale how far the filter envelope sweeps
+    voice.filterEnvDepth.gain.setValueAtTime(filterEnvDepthCents(this.params, velocity, accentLevel), now);
+    const filterAttack = Math.max(0.001, this.params.filterAttack);
+    const env = voice.filterEnv.offset;
+    holdValue(env, now);
+    env.linearRampToValueAtTime(1, now + filterAttack);
+    env.setTargetAtTime(this.params.filterSustain, now + filterAttack, Math.max(0.001, this.params.filterDecay) / 3);
+
+    // ADSR amp envelope, starting from the current level so retriggers don't click
+    const peak = this.voicePeak(voice);
+    const attack = Math.max(0.001, this.params.attack);
+    const gain = voice.amp.gain;
+    holdValue(gain, now);
+    gain.linearRampToValueAtTime(peak, now + attack);
+    gain.linearRampToValueAtTime(this.params.sustain * peak, now + attack + this.params.decay);
+    this.startSample(voice, now);
+  }
+
+  private releaseVoice(voice: Voice, now: number) {
+    voice.releasedAt = now;
+    const gain = voice.amp.gain;
+    holdValue(gain, now);
+    gain.linearRampToValueAtTime(0, now + this.params.release);
+    // A looping sample stops once the release has faded out
+    this.stopSample(voice, now + this.params.release + 0.05, false);
+
+    const env = voice.filterEnv.offset;
+    holdValue(env, now);
+    env.setTargetAtTime(0, now, Math.max(0.001, this.params.filterRelease) / 3);
+  }
+
+  // Plays the sample from its start offset for a new note, cutting off the previous one
+  private startSample(voice: Voice, now: number) {
+    this.stopSample(voice, now);
+    if (this.params.oscillatorType !== 'sample' || !this.sampleBuffer) return;
 
-    // Stop all ring mod oscillators
-    this.ringModOscillators.forEach((osc) => {
+    const { source, offset } = createSampleSource(this.audioContext, this.sampleBuffer, this.params.sample);
+    voice.sampleRatio.connect(source.playbackRate);
+    voice.detune.connect(source.detune);
+    source.connect(voice.sampleFader);
+    source.onended = () => {
+      source.disconnect();
+      voice.sampleRatio.disconnect(source.playbackRate);
+      voice.detune.disconnect(source.detune);
+      if (voice.sample === source) {
+        voice.sample = null;
+      }
+    };
+    source.start(now, offset);
+    voice.sample = source;
+  }
+
+  // Schedules the sample to stop. A released voice keeps hold of it so that a
+  // new note can still cut it short.
+  private stopSample(voice: Voice, when: number, forget: boolean = true) {
+    if (!voice.sample) return;
+    try {
+      voice.sample.stop(when);
+    } catch (e) {
+      // Already stopped
+    }
+    if (forget) {
+      voice.sample = null;
+    }
+  }
+
+  // Stops a voice's sources once it has faded out
+  private stopVoice(voice: Voice, when: number) {
+    voice.stopAt = when;
+    [
+      voice.pitch,
+      voice.detune,
+      voice.osc,
+      voice.osc2,
+      voice.sub,
+      voice.noise,
+      voice.ringModOsc,
+      voice.cutoffMod,
+      voice.filterEnv,
+      voice.lfo,
+      voice.sample,
+    ].forEach((source) => {
       try {
-        osc.stop(now);
+        source?.stop(when);
       } catch (e) {
         // Already stopped
       }
     });
-
-    // Stop all LFOs
-    this.lfos.forEach((lfo) => {
+    voice.osc.onended = () => {
+      voice.panner.disconnect();
+      voice.syncOsc?.disconnect();
+      voice.ladder?.disconnect();
       try {
-        lfo.stop();
+        this.sharedLfo.disconnect(voice.lfoDepth);
       } catch (e) {
-        // Already stopped
+        // Voice had its own LFO
+      }
+      this.releasingVoices.delete(voice);
+    };
+  }
+
+  // Frees voices until the new ones fit the polyphony limit, counting the mono
+  // voices as the Tone engine's pool does: the release tail let go longest ago
+  // goes first, otherwise held voices are stolen with a short fade. A held note
+  // stays active until its last unison copy is taken.
+  private makeRoomForVoices(count: number, now: number) {
+    const limit = clampPolyphony(this.params.maxPolyphony);
+    const heldCount = () =>
+      [...this.voices.values()].reduce((total, copies) => total + copies.length, this.monoVoices.length);
+    while (heldCount() + this.releasingVoices.size + count > limit) {
+      const releasing = Array.from(this.releasingVoices);
+      let victim =
+        releasing.length > 0
+          ? releasing.reduce((oldest, voice) => (voice.releasedAt < oldest.releasedAt ? voice : oldest))
+          : undefined;
+      if (victim) {
+        this.releasingVoices.delete(victim);
+      } else {
+        victim = pickVoiceToSteal([...this.voices.values()].flat(), this.params.voiceStealing, (voice) => voice.amp.gain.value);
+        if (!victim) return;
+        this.voices.forEach((copies, note) => {
+          if (!copies.includes(victim!)) return;
+          const remaining = copies.filter((voice) => voice !== victim);
+          if (remaining.length > 0) {
+            this.voices.set(note, remaining);
+          } else {
+            this.voices.delete(note);
+            this.activeNotes.delete(note);
+          }
+        });
+      }
+
+      const gain = victim.amp.gain;
+      holdValue(gain, now);
+      gain.linearRampToValueAtTime(0, now + STEAL_FADE_TIME);
+      this.stopVoice(victim, now + STEAL_FADE_TIME);
+    }
+  }
+
+  // Moves a sounding voice to a new pitch without touching its envelopes
+  private glideVoice(voice: Voice, frequency: number, glideTime: number, now: number) {
+    const pitch = voice.pitch.offset;
+    holdValue(pitch, now);
+    if (glideTime > 0) {
+      pitch.exponentialRampToValueAtTime(frequency, now + glideTime);
+    } else {
+      pitch.setValueAtTime(frequency, now);
+    }
+    voice.frequency = frequency;
+
+    const timeConstant = Math.max(0.01, glideTime) / 3;
+    voice.cutoffMod.offset.setTargetAtTime(keyTrackCents(this.params, frequency), now, timeConstant);
+    if (this.params.ringModMode === 'track') {
+      voice.ringModOsc.frequency.setTargetAtTime(this.ringModFrequency(frequency), now, timeConstant);
+    }
+  }
+
+  noteOn(noteNumber: number, velocity: number = 1, slideTime: number = 0, accent: boolean = false, time?: number) {
+    // Keys the tuning's keyboard mapping leaves out stay silent
+    if (this.tuningTable[noteNumber] === null) return;
+    const now = time ?? this.audioContext.currentTime;
+
+    if (this.params.voiceMode !== 'mono' && this.activeNotes.has(noteNumber)) {
+      this.noteOff(noteNumber, now);
+    }
+
+    // The note starts from the settings modulated at its own time, which may be ahead
+    // of the clock; voices already sounding follow once the control updates reach it
+    this.modSources.noteOn(noteNumber, velocity, now);
+    this.withParamsAt(now, () => {
+      if (this.params.voiceMode === 'mono') {
+        this.monoNoteOn(noteNumber, velocity, slideTime, accent, now);
+      } else {
+        this.polyNoteOn(noteNumber, velocity, slideTime, accent, now);
       }
     });
+  }
 
-    // Mute all gains immediately (set to 0, don't disconnect)
-    this.gains.forEach((gain) => {
-      try {
-        gain.gain.cancelScheduledValues(now);
-        gain.gain.setValueAtTime(0, now);
-      } catch (e) {
-        // Already muted
+  private polyNoteOn(noteNumber: number, velocity: number, slideTime: number, accent: boolean, now: number) {
+    const frequency = this.midiNoteToFrequency(noteNumber);
+    const accentLevel = this.accent.next(accent, now, this.params.accentAmount);
+    const count = unisonCount(this.params);
+    this.makeRoomForVoices(count, now);
+
+    // Poly slides start fresh voices at the previous pitch and bend them in
+    const slideFrom = slideTime > 0 ? this.lastFrequency : null;
+    const voices = this.createVoices(slideFrom ?? frequency, count);
+    voices.forEach((voice) => {
+      if (slideFrom !== null) {
+        this.glideVoice(voice, frequency, slideTime, now);
       }
+      this.triggerVoice(voice, velocity, accentLevel, now);
     });
 
-    // Mute all ring mod gains
-    this.ringModGains.forEach((gainsList) => {
-      gainsList.forEach((gain) => {
-        try {
-          gain.gain.cancelScheduledValues(now);
-          gain.gain.setValueAtTime(0, now);
-        } catch (e) {
-          // Already muted
-        }
+    this.voices.set(noteNumber, voices);
+    this.activeNotes.add(noteNumber);
+    this.lastFrequency = frequency;
+  }
+
+  // One voice per unison copy, each with its own detune, stereo position and start phase
+  private createVoices(frequency: number, count: number): Voice[] {
+    return unisonPositions(count).map((position) => this.createVoice(frequency, position, count));
+  }
+
+  private monoNoteOn(noteNumber: number, velocity: number, slideTime: number, accent: boolean, now: number) {
+    const frequency = this.midiNoteToFrequency(noteNumber);
+    const gateOpen = this.monoNoteStack.length > 0;
+
+    // Last-note priority: the newest note goes to the top of the stack
+    this.monoNoteStack = this.monoNoteStack.filter((note) => note !== noteNumber);
+    this.monoNoteStack.push(noteNumber);
+    this.activeNotes.add(noteNumber);
+    this.lastFrequency = frequency;
+
+    if (this.monoVoices.length > 0 && gateOpen && slideTime > 0) {
+      // Slide: glide the running oscillators without retriggering anything
+      this.monoVoices.forEach((voice) => this.glideVoice(voice, frequency, slideTime, now));
+      return;
+    }
+
+    const accentLevel = this.accent.next(accent, now, this.params.accentAmount);
+    if (this.monoVoices.length === 0) {
+      const count = unisonCount(this.params);
+      this.makeRoomForVoices(count, now);
+      this.monoVoices = this.createVoices(frequency, count);
+    } else {
+      this.monoVoices.forEach((voice) => this.glideVoice(voice, frequency, 0, now));
+    }
+    this.monoVoices.forEach((voice) => this.triggerVoice(voice, velocity, accentLevel, now));
+  }
+
+  private monoNoteOff(noteNumber: number, now: number) {
+    const wasTop = this.monoNoteStack[this.monoNoteStack.length - 1] === noteNumber;
+    this.monoNoteStack = this.monoNoteStack.filter((note) => note !== noteNumber);
+    this.activeNotes.delete(noteNumber);
+
+    if (this.monoVoices.length === 0 || !wasTop) return;
+
+    if (this.monoNoteStack.length > 0) {
+      // Fall back to the most recent note still held, legato
+      const previous = this.monoNoteStack[this.monoNoteStack.length - 1];
+      const frequency = this.midiNoteToFrequency(previous);
+      this.monoVoices.forEach((voice) => this.glideVoice(voice, frequency, this.params.glideTime, now));
+    } else {
+      this.monoVoices.forEach((voice) => this.releaseVoice(voice, now));
+    }
+  }
+
+  private releaseMonoVoice() {
+    const voices = this.monoVoices;
+    if (voices.length === 0) return;
+
+    this.monoVoices = [];
+    this.monoNoteStack.forEach((note) => this.activeNotes.delete(note));
+    this.monoNoteStack = [];
+    const now = this.audioContext.currentTime;
+    voices.forEach((voice) => {
+      this.releaseVoice(voice, now);
+      this.stopVoice(voice, now + this.params.release + 0.05);
+      this.releasingVoices.add(voice);
+    });
+  }
+
+  noteOff(noteNumber: number, time?: number) {
+    const now = time ?? this.audioContext.currentTime;
+    this.modSources.noteOff(noteNumber, now);
+    if (this.monoNoteStack.includes(noteNumber)) {
+      this.monoNoteOff(noteNumber, now);
+      return;
+    }
+
+    const voices = this.voices.get(noteNumber);
+    if (voices) {
+      voices.forEach((voice) => {
+        this.releaseVoice(voice, now);
+        this.stopVoice(voice, now + this.params.release + 0.05);
+        this.releasingVoices.add(voice);
+      });
+      this.voices.delete(noteNumber);
+      this.activeNotes.delete(noteNumber);
+    }
+  }
+
+  updateFilterCutoff(noteNumber: number, frequency: number) {
+    this.voices.get(noteNumber)?.forEach((voice) => {
+      this.filterParams(voice, 'frequency').forEach((param) => {
+        param.setTargetAtTime(frequency, this.audioContext.currentTime, 0.01);
       });
     });
+  }
+
+  updateOscillatorType(_noteNumber: number, _type: OscillatorShape) {
+    // Note: OscillatorType cannot be changed after starting
+    // This would require stopping and starting a new one
+  }
+
+  triggerDrum(drum: DrumType, settings: DrumVoiceSettings, velocity: number = 1, time?: number) {
+    this.drums.trigger(drum, settings, time ?? this.audioContext.currentTime, velocity);
+  }
+
+  setSample(buffer: AudioBuffer | null) {
+    this.sampleBuffer = buffer;
+  }
+
+  setSequencerStep(step: number, length: number, time?: number) {
+    this.modSources.setStep(step, length, time ?? this.audioContext.currentTime);
+  }
+
+  setControlChange(controller: number, value: number) {
+    this.modSources.setController(controller, value);
+  }
 
-    // Clear all tracking maps
-    this.oscillators.clear();
-    this.gains.clear();
-    this.filters.clear();
-    this.lfos.clear();
-    this.ringModOscillators.clear();
-    this.ringModGains.clear();
+  updateModulation() {
+    if (modMatrixActive(this.baseParams.modMatrix)) {
+      this.applyParams();
+    }
+  }
+
+  midiNoteToFrequency(noteNumber: number): number {
+    return tunedFrequency(this.tuningTable, noteNumber);
+  }
+
+  frequencyToMidiNote(frequency: number): number {
+    return Math.round(69 + 12 * Math.log2(frequency / 440));
+  }
+
+  setMasterVolume(volume: number) {
+    this.masterGain.gain.setTargetAtTime(Math.max(0, Math.min(1, volume)), this.audioContext.currentTime, PARAM_SMOOTHING);
+  }
+
+  setTempo(bpm: number) {
+    this.tempo = bpm;
+    if (this.params.lfoSync) {
+      this.updateLfoRates();
+    }
+    this.inserts.update(this.params, this.tempo);
+  }
+
+  getActiveNotes(): number[] {
+    return Array.from(this.activeNotes);
+  }
+
+  stopAllNotes() {
+    const now = this.audioContext.currentTime;
+    const stopped = this.soundingVoices();
+
+    // Fade every voice out quickly and stop its sources. Holding the gain drops
+    // the envelopes of notes scheduled ahead too, so they never start.
+    stopped.forEach((voice) => {
+      const gain = voice.amp.gain;
+      holdValue(gain, now);
+      gain.linearRampToValueAtTime(0, now + STEAL_FADE_TIME);
+      this.stopVoice(voice, now + STEAL_FADE_TIME);
+    });
+
+    this.voices.clear();
+    this.releasingVoices.clear();
+    this.monoVoices = [];
+    this.monoNoteStack = [];
     this.activeNotes.clear();
   }
 
+  connectTap(node: AudioNode) {
+    this.inserts.output.connect(node);
+  }
+
+  disconnectTap(node: AudioNode) {
+    this.inserts.output.disconnect(node);
+  }
+
+  createWorkletNode(processor: string, options?: AudioWorkletNodeOptions): AudioWorkletNode {
+    return new AudioWorkletNode(this.audioContext, processor, options);
+  }
+
+  async whenReady() {
+    // Build a reverb change still waiting for its control to settle now
+    if (this.reverbUpdateTimeout) {
+      clearTimeout(this.reverbUpdateTimeout);
+      this.reverbUpdateTimeout = null;
+      this.reverb.buffer = this.makeReverbImpulse(this.params.reverbDecay);
+    }
+    await this.workletsReady;
+  }
+
   suspend() {
-    if (this.audioContext.state === 'running') {
+    if (this.audioContext instanceof AudioContext && this.audioContext.state === 'running') {
       this.audioContext.suspend();
     }
   }
 
   resume() {
-    if (this.audioContext.state === 'suspended') {
+    if (this.audioContext instanceof AudioContext && this.audioContext.state === 'suspended') {
       this.audioContext.resume();
     }
   }
 
   getAudioContext(): AudioContext {
-    return this.audioContext;
+    return this.audioContext as AudioContext;
+  }
+
+  dispose() {
+    this.disposed = true;
+    if (this.reverbUpdateTimeout) {
+      clearTimeout(this.reverbUpdateTimeout);
+      this.reverbUpdateTimeout = null;
+    }
+    this.stopAllNotes();
+    this.stopLfoSource(this.sharedLfo);
+    this.drums.dispose();
+    this.inserts.dispose();
+    if (this.audioContext instanceof AudioContext) {
+      this.audioContext.close().catch((e) => {
+        console.warn('Failed to close audio context:', e);
+      });
+    }
   }
 }
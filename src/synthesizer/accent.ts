@@ -0,0 +1,27 @@
+// 303-style accent tracking shared by both engines
+
+// Consecutive accents build on the charge left by the previous one, which
+// decays with this time constant, up to a maximum level
+const ACCENT_STACK_TIME = 0.5;
+const ACCENT_STACK_GAIN = 0.5;
+const ACCENT_STACK_MAX = 2;
+
+export class AccentTracker {
+  private level = 0;
+  private lastAccentTime = 0;
+
+  // Returns the accent level for a note starting at `now`, scaled by amount
+  next(accent: boolean, now: number, amount: number): number {
+    if (!accent) {
+      // An unaccented note breaks the run of accents
+      this.level = 0;
+      return 0;
+    }
+
+    const elapsed = now - this.lastAccentTime;
+    const carried = this.level * Math.exp(-elapsed / ACCENT_STACK_TIME);
+    this.level = Math.min(ACCENT_STACK_MAX, 1 + carried * ACCENT_STACK_GAIN);
+    this.lastAccentTime = now;
+    return this.level * amount;
+  }
+}
@@ -0,0 +1,210 @@
+// Arpeggiator between the keyboard or MIDI input and the engine: plays held keys one
+// at a time at a note division of the sequencer tempo. Like the sequencer clock, it
+// hands out each note shortly ahead with its time on the audio clock, so timer
+// lateness doesn't reach the rhythm.
+import { LfoSyncDivision } from './SynthEngine';
+import { divisionBeats } from './lfo';
+import { SCHEDULE_AHEAD, TICK_INTERVAL } from './sequencerClock';
+
+export type ArpMode = 'up' | 'down' | 'upDown' | 'random' | 'asPlayed';
+
+export const ARP_MODES: { value: ArpMode; label: string }[] = [
+  { value: 'up', label: 'Up' },
+  { value: 'down', label: 'Down' },
+  { value: 'upDown', label: 'Up-Down' },
+  { value: 'random', label: 'Random' },
+  { value: 'asPlayed', label: 'As Played' },
+];
+
+export const ARP_MAX_OCTAVES = 4;
+
+export interface ArpeggiatorSettings {
+  enabled: boolean;
+  mode: ArpMode;
+  octaves: number; // 1-4, octaves the held notes are repeated over
+  division: LfoSyncDivision; // Time between notes as a division of the sequencer tempo
+  gate: number; // 0.1-1, fraction of each step a note sounds
+  latch: boolean; // Keep playing after the keys are released, until a new chord is played
+  saveWithPatch: boolean; // Store these settings in patches saved from now on
+}
+
+export const DEFAULT_ARPEGGIATOR: ArpeggiatorSettings = {
+  enabled: false,
+  mode: 'up',
+  octaves: 1,
+  division: '1/16',
+  gate: 0.5,
+  latch: false,
+  saveWithPatch: false,
+};
+
+// Notes of one pass of the arpeggio, with the held notes given in the order they were played
+export function arpPattern(notes: number[], mode: ArpMode, octaves: number): number[] {
+  const ordered = mode === 'asPlayed' ? notes : [...notes].sort((a, b) => a - b);
+  const range = Math.max(1, Math.min(ARP_MAX_OCTAVES, Math.round(octaves)));
+  const pattern: number[] = [];
+  for (let octave = 0; octave < range; octave++) {
+    ordered.forEach((note) => {
+      const transposed = note + octave * 12;
+      if (transposed <= 127) pattern.push(transposed);
+    });
+  }
+
+  if (mode === 'down') return pattern.reverse();
+  if (mode === 'upDown') {
+    // The top and bottom notes aren't repeated at the turns
+    return [...pattern, ...pattern.slice(1, -1).reverse()];
+  }
+  return pattern;
+}
+
+// Where the arpeggiator sends its notes
+export interface ArpeggiatorOutput {
+  currentTime(): number; // Seconds on the audio clock the notes are scheduled against
+  noteOn(noteNumber: number, velocity: number, time: number): void;
+  noteOff(noteNumber: number, time: number): void;
+}
+
+export class Arpeggiator {
+  private output: ArpeggiatorOutput;
+  private settings: ArpeggiatorSettings = DEFAULT_ARPEGGIATOR;
+  private tempo = 120;
+  private held: number[] = []; // Keys physically down, in the order they were pressed
+  private latched: number[] = []; // Chord kept playing by latch mode
+  private velocity = 1;
+  private position = 0;
+  private lastNote: number | null = null;
+  private sounding: { note: number; time: number } | null = null; // Handed out and not yet released
+  private gateEnd = 0; // When the sounding note's release is due
+  private nextStepTime = 0;
+  private interval: ReturnType<typeof setInterval> | null = null;
+
+  constructor(output: ArpeggiatorOutput) {
+    this.output = output;
+  }
+
+  update(settings: ArpeggiatorSettings, tempo: number) {
+    const previous = this.settings;
+    this.settings = settings;
+    this.tempo = tempo;
+
+    if (!settings.enabled) {
+      this.stop();
+      return;
+    }
+    // Turning latch off lets go of the latched chord, keeping any keys still held
+    if (previous.latch && !settings.latch) {
+      this.latched = [];
+      if (this.held.length === 0) this.halt();
+    }
+  }
+
+  keyDown(noteNumber: number, velocity: number = 1) {
+    if (this.settings.latch) {
+      // The first key of a new chord replaces the latched one
+      if (this.held.length === 0) this.latched = [];
+      if (!this.latched.includes(noteNumber)) this.latched.push(noteNumber);
+    }
+    if (!this.held.includes(noteNumber)) this.held.push(noteNumber);
+    this.velocity = velocity;
+
+    if (this.interval === null) {
+      this.position = 0;
+      this.nextStepTime = this.output.currentTime();
+      this.interval = setInterval(this.tick, TICK_INTERVAL * 1000);
+      this.tick();
+    }
+  }
+
+  // Returns false when the key wasn't being arpeggiated, so the caller can release it directly
+  keyUp(noteNumber: number): boolean {
+    if (!this.held.includes(noteNumber)) return false;
+    this.held = this.held.filter((note) => note !== noteNumber);
+    if (this.held.length === 0 && !this.settings.latch) {
+      this.halt();
+    }
+    return true;
+  }
+
+  // Releases the current note and forgets every held and latched key
+  stop() {
+    this.held = [];
+    this.latched = [];
+    this.halt();
+  }
+
+  private notes(): number[] {
+    return this.settings.latch ? this.latched : this.held;
+  }
+
+  private stepSeconds(): number {
+    return (divisionBeats(this.settings.division) * 60) / this.tempo;
+  }
+
+  private nextNote(pattern: number[]): number {
+    if (this.settings.mode !== 'random') {
+      return pattern[this.position++ % pattern.length];
+    }
+    // Avoid playing the same note twice in a row when there is a choice
+    const choices = pattern.length > 1 ? pattern.filter((note) => note !== this.lastNote) : pattern;
+    return choices[Math.floor(Math.random() * choices.length)];
+  }
+
+  // Hands out the releases and steps due within the look-ahead, in time order
+  private tick = () => {
+    const now = this.output.currentTime();
+    if (this.nextStepTime > now + SCHEDULE_AHEAD + this.stepSeconds()) {
+      // Further ahead than any step gets, so the engine and its audio clock have been replaced
+      this.nextStepTime = now;
+      this.sounding = null;
+    } else if (this.nextStepTime < now) {
+      // Steps left behind by a stalled timer play late rather than in a burst
+      this.nextStepTime = now;
+    }
+
+    const horizon = now + SCHEDULE_AHEAD;
+    while (this.interval !== null) {
+      if (this.sounding && this.gateEnd < horizon && this.gateEnd <= this.nextStepTime) {
+        this.release(this.gateEnd);
+      } else if (this.nextStepTime < horizon) {
+        this.step(this.nextStepTime);
+      } else {
+        break;
+      }
+    }
+  };
+
+  private step(time: number) {
+    const pattern = arpPattern(this.notes(), this.settings.mode, this.settings.octaves);
+    if (pattern.length === 0) {
+      this.halt();
+      return;
+    }
+
+    const note = this.nextNote(pattern);
+    this.output.noteOn(note, this.velocity, time);
+    this.sounding = { note, time };
+    this.lastNote = note;
+
+    const stepSeconds = this.stepSeconds();
+    this.gateEnd = time + stepSeconds * Math.max(0.1, Math.min(1, this.settings.gate));
+    this.nextStepTime = time + stepSeconds;
+  }
+
+  private release(time: number) {
+    if (this.sounding !== null) {
+      // A note handed out ahead is released no earlier than it starts
+      this.output.noteOff(this.sounding.note, Math.max(time, this.sounding.time));
+      this.sounding = null;
+    }
+  }
+
+  private halt() {
+    if (this.interval !== null) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+    this.release(this.output.currentTime());
+    this.lastNote = null;
+  }
+}
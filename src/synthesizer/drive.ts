@@ -0,0 +1,51 @@
+// Coarseness stage helpers: waveshaper curves and crusher settings
+
+import { DriveCurve } from './SynthEngine';
+
+const CURVE_SAMPLES = 4096;
+
+// Builds a waveshaper curve for the given shape, with the input gain scaled by amount (0-1)
+export function makeDriveCurve(curve: DriveCurve, amount: number) {
+  const clamped = Math.max(0, Math.min(1, amount));
+  if (clamped === 0) {
+    // Linear pass-through
+    return new Float32Array([-1, 1]);
+  }
+
+  const drive = 1 + clamped * 10;
+  const data = new Float32Array(CURVE_SAMPLES);
+  for (let i = 0; i < CURVE_SAMPLES; i++) {
+    const x = (i * 2) / (CURVE_SAMPLES - 1) - 1;
+    const y = x * drive;
+    switch (curve) {
+      case 'soft':
+        data[i] = Math.tanh(y) / Math.tanh(drive);
+        break;
+      case 'hard':
+        data[i] = Math.max(-1, Math.min(1, y));
+        break;
+      case 'fold':
+        // Sine foldback: the waveform folds back on itself past full scale
+        data[i] = Math.sin((Math.PI / 2) * y);
+        break;
+    }
+  }
+  return data;
+}
+
+// Output gain that keeps the driven signal roughly level with the clean one
+export function driveMakeupGain(amount: number): number {
+  return 1 / (1 + Math.max(0, Math.min(1, amount)));
+}
+
+// Bit depth at the given coarseness, falling from 16 bits to crushBits at full coarseness
+export function coarsenessToBits(coarseness: number, crushBits: number): number {
+  const target = Math.max(1, Math.min(16, crushBits));
+  return 16 - (16 - target) * Math.max(0, Math.min(1, coarseness));
+}
+
+// Sample-hold factor at the given coarseness, up to 32x reduction at full crushRate
+export function coarsenessToDownsample(coarseness: number, crushRate: number): number {
+  const rate = Math.max(0, Math.min(1, crushRate));
+  return 1 + rate * Math.max(0, Math.min(1, coarseness)) * 31;
+}
@@ -0,0 +1,197 @@
+// Drum voices shared by both engines: synthesized kick, snare, hats, clap and
+// tom built from plain Web Audio nodes, and the drum rows of the step sequencer
+import { fillNoise } from './oscillators';
+
+export type DrumType = 'kick' | 'snare' | 'closedHat' | 'openHat' | 'clap' | 'tom';
+
+export const DRUM_TYPES: { value: DrumType; label: string }[] = [
+  { value: 'kick', label: 'Kick' },
+  { value: 'snare', label: 'Snare' },
+  { value: 'closedHat', label: 'Closed Hat' },
+  { value: 'openHat', label: 'Open Hat' },
+  { value: 'clap', label: 'Clap' },
+  { value: 'tom', label: 'Tom' },
+];
+
+export interface DrumVoiceSettings {
+  tune: number; // Semitones, -12 to 12
+  decay: number; // 0.25-2, multiple of the voice's natural decay
+  level: number; // 0-1
+}
+
+export type DrumKit = Record<DrumType, DrumVoiceSettings>;
+
+// One row of triggers per drum, played from the same clock as the bass line
+export type DrumPattern = Record<DrumType, boolean[]>;
+
+export interface DrumTracks {
+  kit: DrumKit;
+  pattern: DrumPattern;
+}
+
+export const DRUM_MAX_TUNE = 12;
+export const DRUM_MIN_DECAY = 0.25;
+export const DRUM_MAX_DECAY = 2;
+
+const DEFAULT_VOICE: DrumVoiceSettings = { tune: 0, decay: 1, level: 0.8 };
+
+export const DEFAULT_DRUM_KIT: DrumKit = {
+  kick: { ...DEFAULT_VOICE, level: 1 },
+  snare: DEFAULT_VOICE,
+  closedHat: { ...DEFAULT_VOICE, level: 0.5 },
+  openHat: { ...DEFAULT_VOICE, level: 0.5 },
+  clap: DEFAULT_VOICE,
+  tom: DEFAULT_VOICE,
+};
+
+// Drum rows as long as a sequencer pattern of `length` steps
+export function emptyDrumPattern(length: number): DrumPattern {
+  return resizeDrumPattern({ kick: [], snare: [], closedHat: [], openHat: [], clap: [], tom: [] }, length);
+}
+
+// Cuts the rows short or pads them with empty steps to match the pattern length
+export function resizeDrumPattern(pattern: DrumPattern, length: number): DrumPattern {
+  const resize = (row: boolean[] | undefined) => Array.from({ length }, (_, step) => !!row?.[step]);
+  return {
+    kick: resize(pattern.kick),
+    snare: resize(pattern.snare),
+    closedHat: resize(pattern.closedHat),
+    openHat: resize(pattern.openHat),
+    clap: resize(pattern.clap),
+    tom: resize(pattern.tom),
+  };
+}
+
+// Drums triggered on a step, in DRUM_TYPES order
+export function drumsAtStep(pattern: DrumPattern, step: number): DrumType[] {
+  return DRUM_TYPES.map(({ value }) => value).filter((drum) => pattern[drum]?.[step]);
+}
+
+// Envelopes decay exponentially to this level, then the sources stop
+const SILENT = 0.001;
+
+// Closed hat cuts the open hat off this quickly
+const CHOKE_TIME = 0.01;
+
+export class DrumMachine {
+  readonly output: GainNode;
+  private context: BaseAudioContext;
+  private noise: AudioBuffer;
+  private openHatChoke: GainNode | null = null;
+
+  constructor(context: BaseAudioContext) {
+    this.context = context;
+    this.output = context.createGain();
+
+    // One second of looped white noise feeds the snare, hats and clap
+    this.noise = context.createBuffer(1, context.sampleRate, context.sampleRate);
+    fillNoise(this.noise.getChannelData(0), 'white');
+  }
+
+  trigger(drum: DrumType, settings: DrumVoiceSettings, time: number, velocity: number = 1) {
+    const level = Math.max(0, Math.min(1, settings.level)) * velocity;
+    if (level <= 0) return;
+    const pitch = Math.pow(2, Math.max(-DRUM_MAX_TUNE, Math.min(DRUM_MAX_TUNE, settings.tune)) / 12);
+    const decay = Math.max(DRUM_MIN_DECAY, Math.min(DRUM_MAX_DECAY, settings.decay));
+
+    switch (drum) {
+      case 'kick':
+        this.sweptSine(time, level, 160 * pitch, 45 * pitch, 0.07, 0.45 * decay);
+        break;
+      case 'snare':
+        this.sweptSine(time, level * 0.6, 240 * pitch, 180 * pitch, 0.03, 0.12 * decay);
+        this.filteredNoise(time, level * 0.8, 'highpass', 1200 * pitch, 0.7, 0.2 * decay);
+        break;
+      case 'closedHat':
+        this.chokeOpenHat(time);
+        this.filteredNoise(time, level * 0.6, 'highpass', 7000 * pitch, 0.7, 0.05 * decay);
+        break;
+      case 'openHat': {
+        this.chokeOpenHat(time);
+        const choke = this.context.createGain();
+        choke.connect(this.output);
+        this.openHatChoke = choke;
+        this.filteredNoise(time, level * 0.6, 'highpass', 7000 * pitch, 0.7, 0.4 * decay, choke);
+        break;
+      }
+      case 'clap':
+        // Three quick bursts then a longer tail, like several hands slightly apart
+        [0, 0.011, 0.022].forEach((offset) => {
+          this.filteredNoise(time + offset, level, 'bandpass', 1200 * pitch, 1.5, 0.01);
+        });
+        this.filteredNoise(time + 0.033, level * 0.7, 'bandpass', 1200 * pitch, 1.5, 0.2 * decay);
+        break;
+      case 'tom':
+        this.sweptSine(time, level * 0.9, 220 * pitch, 110 * pitch, 0.12, 0.35 * decay);
+        break;
+    }
+  }
+
+  dispose() {
+    this.openHatChoke = null;
+    this.output.disconnect();
+  }
+
+  // Sine whose pitch drops from start to end, for the kick, tom and snare body
+  private sweptSine(time: number, level: number, start: number, end: number, sweep: number, decay: number) {
+    const osc = this.context.createOscillator();
+    osc.frequency.setValueAtTime(start, time);
+    osc.frequency.exponentialRampToValueAtTime(end, time + sweep);
+    this.play(osc, osc, time, level, decay, this.output);
+  }
+
+  private filteredNoise(
+    time: number,
+    level: number,
+    type: BiquadFilterType,
+    frequency: number,
+    q: number,
+    decay: number,
+    destination: AudioNode = this.output
+  ) {
+    const source = this.context.createBufferSource();
+    source.buffer = this.noise;
+    source.loop = true;
+    const filter = this.context.createBiquadFilter();
+    filter.type = type;
+    filter.frequency.value = Math.min(frequency, this.context.sampleRate / 2 - 100);
+    filter.Q.value = q;
+    source.connect(filter);
+    this.play(source, filter, time, level, decay, destination);
+  }
+
+  // Runs a source through a decaying amp envelope and frees its nodes when it stops
+  private play(
+    source: AudioScheduledSourceNode,
+    last: AudioNode,
+    time: number,
+    level: number,
+    decay: number,
+    destination: AudioNode
+  ) {
+    const amp = this.context.createGain();
+    amp.gain.setValueAtTime(level, time);
+    amp.gain.exponentialRampToValueAtTime(SILENT, time + decay);
+    last.connect(amp);
+    amp.connect(destination);
+
+    source.onended = () => {
+      source.disconnect();
+      if (last !== source) last.disconnect();
+      amp.disconnect();
+      // An open hat's choke gain goes with it
+      if (destination !== this.output) {
+        destination.disconnect();
+        if (destination === this.openHatChoke) this.openHatChoke = null;
+      }
+    };
+    source.start(time);
+    source.stop(time + decay + 0.01);
+  }
+
+  private chokeOpenHat(time: number) {
+    if (!this.openHatChoke) return;
+    this.openHatChoke.gain.setTargetAtTime(0, time, CHOKE_TIME / 3);
+    this.openHatChoke = null;
+  }
+}
@@ -0,0 +1,8 @@
+// Creates the selected audio engine backend
+import { EngineType, SynthEngine } from './SynthEngine';
+import { ToneSynthesizer } from './ToneSynthesizer';
+import { WebAudioSynthesizer } from './WebAudioSynthesizer';
+
+export function createSynthEngine(type: EngineType): SynthEngine {
+  return type === 'webaudio' ? new WebAudioSynthesizer() : new ToneSynthesizer();
+}
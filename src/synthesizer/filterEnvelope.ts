@@ -0,0 +1,33 @@
+// Filter envelope helpers shared by both engines
+//
+// The envelope and key tracking move the filter through its detune parameter,
+// in cents, so they stack on top of the cutoff instead of replacing it.
+
+// Octaves of sweep at full env-mod amount
+const FILTER_ENV_OCTAVES = 4;
+// Extra octaves of sweep added by a full-strength accent
+const ACCENT_SWEEP_OCTAVES = 2;
+// Key tracking pivots around middle C
+const KEY_TRACK_PIVOT = 261.63;
+
+interface FilterEnvelopeParams {
+  filterEnvAmount: number;
+  filterKeyTrack: number;
+  velocityToFilter: number;
+}
+
+// Peak envelope depth in cents for a note, scaled by velocity and boosted by accent
+export function filterEnvDepthCents(
+  params: FilterEnvelopeParams,
+  velocity: number,
+  accentLevel: number
+): number {
+  const velocityScale = 1 - params.velocityToFilter * (1 - Math.max(0, Math.min(1, velocity)));
+  const octaves = params.filterEnvAmount * FILTER_ENV_OCTAVES * velocityScale + accentLevel * ACCENT_SWEEP_OCTAVES;
+  return octaves * 1200;
+}
+
+// Cutoff offset in cents for a note frequency
+export function keyTrackCents(params: FilterEnvelopeParams, frequency: number): number {
+  return params.filterKeyTrack * 1200 * Math.log2(frequency / KEY_TRACK_PIVOT);
+}
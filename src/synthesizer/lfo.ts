@@ -0,0 +1,69 @@
+// LFO helpers shared by both engines: synced rates, destination depths and sample-and-hold
+import { LfoDestination, LfoSyncDivision } from './SynthEngine';
+
+export const LFO_SYNC_DIVISIONS: LfoSyncDivision[] = [
+  '1/1', '1/2', '1/4', '1/8', '1/16', '1/32', '1/4T', '1/8T', '1/16T', '1/4.', '1/8.',
+];
+
+// Sample-and-hold plays a looping buffer of random steps; at a playback rate
+// of 1 the steps change SAMPLE_HOLD_BASE_RATE times per second
+export const SAMPLE_HOLD_BASE_RATE = 10;
+const SAMPLE_HOLD_STEPS = 64;
+
+interface LfoRateParams {
+  lfoRate: number;
+  lfoSync: boolean;
+  lfoSyncDivision: LfoSyncDivision;
+}
+
+// Quarter-note beats in one cycle of a division, e.g. 1/8 = 0.5, 1/8T = 1/3, 1/8. = 0.75
+export function divisionBeats(division: LfoSyncDivision): number {
+  const match = /^1\/(\d+)([T.]?)$/.exec(division);
+  if (!match) return 1;
+  const beats = 4 / Number(match[1]);
+  if (match[2] === 'T') return (beats * 2) / 3;
+  if (match[2] === '.') return beats * 1.5;
+  return beats;
+}
+
+// LFO frequency in Hz, following the tempo when synced
+export function lfoRateHz(params: LfoRateParams, tempo: number): number {
+  if (!params.lfoSync) return Math.max(0.01, params.lfoRate);
+  return tempo / 60 / divisionBeats(params.lfoSyncDivision);
+}
+
+// Scale applied to the -1..1 LFO signal at each destination
+export function lfoDepthFor(destination: LfoDestination, amount: number): number {
+  const clamped = Math.max(0, Math.min(1, amount));
+  switch (destination) {
+    case 'pitch':
+      return clamped * 100; // cents
+    case 'cutoff':
+      return clamped * 2400; // cents, two octaves each way
+    case 'amplitude':
+      return clamped * 0.5; // gain, around tremoloBaseGain
+    case 'pan':
+      return clamped;
+    case 'pulseWidth':
+      return clamped * 0.9; // keeps the pulse from vanishing at the extremes
+  }
+}
+
+// Resting gain of the tremolo stage, so amplitude modulation dips from full level
+export function tremoloBaseGain(destination: LfoDestination, amount: number): number {
+  return destination === 'amplitude' ? 1 - lfoDepthFor('amplitude', amount) : 1;
+}
+
+// Fills a buffer with held random values between -1 and 1
+export function fillSampleHoldSteps(data: Float32Array, sampleRate: number) {
+  const stepLength = Math.floor(sampleRate / SAMPLE_HOLD_BASE_RATE);
+  for (let step = 0; step < SAMPLE_HOLD_STEPS; step++) {
+    const value = Math.random() * 2 - 1;
+    data.fill(value, step * stepLength, (step + 1) * stepLength);
+  }
+}
+
+// Length in samples of the sample-and-hold buffer
+export function sampleHoldLength(sampleRate: number): number {
+  return Math.floor(sampleRate / SAMPLE_HOLD_BASE_RATE) * SAMPLE_HOLD_STEPS;
+}
@@ -0,0 +1,89 @@
+// Records an engine's master output in real time through the recorder worklet
+import { SynthEngine } from './SynthEngine';
+import { RECORDER_PROCESSOR } from './worklets';
+
+// How long stop() waits for the worklet to hand over its last frames
+const STOP_TIMEOUT_MS = 500;
+
+// Elapsed seconds and the peak level (0-1) of the latest batch of frames
+export type RecorderProgress = (elapsed: number, peak: number) => void;
+
+export class LiveRecorder {
+  private engine: SynthEngine;
+  private node: AudioWorkletNode;
+  private sampleRate: number;
+  private left: Float32Array[] = [];
+  private right: Float32Array[] = [];
+  private frames = 0;
+  private onProgress: RecorderProgress;
+  private onDone: (() => void) | null = null;
+
+  private constructor(engine: SynthEngine, node: AudioWorkletNode, onProgress: RecorderProgress) {
+    this.engine = engine;
+    this.node = node;
+    this.sampleRate = engine.getAudioContext().sampleRate;
+    this.onProgress = onProgress;
+
+    node.port.onmessage = (event: MessageEvent) => {
+      if (event.data.done) {
+        this.onDone?.();
+        return;
+      }
+      const { left, right } = event.data as { left: Float32Array; right: Float32Array };
+      this.left.push(left);
+      this.right.push(right);
+      this.frames += left.length;
+
+      let peak = 0;
+      for (let i = 0; i < left.length; i++) {
+        peak = Math.max(peak, Math.abs(left[i]), Math.abs(right[i]));
+      }
+      this.onProgress(this.frames / this.sampleRate, peak);
+    };
+  }
+
+  // Taps the engine's output and starts recording; rejects when worklets are unavailable
+  static async start(engine: SynthEngine, onProgress: RecorderProgress): Promise<LiveRecorder> {
+    await engine.whenReady();
+    const node = engine.createWorkletNode(RECORDER_PROCESSOR, {
+      numberOfInputs: 1,
+      numberOfOutputs: 1,
+      outputChannelCount: [2],
+    });
+    const recorder = new LiveRecorder(engine, node, onProgress);
+    engine.connectTap(node);
+    // The output is silent, but a node connected to the destination keeps being processed
+    node.connect(engine.getAudioContext().destination);
+    node.port.postMessage('start');
+    return recorder;
+  }
+
+  // Stops recording and returns the take, or null when nothing was captured
+  async stop(): Promise<AudioBuffer | null> {
+    const done = new Promise<void>((resolve) => {
+      this.onDone = resolve;
+    });
+    this.node.port.postMessage('stop');
+    // A disposed engine's context no longer runs the worklet, so don't wait forever
+    await Promise.race([done, new Promise((resolve) => setTimeout(resolve, STOP_TIMEOUT_MS))]);
+
+    try {
+      this.engine.disconnectTap(this.node);
+    } catch {
+      // Already disconnected along with the engine that was recorded
+    }
+    this.node.disconnect();
+    this.node.port.onmessage = null;
+
+    if (this.frames === 0) return null;
+    const buffer = new AudioBuffer({ numberOfChannels: 2, length: this.frames, sampleRate: this.sampleRate });
+    [this.left, this.right].forEach((chunks, channel) => {
+      let offset = 0;
+      chunks.forEach((chunk) => {
+        buffer.getChannelData(channel).set(chunk, offset);
+        offset += chunk.length;
+      });
+    });
+    return buffer;
+  }
+}
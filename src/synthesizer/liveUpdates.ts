@@ -0,0 +1,24 @@
+// How both engines carry setting changes over to voices that are already sounding
+
+// Seconds a sounding oscillator takes to crossfade to a new shape
+export const SHAPE_CROSSFADE_TIME = 0.03;
+
+// Shortest time constant a held envelope moves to a new level with
+const HELD_LEVEL_SMOOTHING = 0.03;
+
+interface EnvelopeTimes {
+  attack: number;
+  decay: number;
+}
+
+// When, relative to now, a held note should head for a changed sustain level and
+// how fast: after its attack, over what is left of its decay, or quickly once sustaining
+export function sustainRetarget(times: EnvelopeTimes, elapsed: number): { delay: number; timeConstant: number } {
+  const attack = Math.max(0.001, times.attack);
+  const decay = Math.max(0.001, times.decay);
+  const remainingDecay = attack + decay - Math.max(elapsed, attack);
+  return {
+    delay: Math.max(0, attack - elapsed),
+    timeConstant: Math.max(HELD_LEVEL_SMOOTHING, remainingDecay / 3),
+  };
+}
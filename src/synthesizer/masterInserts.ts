@@ -0,0 +1,104 @@
+// Master insert chain helpers shared by both engines: ordering, bypass,
+// delay and chorus timings and the limiter's clipping curve
+import { ChorusMode, InsertParams, InsertType } from './SynthEngine';
+import { divisionBeats } from './lfo';
+
+export const INSERT_TYPES: InsertType[] = ['drive', 'chorus', 'delay', 'eq', 'limiter'];
+
+// EQ band frequencies: low shelf, mid peak and high shelf
+export const EQ_LOW_FREQUENCY = 250;
+export const EQ_MID_FREQUENCY = 1000;
+export const EQ_MID_Q = 0.7;
+export const EQ_HIGH_FREQUENCY = 4000;
+
+// Longest ping-pong delay, enough for a whole note at 60 BPM
+export const MAX_INSERT_DELAY = 4;
+
+// The limiter is a fast, high-ratio compressor followed by a clipper at the
+// ceiling, so peaks the compressor is too slow for still can't get through
+export const LIMITER_RATIO = 20;
+export const LIMITER_ATTACK = 0.001;
+export const LIMITER_RELEASE = 0.1;
+
+const LIMITER_CURVE_SAMPLES = 4096;
+
+export function isInsertBypassed(params: InsertParams, type: InsertType): boolean {
+  switch (type) {
+    case 'drive':
+      return params.insertDriveBypass;
+    case 'chorus':
+      return params.insertChorusBypass;
+    case 'delay':
+      return params.insertDelayBypass;
+    case 'eq':
+      return params.insertEqBypass;
+    case 'limiter':
+      return params.insertLimiterBypass;
+  }
+}
+
+// The saved order with any missing inserts appended, so older or damaged patches still list every insert once
+export function insertOrder(params: InsertParams): InsertType[] {
+  const saved = (params.insertOrder ?? []).filter(
+    (type, index, order) => INSERT_TYPES.includes(type) && order.indexOf(type) === index
+  );
+  return [...saved, ...INSERT_TYPES.filter((type) => !saved.includes(type))];
+}
+
+// Inserts that process audio, in order
+export function activeInserts(params: InsertParams): InsertType[] {
+  return insertOrder(params).filter((type) => !isInsertBypassed(params, type));
+}
+
+// Moves an insert one place earlier (-1) or later (+1) in the chain
+export function moveInsert(params: InsertParams, type: InsertType, offset: -1 | 1): InsertType[] {
+  const order = insertOrder(params);
+  const from = order.indexOf(type);
+  const to = from + offset;
+  if (to < 0 || to >= order.length) return order;
+  [order[from], order[to]] = [order[to], order[from]];
+  return order;
+}
+
+// Ping-pong delay time in seconds for the sequencer tempo
+export function insertDelaySeconds(params: InsertParams, tempo: number): number {
+  return Math.min(MAX_INSERT_DELAY, (divisionBeats(params.insertDelayDivision) * 60) / Math.max(1, tempo));
+}
+
+interface ChorusTiming {
+  delay: number; // seconds, centre of the modulated delay
+  depth: number; // seconds of sweep either side of the centre
+  feedback: number;
+}
+
+// A chorus sweeps a longer delay without feedback; a flanger sweeps a very
+// short one and feeds it back for the comb-filter sweep
+export function chorusTiming(mode: ChorusMode, depth: number): ChorusTiming {
+  const amount = Math.max(0, Math.min(1, depth));
+  if (mode === 'flanger') {
+    // Delays inside a feedback loop can't go below one render quantum (~3 ms), so the sweep stays above it
+    return { delay: 0.005, depth: 0.002 * amount, feedback: 0.6 };
+  }
+  return { delay: 0.02, depth: 0.008 * amount, feedback: 0 };
+}
+
+// Equal-power dry and wet gains for a 0-1 mix
+export function equalPowerMix(mix: number): { dry: number; wet: number } {
+  const clamped = Math.max(0, Math.min(1, mix));
+  return { dry: Math.cos((clamped * Math.PI) / 2), wet: Math.sin((clamped * Math.PI) / 2) };
+}
+
+export function dbToGain(db: number): number {
+  return Math.pow(10, db / 20);
+}
+
+// Waveshaper curve that passes the signal unchanged up to the ceiling and clips it there
+export function makeLimiterCurve(ceilingDb: number) {
+  const ceiling = Math.min(1, dbToGain(ceilingDb));
+  const curve = new Float32Array(LIMITER_CURVE_SAMPLES);
+  for (let i = 0; i < LIMITER_CURVE_SAMPLES; i++) {
+    const x = (i * 2) / (LIMITER_CURVE_SAMPLES - 1) - 1;
+    curve[i] = Math.max(-ceiling, Math.min(ceiling, x));
+  }
+  return curve;
+}
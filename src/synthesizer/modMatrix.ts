@@ -0,0 +1,300 @@
+// Modulation matrix shared by both engines. Each slot adds a source, scaled by
+// its depth, to one numeric parameter. The engines keep the parameters as they
+// were set and apply a modulated copy when a note starts and on every control
+// update, so any parameter can be modulated without its own audio path.
+// Settings an engine only reads when a note starts, such as envelope times,
+// follow the modulation from note to note.
+import { LfoWaveform, ModDestination, ModMatrix, ModSlot, ModSource, SynthesizerParams } from './SynthEngine';
+
+export const MOD_SLOTS = 8;
+
+// Seconds between control updates while a slot is in use
+export const MOD_UPDATE_INTERVAL = 0.03;
+
+export const MOD_SOURCES: { value: ModSource; label: string }[] = [
+  { value: 'lfo1', label: 'LFO 1' },
+  { value: 'lfo2', label: 'LFO 2' },
+  { value: 'ampEnv', label: 'Amp Env' },
+  { value: 'filterEnv', label: 'Filter Env' },
+  { value: 'velocity', label: 'Velocity' },
+  { value: 'key', label: 'Key' },
+  { value: 'step', label: 'Step' },
+  { value: 'random', label: 'Random' },
+  { value: 'cc', label: 'MIDI CC' },
+];
+
+interface ModRange {
+  label: string;
+  min: number;
+  max: number;
+  log?: boolean; // Depth moves the value in octaves of the range instead of linearly
+  integer?: boolean;
+}
+
+// Range of every destination, matching its control on the panel
+export const MOD_DESTINATIONS: Record<ModDestination, ModRange> = {
+  volume: { label: 'Volume', min: 0, max: 1 },
+  osc1Level: { label: 'Osc 1 Level', min: 0, max: 1 },
+  wavetablePosition: { label: 'Wavetable Position', min: 0, max: 1 },
+  osc2Level: { label: 'Osc 2 Level', min: 0, max: 1 },
+  osc2Octave: { label: 'Osc 2 Octave', min: -2, max: 2, integer: true },
+  osc2Semitone: { label: 'Osc 2 Semitone', min: -12, max: 12, integer: true },
+  osc2Fine: { label: 'Osc 2 Fine', min: -50, max: 50 },
+  subLevel: { label: 'Sub Level', min: 0, max: 1 },
+  subOctave: { label: 'Sub Octave', min: 1, max: 2, integer: true },
+  noiseLevel: { label: 'Noise Level', min: 0, max: 1 },
+  detuneAmount: { label: 'Detune', min: -100, max: 100 },
+  attack: { label: 'Attack', min: 0.001, max: 1 },
+  decay: { label: 'Decay', min: 0.01, max: 1 },
+  sustain: { label: 'Sustain', min: 0, max: 1 },
+  release: { label: 'Release', min: 0.01, max: 2 },
+  cutoff: { label: 'Cutoff', min: 20, max: 20000, log: true },
+  resonance: { label: 'Resonance', min: 0.1, max: 30 },
+  filterAttack: { label: 'Filter Attack', min: 0.001, max: 2 },
+  filterDecay: { label: 'Filter Decay', min: 0.01, max: 2 },
+  filterSustain: { label: 'Filter Sustain', min: 0, max: 1 },
+  filterRelease: { label: 'Filter Release', min: 0.01, max: 2 },
+  filterEnvAmount: { label: 'Filter Env Amount', min: -1, max: 1 },
+  filterKeyTrack: { label: 'Key Track', min: 0, max: 1 },
+  velocityToFilter: { label: 'Velocity to Filter', min: 0, max: 1 },
+  accentAmount: { label: 'Accent', min: 0, max: 1 },
+  lfoRate: { label: 'LFO Rate', min: 0.1, max: 50, log: true },
+  lfoAmount: { label: 'LFO Amount', min: 0, max: 1 },
+  ringModAmount: { label: 'Ring Mod', min: 0, max: 1 },
+  ringModRatio: { label: 'Ring Mod Ratio', min: 0.25, max: 8, log: true },
+  ringModFrequency: { label: 'Ring Mod Freq', min: 1, max: 2000, log: true },
+  crushBits: { label: 'Crush Bits', min: 1, max: 16, integer: true },
+  crushRate: { label: 'Crush Rate', min: 0, max: 1 },
+  glideTime: { label: 'Glide', min: 0, max: 1 },
+  unisonDetune: { label: 'Unison Detune', min: 0, max: 100 },
+  unisonCurve: { label: 'Unison Curve', min: 0, max: 1 },
+  unisonSpread: { label: 'Unison Spread', min: 0, max: 1 },
+  wetness: { label: 'Wet', min: 0, max: 1 },
+  insertDriveAmount: { label: 'Insert Drive', min: 0, max: 1 },
+  insertChorusRate: { label: 'Chorus Rate', min: 0.05, max: 10, log: true },
+  insertChorusDepth: { label: 'Chorus Depth', min: 0, max: 1 },
+  insertChorusMix: { label: 'Chorus Mix', min: 0, max: 1 },
+  insertDelayFeedback: { label: 'Delay Feedback', min: 0, max: 0.9 },
+  insertDelayMix: { label: 'Delay Mix', min: 0, max: 1 },
+  insertEqLow: { label: 'EQ Low', min: -12, max: 12 },
+  insertEqMid: { label: 'EQ Mid', min: -12, max: 12 },
+  insertEqHigh: { label: 'EQ High', min: -12, max: 12 },
+  insertLimiterCeiling: { label: 'Limiter Ceiling', min: -24, max: 0 },
+};
+
+export const EMPTY_MOD_SLOT: ModSlot = { source: 'lfo1', destination: null, depth: 0, controller: 1 };
+
+export const DEFAULT_MOD_MATRIX: ModMatrix = {
+  slots: Array.from({ length: MOD_SLOTS }, () => EMPTY_MOD_SLOT),
+  lfos: [
+    { rate: 0.5, waveform: 'sine' },
+    { rate: 3, waveform: 'triangle' },
+  ],
+};
+
+// Whether a destination can still be modulated; patches may name ones since withdrawn
+export function isModDestination(destination: string | null): destination is ModDestination {
+  return destination !== null && Object.prototype.hasOwnProperty.call(MOD_DESTINATIONS, destination);
+}
+
+// Slots that change a parameter
+function activeSlots(matrix: ModMatrix): ModSlot[] {
+  return matrix.slots.filter((slot) => isModDestination(slot.destination) && slot.depth !== 0);
+}
+
+export function modMatrixActive(matrix: ModMatrix): boolean {
+  return activeSlots(matrix).length > 0;
+}
+
+function fraction(value: number): number {
+  return value - Math.floor(value);
+}
+
+// -1 to 1 at a phase counted in cycles
+function lfoShape(waveform: Exclude<LfoWaveform, 'sampleHold'>, phase: number): number {
+  const position = fraction(phase);
+  switch (waveform) {
+    case 'sine':
+      return Math.sin(2 * Math.PI * position);
+    case 'triangle':
+      return 1 - 4 * Math.abs(fraction(position + 0.25) - 0.5);
+    case 'sawtooth':
+      return position * 2 - 1;
+    case 'square':
+      return position < 0.5 ? 1 : -1;
+  }
+}
+
+interface EnvelopeShape {
+  attack: number;
+  decay: number;
+  sustain: number;
+  release: number;
+}
+
+// Linear ADSR level `elapsed` seconds after the gate opened
+function heldLevel(shape: EnvelopeShape, elapsed: number): number {
+  const attack = Math.max(0.001, shape.attack);
+  const decay = Math.max(0.001, shape.decay);
+  if (elapsed < attack) return elapsed / attack;
+  if (elapsed < attack + decay) return 1 - ((1 - shape.sustain) * (elapsed - attack)) / decay;
+  return shape.sustain;
+}
+
+// A note's gate and the per-note source values it brings, from the time it opens
+interface Gate {
+  onAt: number;
+  offAt: number | null;
+  note: number;
+  velocity: number;
+  random: number;
+}
+
+interface StepChange {
+  time: number;
+  step: number;
+  length: number;
+}
+
+// Gates and steps kept for reading back at their times. Notes and steps arrive up
+// to the sequencer's look-ahead before they start, far fewer than this.
+const SOURCE_HISTORY = 16;
+
+// The latest entry that has started by a time
+function latestBy<T>(entries: T[], startOf: (entry: T) => number, time: number): T | null {
+  for (let i = entries.length - 1; i >= 0; i--) {
+    if (startOf(entries[i]) <= time) return entries[i];
+  }
+  return null;
+}
+
+// Level of an ADSR following a gate, 0 before any gate has opened
+function envelopeValue(gate: Gate | null, shape: EnvelopeShape, time: number): number {
+  if (!gate) return 0;
+  if (gate.offAt === null || time < gate.offAt) {
+    return heldLevel(shape, Math.max(0, time - gate.onAt));
+  }
+  const releasedFrom = heldLevel(shape, gate.offAt - gate.onAt);
+  const released = (time - gate.offAt) / Math.max(0.001, shape.release);
+  return Math.max(0, releasedFrom * (1 - released));
+}
+
+// Values of the sources at a time, tracked from the notes, steps and
+// controllers an engine receives. Notes and steps take effect at their own time,
+// which may be ahead of the clock. The envelopes follow the most recent gate,
+// so the matrix modulates every voice together.
+export class ModulationSources {
+  private heldNotes: number[] = [];
+  private gates: Gate[] = [];
+  private steps: StepChange[] = [];
+  private controllers: Map<number, number> = new Map();
+  private sampleHold: { cycle: number; value: number }[] = [];
+
+  noteOn(note: number, velocity: number, time: number) {
+    this.heldNotes = [...this.heldNotes.filter((held) => held !== note), note];
+    const gate: Gate = {
+      onAt: time,
+      offAt: null,
+      note,
+      velocity: Math.max(0, Math.min(1, velocity)),
+      random: Math.random() * 2 - 1,
+    };
+    this.gates = [...this.gates, gate].slice(-SOURCE_HISTORY);
+  }
+
+  noteOff(note: number, time: number) {
+    if (!this.heldNotes.includes(note)) return;
+    this.heldNotes = this.heldNotes.filter((held) => held !== note);
+    const gate = latestBy(this.gates, ({ onAt }) => onAt, time);
+    if (this.heldNotes.length === 0 && gate) {
+      gate.offAt = time;
+    }
+  }
+
+  setStep(step: number, length: number, time: number) {
+    this.steps = [...this.steps, { time, step, length: Math.max(1, length) }].slice(-SOURCE_HISTORY);
+  }
+
+  setController(controller: number, value: number) {
+    this.controllers.set(controller, Math.max(0, Math.min(127, value)));
+  }
+
+  // Bipolar sources run from -1 to 1, the others from 0 to 1
+  value(slot: ModSlot, matrix: ModMatrix, params: SynthesizerParams, time: number): number {
+    const gate = latestBy(this.gates, ({ onAt }) => onAt, time);
+    switch (slot.source) {
+      case 'lfo1':
+        return this.lfoValue(matrix, 0, time);
+      case 'lfo2':
+        return this.lfoValue(matrix, 1, time);
+      case 'ampEnv':
+        return envelopeValue(gate, params, time);
+      case 'filterEnv':
+        return envelopeValue(
+          gate,
+          {
+            attack: params.filterAttack,
+            decay: params.filterDecay,
+            sustain: params.filterSustain,
+            release: params.filterRelease,
+          },
+          time
+        );
+      case 'velocity':
+        return gate?.velocity ?? 0;
+      case 'key':
+        // Five octaves either side of middle C
+        return gate ? Math.max(-1, Math.min(1, (gate.note - 60) / 60)) : 0;
+      case 'step': {
+        const step = latestBy(this.steps, ({ time: start }) => start, time);
+        return step && step.length > 1 ? step.step / (step.length - 1) : 0;
+      }
+      case 'random':
+        return gate?.random ?? 0;
+      case 'cc':
+        return (this.controllers.get(slot.controller) ?? 0) / 127;
+    }
+  }
+
+  private lfoValue(matrix: ModMatrix, index: number, time: number): number {
+    const settings = matrix.lfos[index];
+    if (!settings) return 0;
+    const phase = time * Math.max(0.01, settings.rate);
+    if (settings.waveform !== 'sampleHold') {
+      return lfoShape(settings.waveform, phase);
+    }
+    // Sample and hold picks a new random value each cycle
+    const cycle = Math.floor(phase);
+    const held = this.sampleHold[index];
+    if (!held || held.cycle !== cycle) {
+      this.sampleHold[index] = { cycle, value: Math.random() * 2 - 1 };
+    }
+    return this.sampleHold[index].value;
+  }
+}
+
+// The parameters with every active slot's modulation applied at a time.
+// Slots on the same destination add up; the result stays within its range.
+export function modulateParams(params: SynthesizerParams, sources: ModulationSources, time: number): SynthesizerParams {
+  const slots = activeSlots(params.modMatrix);
+  if (slots.length === 0) return params;
+
+  const amounts = new Map<ModDestination, number>();
+  slots.forEach((slot) => {
+    const destination = slot.destination!;
+    const amount = slot.depth * sources.value(slot, params.modMatrix, params, time);
+    amounts.set(destination, (amounts.get(destination) ?? 0) + amount);
+  });
+
+  const modulated: SynthesizerParams = { ...params };
+  amounts.forEach((amount, destination) => {
+    const range = MOD_DESTINATIONS[destination];
+    const base = params[destination];
+    let value = range.log
+      ? Math.max(range.min, base) * Math.pow(range.max / range.min, amount)
+      : base + amount * (range.max - range.min);
+    value = Math.max(range.min, Math.min(range.max, value));
+    modulated[destination] = range.integer ? Math.round(value) : value;
+  });
+  return modulated;
+}
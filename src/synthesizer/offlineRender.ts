@@ -0,0 +1,143 @@
+// Renders loops of the sequencer pattern faster than real time on a fresh
+// engine running in an offline context
+import * as Tone from 'tone';
+import { EngineType, SynthesizerParams } from './SynthEngine';
+import { SequencerNote } from './store';
+import { ToneSynthesizer } from './ToneSynthesizer';
+import { WebAudioSynthesizer } from './WebAudioSynthesizer';
+import { PatternEvent, StepResolution, patternEvents, playEvent, stepSeconds } from './patternPlayback';
+import { insertDelaySeconds } from './masterInserts';
+import { DRUM_MAX_DECAY, DrumTracks } from './drums';
+import { MOD_UPDATE_INTERVAL, modMatrixActive } from './modMatrix';
+import { SCHEDULE_AHEAD } from './sequencerClock';
+
+export const RENDER_SAMPLE_RATE = 44100;
+export const RENDER_CHANNELS = 2;
+
+// Longest tail rendered after the last loop, however long the effects ring on
+const MAX_TAIL_SECONDS = 20;
+
+// Longest drum hit, the open hat at its longest decay
+const DRUM_TAIL_SECONDS = 0.4 * DRUM_MAX_DECAY;
+
+// Time for the release, drums, reverb and insert delay to die away after the last note, to -60 dB
+export function renderTailSeconds(params: SynthesizerParams, tempo: number): number {
+  let effectsTail = params.wetness > 0 ? params.reverbPreDelay + params.reverbDecay : 0;
+  if (!params.insertDelayBypass && params.insertDelayMix > 0 && params.insertDelayFeedback > 0) {
+    const repeats = Math.log(0.001) / Math.log(Math.min(0.9, params.insertDelayFeedback));
+    effectsTail = Math.max(effectsTail, insertDelaySeconds(params, tempo) * (repeats + 1));
+  }
+  return Math.min(MAX_TAIL_SECONDS, Math.max(params.release, DRUM_TAIL_SECONDS) + effectsTail + 0.1);
+}
+
+// When an event is handed to the engine. As in live playback, steps, notes and drums
+// go out ahead of their time and are scheduled exactly; modulation updates run on time.
+function handOutTime(event: PatternEvent): number {
+  return event.type === 'modulation' ? event.time : Math.max(0, event.time - SCHEDULE_AHEAD);
+}
+
+export async function renderPattern(
+  engineType: EngineType,
+  params: SynthesizerParams,
+  sample: AudioBuffer | null,
+  steps: SequencerNote[],
+  drums: DrumTracks,
+  tempo: number,
+  resolution: StepResolution,
+  loops: number
+): Promise<AudioBuffer> {
+  const stepDuration = stepSeconds(tempo, resolution);
+  const duration = steps.length * loops * stepDuration + renderTailSeconds(params, tempo);
+  const events = patternEvents(steps, stepDuration, loops, params.glideTime, drums);
+  // The modulation matrix updates at the same control rate as live playback
+  if (modMatrixActive(params.modMatrix)) {
+    for (let time = 0; time < duration; time += MOD_UPDATE_INTERVAL) {
+      events.push({ time, type: 'modulation' });
+    }
+    events.sort((a, b) => a.time - b.time);
+  }
+  return engineType === 'webaudio'
+    ? renderWithWebAudio(params, sample, tempo, events, duration)
+    : renderWithTone(params, sample, tempo, events, duration);
+}
+
+async function renderWithTone(
+  params: SynthesizerParams,
+  sample: AudioBuffer | null,
+  tempo: number,
+  events: PatternEvent[],
+  duration: number
+): Promise<AudioBuffer> {
+  const offline = new Tone.OfflineContext(RENDER_CHANNELS, duration, RENDER_SAMPLE_RATE);
+
+  // The offline context is only global for the length of each synchronous call,
+  // so the live engine keeps the real context while the render waits
+  const withOfflineContext = <T>(run: () => T): T => {
+    const live = Tone.getContext();
+    Tone.setContext(offline);
+    try {
+      return run();
+    } finally {
+      Tone.setContext(live);
+    }
+  };
+
+  const engine = withOfflineContext(() => {
+    const toneEngine = new ToneSynthesizer();
+    toneEngine.updateParams(params);
+    toneEngine.setSample(sample);
+    toneEngine.setTempo(tempo);
+    return toneEngine;
+  });
+
+  try {
+    await withOfflineContext(() => engine.whenReady());
+    events.forEach((event) => {
+      offline.setTimeout(() => withOfflineContext(() => playEvent(engine, event)), handOutTime(event));
+    });
+    const rendered = await offline.render();
+    return rendered.get()!;
+  } finally {
+    withOfflineContext(() => engine.dispose());
+  }
+}
+
+async function renderWithWebAudio(
+  params: SynthesizerParams,
+  sample: AudioBuffer | null,
+  tempo: number,
+  events: PatternEvent[],
+  duration: number
+): Promise<AudioBuffer> {
+  const length = Math.ceil(duration * RENDER_SAMPLE_RATE);
+  const context = new OfflineAudioContext(RENDER_CHANNELS, length, RENDER_SAMPLE_RATE);
+  const engine = new WebAudioSynthesizer(context);
+  engine.updateParams(params);
+  engine.setSample(sample);
+  engine.setTempo(tempo);
+  await engine.whenReady();
+
+  // The context can only pause once per 128-frame render quantum, so events handed
+  // out in the same quantum go together. Those in the first quantum go before rendering starts.
+  const quanta = new Map<number, PatternEvent[]>();
+  events.forEach((event) => {
+    const frame = Math.floor((handOutTime(event) * RENDER_SAMPLE_RATE) / 128) * 128;
+    if (frame >= length) return;
+    quanta.set(frame, [...(quanta.get(frame) ?? []), event]);
+  });
+
+  quanta.forEach((group, frame) => {
+    if (frame === 0) {
+      group.forEach((event) => playEvent(engine, event));
+      return;
+    }
+    context.suspend(frame / RENDER_SAMPLE_RATE).then(() => {
+      group.forEach((event) => playEvent(engine, event));
+      context.resume();
+    });
+  });
+
+  const rendered = await context.startRendering();
+  engine.dispose();
+  return rendered;
+}
@@ -0,0 +1,51 @@
+// Oscillator mixer helpers shared by both engines: second oscillator and sub
+// tuning, hard-sync shapes and noise generation
+import { NoiseType, OscillatorShape } from './SynthEngine';
+
+interface OscillatorTuning {
+  osc2Octave: number;
+  osc2Semitone: number;
+  osc2Fine: number;
+  subOctave: number;
+}
+
+// Frequency of the second oscillator as a multiple of the main one
+export function osc2Ratio(params: OscillatorTuning): number {
+  return Math.pow(2, params.osc2Octave + params.osc2Semitone / 12 + params.osc2Fine / 1200);
+}
+
+// Frequency of the sub-oscillator as a multiple of the main one
+export function subRatio(params: OscillatorTuning): number {
+  return params.subOctave >= 2 ? 0.25 : 0.5;
+}
+
+// Value of the sync oscillator worklet's 'shape' parameter
+export function syncShapeIndex(shape: OscillatorShape): number {
+  return ['sine', 'triangle', 'sawtooth', 'square'].indexOf(shape);
+}
+
+// Seconds of looping noise generated for the raw engine
+export const NOISE_BUFFER_SECONDS = 2;
+
+// Fills a buffer with white noise, or pink noise using Paul Kellet's filter
+export function fillNoise(data: Float32Array, type: NoiseType) {
+  if (type === 'white') {
+    for (let i = 0; i < data.length; i++) {
+      data[i] = Math.random() * 2 - 1;
+    }
+    return;
+  }
+
+  let b0 = 0, b1 = 0, b2 = 0, b3 = 0, b4 = 0, b5 = 0, b6 = 0;
+  for (let i = 0; i < data.length; i++) {
+    const white = Math.random() * 2 - 1;
+    b0 = 0.99886 * b0 + white * 0.0555179;
+    b1 = 0.99332 * b1 + white * 0.0750759;
+    b2 = 0.969 * b2 + white * 0.153852;
+    b3 = 0.8665 * b3 + white * 0.3104856;
+    b4 = 0.55 * b4 + white * 0.5329522;
+    b5 = -0.7616 * b5 - white * 0.016898;
+    data[i] = (b0 + b1 + b2 + b3 + b4 + b5 + b6 + white * 0.5362) * 0.11;
+    b6 = white * 0.115926;
+  }
+}
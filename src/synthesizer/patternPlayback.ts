@@ -0,0 +1,173 @@
+// Step sequencer playback rules shared by live playback and offline export:
+// which notes start, which are tied into the next step for a slide and when
+// the rest are released
+import { SequencerNote } from './store';
+import { LfoSyncDivision, SynthEngine } from './SynthEngine';
+import { DrumTracks, DrumType, DrumVoiceSettings, drumsAtStep } from './drums';
+import { divisionBeats } from './lfo';
+
+export const MIN_PATTERN_STEPS = 1;
+export const MAX_PATTERN_STEPS = 64;
+export const DEFAULT_PATTERN_STEPS = 16;
+
+// Note value of one step
+export type StepResolution = Extract<LfoSyncDivision, '1/8' | '1/8T' | '1/16' | '1/16T' | '1/32'>;
+
+export const STEP_RESOLUTIONS: { value: StepResolution; label: string }[] = [
+  { value: '1/8', label: '1/8' },
+  { value: '1/8T', label: '1/8 Triplet' },
+  { value: '1/16', label: '1/16' },
+  { value: '1/16T', label: '1/16 Triplet' },
+  { value: '1/32', label: '1/32' },
+];
+
+export interface TimeSignature {
+  beats: number; // Beats in a bar
+  beatUnit: number; // Note value of a beat: 4 for quarter notes, 8 for eighths
+}
+
+export const TIME_SIGNATURES: TimeSignature[] = [
+  { beats: 2, beatUnit: 4 },
+  { beats: 3, beatUnit: 4 },
+  { beats: 4, beatUnit: 4 },
+  { beats: 5, beatUnit: 4 },
+  { beats: 6, beatUnit: 8 },
+  { beats: 7, beatUnit: 8 },
+  { beats: 9, beatUnit: 8 },
+  { beats: 12, beatUnit: 8 },
+];
+
+// How the pattern's steps sit in time; the pattern length is the number of steps
+export interface PatternTiming {
+  resolution: StepResolution;
+  timeSignature: TimeSignature;
+}
+
+export const DEFAULT_PATTERN_TIMING: PatternTiming = {
+  resolution: '1/16',
+  timeSignature: { beats: 4, beatUnit: 4 },
+};
+
+// Part of the step a note sounds for at duration 1, leaving a gap before the next step
+const GATE_LENGTH = 0.9;
+
+export function stepSeconds(tempo: number, resolution: StepResolution): number {
+  return (60 / tempo) * divisionBeats(resolution);
+}
+
+// Lengths in quarter notes, the unit the tempo counts
+function beatLength(signature: TimeSignature): number {
+  return 4 / signature.beatUnit;
+}
+
+// Whether a step starts a bar or a beat of the time signature
+export function stepBoundary(step: number, timing: PatternTiming): 'bar' | 'beat' | null {
+  const position = step * divisionBeats(timing.resolution);
+  const beat = beatLength(timing.timeSignature);
+  const onMultiple = (length: number) => {
+    const remainder = position % length;
+    return remainder < 1e-6 || length - remainder < 1e-6;
+  };
+  if (onMultiple(beat * timing.timeSignature.beats)) return 'bar';
+  if (onMultiple(beat)) return 'beat';
+  return null;
+}
+
+// Bars the pattern fills, which need not be a whole number
+export function patternBars(length: number, timing: PatternTiming): number {
+  const { timeSignature } = timing;
+  return (length * divisionBeats(timing.resolution)) / (beatLength(timeSignature) * timeSignature.beats);
+}
+
+export interface StepPlan {
+  noteOn: { note: number; velocity: number; slideTime: number; accent: boolean } | null;
+  releaseTied: number | null; // Note held over from the previous step, released once this step has started
+  tie: number | null; // Note to hold into the next step so its slide is legato
+  gate: number | null; // Seconds after the step starts to release this step's note
+}
+
+// What happens at a step, given the note tied into it from the previous step
+export function planStep(
+  steps: SequencerNote[],
+  index: number,
+  tiedNote: number | null,
+  glideTime: number,
+  stepDuration: number
+): StepPlan {
+  const note = steps[index];
+  const following = steps[(index + 1) % steps.length];
+  const playsNote = note.enabled && note.note > 0;
+  const tiesOver = playsNote && following.enabled && following.note > 0 && following.slide;
+
+  return {
+    // Slides glide over the patch's glide time, other steps start at pitch
+    noteOn: playsNote
+      ? { note: note.note, velocity: note.velocity, slideTime: note.slide ? glideTime : 0, accent: note.accent }
+      : null,
+    // A tied note sliding into the same pitch carries on as this step's note
+    releaseTied: tiedNote !== null && !(playsNote && tiedNote === note.note) ? tiedNote : null,
+    tie: tiesOver ? note.note : null,
+    gate: playsNote && !tiesOver ? stepDuration * note.duration * GATE_LENGTH : null,
+  };
+}
+
+// A note, drum, step or modulation update at a time in seconds from the start of the pattern
+export type PatternEvent =
+  | { time: number; type: 'noteOn'; note: number; velocity: number; slideTime: number; accent: boolean }
+  | { time: number; type: 'noteOff'; note: number }
+  | { time: number; type: 'drum'; drum: DrumType; settings: DrumVoiceSettings }
+  | { time: number; type: 'step'; step: number; length: number }
+  | { time: number; type: 'modulation' };
+
+// Every step, note and drum event in a number of loops of the pattern, in time order;
+// a note still tied at the end is released when the last loop finishes
+export function patternEvents(
+  steps: SequencerNote[],
+  stepDuration: number,
+  loops: number,
+  glideTime: number,
+  drums: DrumTracks
+): PatternEvent[] {
+  const events: PatternEvent[] = [];
+  let tiedNote: number | null = null;
+
+  for (let step = 0; step < steps.length * loops; step++) {
+    const time = step * stepDuration;
+    const plan = planStep(steps, step % steps.length, tiedNote, glideTime, stepDuration);
+    events.push({ time, type: 'step', step: step % steps.length, length: steps.length });
+    if (plan.noteOn) {
+      events.push({ time, type: 'noteOn', ...plan.noteOn });
+    }
+    if (plan.releaseTied !== null) {
+      events.push({ time, type: 'noteOff', note: plan.releaseTied });
+    }
+    if (plan.gate !== null && plan.noteOn) {
+      events.push({ time: time + plan.gate, type: 'noteOff', note: plan.noteOn.note });
+    }
+    drumsAtStep(drums.pattern, step % steps.length).forEach((drum) => {
+      events.push({ time, type: 'drum', drum, settings: drums.kit[drum] });
+    });
+    tiedNote = plan.tie;
+  }
+
+  if (tiedNote !== null) {
+    events.push({ time: steps.length * loops * stepDuration, type: 'noteOff', note: tiedNote });
+  }
+  // Stable sort keeps a step's note-on ahead of the tied note it replaces
+  return events.sort((a, b) => a.time - b.time);
+}
+
+// Notes and drums play at the event's time on the engine's clock, which starts with the pattern
+export function playEvent(engine: SynthEngine, event: PatternEvent) {
+  if (event.type === 'noteOn') {
+    engine.noteOn(event.note, event.velocity, event.slideTime, event.accent, event.time);
+  } else if (event.type === 'drum') {
+    engine.triggerDrum(event.drum, event.settings, 1, event.time);
+  } else if (event.type === 'step') {
+    engine.setSequencerStep(event.step, event.length, event.time);
+  } else if (event.type === 'modulation') {
+    engine.updateModulation();
+  } else {
+    engine.noteOff(event.note, event.time);
+  }
+}
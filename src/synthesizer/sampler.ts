@@ -0,0 +1,154 @@
+// Sample playback shared by both engines: root note detection, loop points
+// and the buffer source each voice starts for the 'sample' shape
+import { SampleSettings } from './SynthEngine';
+
+export const DEFAULT_SAMPLE: SampleSettings = {
+  id: '',
+  name: '',
+  rootNote: 60,
+  fineTune: 0,
+  start: 0,
+  loop: false,
+  loopStart: 0,
+  loopEnd: 1,
+};
+
+// File types the sampler loads, for file inputs and dropped files
+export const SAMPLE_FILE_ACCEPT = '.wav,.flac,.ogg,.oga,audio/wav,audio/x-wav,audio/flac,audio/ogg';
+
+export function isSampleFile(file: File): boolean {
+  return /\.(wav|flac|ogg|oga)$/i.test(file.name) || /^audio\/(x-)?(wav|flac|ogg)$/.test(file.type);
+}
+
+const NOTE_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+const NOTE_OFFSETS: { [letter: string]: number } = { c: 0, d: 2, e: 4, f: 5, g: 7, a: 9, b: 11 };
+
+// Sample libraries name notes with middle C (MIDI 60) as C4
+export function midiNoteName(note: number): string {
+  return `${NOTE_NAMES[((note % 12) + 12) % 12]}${Math.floor(note / 12) - 1}`;
+}
+
+// Root note written in a file name such as "Bass_C2.wav" or "pad-Eb4.flac"; the last one wins
+export function noteFromFileName(fileName: string): number | null {
+  const base = fileName.replace(/\.[^.]+$/, '');
+  const matches = [...base.matchAll(/(?:^|[^a-z])([a-g])([#b]?)(-?\d)(?!\d)/gi)];
+  const last = matches[matches.length - 1];
+  if (!last) return null;
+  const accidental = last[2] === '#' ? 1 : last[2] === 'b' ? -1 : 0;
+  const note = (Number(last[3]) + 1) * 12 + NOTE_OFFSETS[last[1].toLowerCase()] + accidental;
+  return note >= 0 && note <= 127 ? note : null;
+}
+
+// Range of pitches the detector looks for
+const DETECT_MIN_HZ = 30;
+const DETECT_MAX_HZ = 2000;
+// Below this the detector finds the signal periodic enough to trust
+const DETECT_THRESHOLD = 0.15;
+const DETECT_LIMIT = 0.5;
+
+// Fundamental frequency of the sample in Hz, or null when it has no clear pitch.
+// Uses the YIN difference function on a window just after the attack.
+export function detectPitch(buffer: AudioBuffer): number | null {
+  const rate = buffer.sampleRate;
+  const data = buffer.getChannelData(0);
+  const minLag = Math.floor(rate / DETECT_MAX_HZ);
+  const maxLag = Math.ceil(rate / DETECT_MIN_HZ);
+  const size = maxLag * 3;
+  // Skip the attack transient when the file is long enough
+  const start = Math.max(0, Math.min(Math.floor(rate * 0.05), data.length - size));
+  const window = Math.min(size, data.length - start) - maxLag;
+  if (window < maxLag) return null;
+
+  // Cumulative mean normalized difference for every lag
+  const normalized = new Float32Array(maxLag + 1);
+  let runningSum = 0;
+  normalized[0] = 1;
+  for (let lag = 1; lag <= maxLag; lag++) {
+    let difference = 0;
+    for (let i = 0; i < window; i++) {
+      const delta = data[start + i] - data[start + i + lag];
+      difference += delta * delta;
+    }
+    runningSum += difference;
+    normalized[lag] = runningSum > 0 ? (difference * lag) / runningSum : 1;
+  }
+
+  // First dip under the threshold, followed down to its bottom; otherwise the deepest dip
+  let best = -1;
+  for (let lag = minLag; lag < maxLag; lag++) {
+    if (normalized[lag] < DETECT_THRESHOLD) {
+      while (lag + 1 < maxLag && normalized[lag + 1] < normalized[lag]) lag++;
+      best = lag;
+      break;
+    }
+  }
+  if (best < 0) {
+    for (let lag = minLag; lag < maxLag; lag++) {
+      if (best < 0 || normalized[lag] < normalized[best]) best = lag;
+    }
+    if (best < 0 || normalized[best] > DETECT_LIMIT) return null;
+  }
+
+  // Parabolic interpolation between neighbouring lags
+  const before = normalized[best - 1];
+  const after = normalized[best + 1];
+  const curve = before + after - 2 * normalized[best];
+  const shift = curve > 0 ? (before - after) / (2 * curve) : 0;
+  return rate / (best + shift);
+}
+
+export interface RootNote {
+  rootNote: number;
+  fineTune: number; // Cents
+  detectedBy: 'name' | 'pitch' | 'default';
+}
+
+// Root note from the file name, else from the sample's pitch, else middle C
+export function detectRootNote(buffer: AudioBuffer, fileName: string): RootNote {
+  const named = noteFromFileName(fileName);
+  if (named !== null) {
+    return { rootNote: named, fineTune: 0, detectedBy: 'name' };
+  }
+  const frequency = detectPitch(buffer);
+  if (frequency !== null) {
+    const note = 69 + 12 * Math.log2(frequency / 440);
+    const rootNote = Math.max(0, Math.min(127, Math.round(note)));
+    const fineTune = Math.max(-50, Math.min(50, Math.round((note - rootNote) * 100)));
+    return { rootNote, fineTune, detectedBy: 'pitch' };
+  }
+  return { rootNote: DEFAULT_SAMPLE.rootNote, fineTune: 0, detectedBy: 'default' };
+}
+
+// Multiplies a note frequency into the playback rate that sounds it
+export function samplePitchScale(settings: SampleSettings): number {
+  const rootFrequency = 440 * Math.pow(2, (settings.rootNote + settings.fineTune / 100 - 69) / 12);
+  return 1 / rootFrequency;
+}
+
+function clamp01(value: number): number {
+  return Math.max(0, Math.min(1, value));
+}
+
+// Loop points in seconds; a loop only plays when its end comes after its start
+export function applySampleLoop(source: AudioBufferSourceNode, settings: SampleSettings) {
+  const duration = source.buffer?.duration ?? 0;
+  const loopStart = clamp01(settings.loopStart);
+  const loopEnd = clamp01(settings.loopEnd);
+  source.loop = settings.loop && loopEnd > loopStart;
+  source.loopStart = loopStart * duration;
+  source.loopEnd = loopEnd * duration;
+}
+
+// A source for one note, silent until the voice's pitch drives its playback rate.
+// Returns the offset into the file to start it from.
+export function createSampleSource(
+  context: BaseAudioContext,
+  buffer: AudioBuffer,
+  settings: SampleSettings
+): { source: AudioBufferSourceNode; offset: number } {
+  const source = context.createBufferSource();
+  source.buffer = buffer;
+  source.playbackRate.value = 0;
+  applySampleLoop(source, settings);
+  return { source, offset: clamp01(settings.start) * buffer.duration };
+}
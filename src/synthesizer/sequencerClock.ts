@@ -0,0 +1,196 @@
+// Look-ahead clock for the step sequencer. A timer wakes every 25 ms and hands
+// out every step that starts within the next 100 ms, with its time on the audio
+// clock, so the engine plays each note on time however late the timer runs.
+// The timer runs in a worker, which browsers keep ticking in background tabs.
+import { DEFAULT_PATTERN_STEPS, DEFAULT_PATTERN_TIMING, StepResolution, stepSeconds } from './patternPlayback';
+
+// Seconds between timer wakeups
+export const TICK_INTERVAL = 0.025;
+
+// Seconds ahead of the audio clock that steps and their events are scheduled
+export const SCHEDULE_AHEAD = 0.1;
+
+// Gap before the first step, so it can be scheduled ahead like the rest
+const START_DELAY = 0.05;
+
+const TIMER_SOURCE = `
+let timer = null;
+onmessage = (event) => {
+  clearInterval(timer);
+  timer = event.data > 0 ? setInterval(() => postMessage('tick'), event.data) : null;
+};
+`;
+
+let timerUrl: string | null = null;
+
+function getTimerUrl(): string {
+  if (!timerUrl) {
+    const blob = new Blob([TIMER_SOURCE], { type: 'application/javascript' });
+    timerUrl = URL.createObjectURL(blob);
+  }
+  return timerUrl;
+}
+
+// Where the clock sends its steps
+export interface SequencerClockOutput {
+  currentTime(): number; // Seconds on the audio clock the steps are scheduled against
+  playStep(step: number, time: number, stepDuration: number): void;
+  showStep(step: number): void; // The audio clock has reached the step
+}
+
+interface ClockEvent {
+  time: number;
+  run: (time: number) => void;
+}
+
+export class SequencerClock {
+  private output: SequencerClockOutput;
+  private tempo = 120;
+  private resolution: StepResolution = DEFAULT_PATTERN_TIMING.resolution;
+  private length = DEFAULT_PATTERN_STEPS;
+  private running = false;
+  private nextStep = 0;
+  private nextStepTime = 0;
+  private stepDuration = stepSeconds(120, DEFAULT_PATTERN_TIMING.resolution); // Seconds between the last two steps handed out
+  private events: ClockEvent[] = []; // Follow-up events such as note-offs, in time order
+  private scheduledSteps: { step: number; time: number }[] = []; // Handed out but not yet shown
+  private worker: Worker | null = null;
+  private interval: ReturnType<typeof setInterval> | null = null;
+  private frame: number | null = null;
+
+  constructor(output: SequencerClockOutput) {
+    this.output = output;
+  }
+
+  // Starts playing at a step shortly from now
+  start(step: number) {
+    this.stop();
+    this.running = true;
+    this.nextStep = step % this.length;
+    this.nextStepTime = this.output.currentTime() + START_DELAY;
+    this.startTimer();
+    this.tick();
+    this.frame = requestAnimationFrame(this.draw);
+  }
+
+  stop() {
+    this.running = false;
+    this.stopTimer();
+    if (this.frame !== null) {
+      cancelAnimationFrame(this.frame);
+      this.frame = null;
+    }
+    this.events = [];
+    this.scheduledSteps = [];
+  }
+
+  // Tempo and resolution changes take effect from the next step not yet scheduled, without restarting
+  setTempo(bpm: number) {
+    this.tempo = bpm;
+  }
+
+  setResolution(resolution: StepResolution) {
+    this.resolution = resolution;
+  }
+
+  setLength(length: number) {
+    this.length = Math.max(1, length);
+    this.nextStep %= this.length;
+  }
+
+  // Runs a callback ahead of an audio time, in order with the steps, so it can
+  // schedule something on the engine such as a note's release
+  at(time: number, run: (time: number) => void) {
+    if (!this.running) return;
+    const index = this.events.findIndex((event) => event.time > time);
+    this.events.splice(index === -1 ? this.events.length : index, 0, { time, run });
+  }
+
+  // Drops the follow-up events not yet handed out, leaving the steps running
+  cancelEvents() {
+    this.events = [];
+  }
+
+  dispose() {
+    this.stop();
+    this.worker?.terminate();
+    this.worker = null;
+  }
+
+  private startTimer() {
+    if (typeof Worker !== 'undefined') {
+      try {
+        if (!this.worker) {
+          this.worker = new Worker(getTimerUrl());
+          this.worker.onmessage = () => this.tick();
+        }
+        this.worker.postMessage(TICK_INTERVAL * 1000);
+        return;
+      } catch (e) {
+        console.warn('Sequencer timer worker unavailable, using the page timer:', e);
+        this.worker = null;
+      }
+    }
+    this.interval = setInterval(() => this.tick(), TICK_INTERVAL * 1000);
+  }
+
+  private stopTimer() {
+    this.worker?.postMessage(0);
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+  }
+
+  private tick() {
+    if (!this.running) return;
+    const now = this.output.currentTime();
+
+    if (this.nextStepTime > now + SCHEDULE_AHEAD + this.stepDuration) {
+      // Further ahead than any step gets, so the engine and its audio clock have been replaced
+      this.nextStepTime = now;
+      this.events = [];
+      this.scheduledSteps = [];
+    } else if (this.nextStepTime < now) {
+      // Steps left behind by a stalled timer play late rather than in a burst
+      this.nextStepTime = now;
+    }
+
+    const horizon = now + SCHEDULE_AHEAD;
+    while (this.running) {
+      const event = this.events[0];
+      if (event && event.time < horizon && event.time <= this.nextStepTime) {
+        this.events.shift();
+        event.run(event.time);
+      } else if (this.nextStepTime < horizon) {
+        const step = this.nextStep;
+        const time = this.nextStepTime;
+        this.scheduledSteps.push({ step, time });
+        this.stepDuration = stepSeconds(this.tempo, this.resolution);
+        this.nextStep = (step + 1) % this.length;
+        this.nextStepTime += this.stepDuration;
+        this.output.playStep(step, time, this.stepDuration);
+      } else {
+        break;
+      }
+    }
+    this.showReachedSteps(now);
+  }
+
+  private draw = () => {
+    if (!this.running) return;
+    this.showReachedSteps(this.output.currentTime());
+    this.frame = requestAnimationFrame(this.draw);
+  };
+
+  // Shows the latest step the audio clock has reached
+  private showReachedSteps(now: number) {
+    let reached: number | null = null;
+    while (this.scheduledSteps.length > 0 && this.scheduledSteps[0].time <= now) {
+      reached = this.scheduledSteps.shift()!.step;
+    }
+    if (reached !== null) {
+      this.output.showStep(reached);
+    }
+  }
+}
@@ -1,13 +1,22 @@
 // State management for synthesizer
 import { create } from 'zustand';
-import { SynthesizerParams } from './WebAudioSynthesizer';
+import { SynthesizerParams, EngineType, DEFAULT_INSERT_PARAMS } from './SynthEngine';
 import { Patch } from './PatchDatabase';
+import { SampleInfo } from './SampleLibrary';
+import { DEFAULT_WAVETABLE } from './wavetable';
+import { DEFAULT_TUNING } from './tuning';
+import { DEFAULT_SAMPLE } from './sampler';
+import { DEFAULT_MOD_MATRIX } from './modMatrix';
+import { ArpeggiatorSettings, DEFAULT_ARPEGGIATOR } from './arpeggiator';
+import { DEFAULT_DRUM_KIT, DrumTracks, DrumType, DrumVoiceSettings, emptyDrumPattern, resizeDrumPattern } from './drums';
+import { DEFAULT_PATTERN_TIMING, MAX_PATTERN_STEPS, MIN_PATTERN_STEPS, PatternTiming } from './patternPlayback';
 
 export interface SequencerNote {
   note: number; // MIDI note number, 0 = rest
   velocity: number; // 0-1
   duration: number; // 0-1 (relative to step duration)
   slide: boolean; // Whether to slide to this note from the previous one
+  accent: boolean; // Whether this step is accented (louder, brighter, more resonant)
   enabled: boolean; // Whether this step plays
 }
 
@@ -15,14 +24,20 @@ interface SynthesizerState {
   params: SynthesizerParams;
   activeKeys: Set<number>;
   patches: Patch[];
+  samples: SampleInfo[]; // Files in the local sample library
   currentPatchId: number | null;
   isPlaying: boolean;
   displayText: string;
   controlMode: 'knobs' | 'sliders'; // Toggle between knobs and sliders
   currentPreset: string; // Track current preset
+  engineType: EngineType; // Audio backend, remembered between sessions
+  masterVolume: number; // 0-1, engine output level; the patch's own level is params.volume
+  arpeggiator: ArpeggiatorSettings; // Kept across preset changes; patches carry it when saveWithPatch is on
   
   // Sequencer state
-  sequencerSteps: SequencerNote[];
+  sequencerSteps: SequencerNote[]; // 1-64 steps; the pattern length is the number of steps
+  sequencerTiming: PatternTiming; // Step resolution and time signature
+  drums: DrumTracks; // Drum rows and kit, kept across preset changes; the rows follow the pattern length
   currentStep: number;
   tempo: number; // BPM
   isSequencerRunning: boolean;
@@ -30,13 +45,23 @@ interface SynthesizerState {
   setParams: (params: Partial<SynthesizerParams>) => void;
   setActiveKey: (key: number, active: boolean) => void;
   setPatches: (patches: Patch[]) => void;
+  setSamples: (samples: SampleInfo[]) => void;
   setCurrentPatchId: (id: number | null) => void;
   setIsPlaying: (playing: boolean) => void;
   setDisplayText: (text: string) => void;
   setControlMode: (mode: 'knobs' | 'sliders') => void;
+  setArpeggiator: (settings: Partial<ArpeggiatorSettings>) => void;
+  setEngineType: (type: EngineType) => void;
+  setMasterVolume: (volume: number) => void;
   
   // Sequencer methods
   setSequencerStep: (index: number, note: SequencerNote) => void;
+  setSequencerSteps: (steps: SequencerNote[]) => void;
+  setPatternLength: (length: number) => void;
+  setSequencerTiming: (timing: Partial<PatternTiming>) => void;
+  setDrumStep: (drum: DrumType, index: number, on: boolean) => void;
+  setDrumVoice: (drum: DrumType, settings: Partial<DrumVoiceSettings>) => void;
+  setDrums: (drums: DrumTracks) => void;
   setCurrentStep: (step: number) => void;
   setTempo: (bpm: number) => void;
   setIsSequencerRunning: (running: boolean) => void;
@@ -45,10 +70,11 @@ interface SynthesizerState {
   generateRandomSequence: () => void;
 }
 
-// Preset definitions with complete synth parameters and sequences
+// Preset definitions with complete synth parameters and sequences. Presets don't
+// carry a tuning or a sample, so the session's ones stay in place when one is loaded.
 interface PresetDefinition {
   name: string;
-  params: SynthesizerParams;
+  params: Omit<SynthesizerParams, 'tuning' | 'sample'>;
   tempo: number;
   sequencerSteps: SequencerNote[];
 }
@@ -60,6 +86,19 @@ const PRESETS: { [key: string]: PresetDefinition } = {
       oscillatorType: 'sawtooth',
       frequency: 440,
       volume: 0.32,
+      wavetable: DEFAULT_WAVETABLE,
+      wavetablePosition: 0,
+      osc1Level: 1,
+      osc2Type: 'sawtooth',
+      osc2Level: 0,
+      osc2Octave: 0,
+      osc2Semitone: 0,
+      osc2Fine: 0,
+      osc2Sync: false,
+      subLevel: 0,
+      subOctave: 1,
+      noiseLevel: 0,
+      noiseType: 'white',
       attack: 0.005,
       decay: 0.15,
       sustain: 0.25,
@@ -67,31 +106,62 @@ const PRESETS: { [key: string]: PresetDefinition } = {
       cutoff: 1300,
       resonance: 10,
       filterType: 'lowpass',
+      filterAttack: 0.001,
+      filterDecay: 0.25,
+      filterSustain: 0,
+      filterRelease: 0.1,
+      filterEnvAmount: 0.6,
+      filterKeyTrack: 0.3,
       lfoRate: 3.8,
       lfoAmount: 0.25,
-      detuneAmount: 0.08,
+      lfoWaveform: 'sine',
+      lfoDestination: 'pitch',
+      lfoRetrigger: false,
+      lfoSync: false,
+      lfoSyncDivision: '1/4',
+      detuneAmount: 8,
       ringModAmount: 0,
+      ringModMode: 'track',
+      ringModRatio: 2,
+      ringModFrequency: 440,
       wetness: 0.25,
       coarseness: 0.6,
+      driveCurve: 'soft',
+      crushBits: 16,
+      crushRate: 0,
+      voiceMode: 'mono',
+      glideTime: 0.06,
+      maxPolyphony: 4,
+      voiceStealing: 'oldest',
+      unisonVoices: 1,
+      unisonDetune: 20,
+      unisonCurve: 0.5,
+      unisonSpread: 0.7,
+      accentAmount: 0.7,
+      velocityToFilter: 0.4,
+      reverbDecay: 1.5,
+      reverbPreDelay: 0.01,
+      modMatrix: DEFAULT_MOD_MATRIX,
+      ...DEFAULT_INSERT_PARAMS,
     },
     tempo: 125,
     sequencerSteps: [
-      { note: 36, velocity: 0.92, duration: 0.8, slide: false, enabled: true },
-      { note: 36, velocity: 0.85, duration: 0.5, slide: false, enabled: true },
-      { note: 40, velocity: 0.92, duration: 0.8, slide: true, enabled: true },
-      { note: 43, velocity: 0.92, duration: 0.8, slide: false, enabled: true },
-      { note: 41, velocity: 0.92, duration: 0.8, slide: true, enabled: true },
-      { note: 38, velocity: 0.92, duration: 0.6, slide: false, enabled: true },
-      { note: 0, velocity: 0.92, duration: 0.5, slide: false, enabled: false },
-      { note: 38, velocity: 0.92, duration: 0.8, slide: true, enabled: true },
-      { note: 43, velocity: 0.92, duration: 0.8, slide: false, enabled: true },
-      { note: 41, velocity: 0.92, duration: 0.8, slide: true, enabled: true },
-      { note: 39, velocity: 0.88, duration: 0.6, slide: false, enabled: true },
-      { note: 36, velocity: 0.92, duration: 1.2, slide: false, enabled: true },
-      { note: 40, velocity: 0.92, duration: 0.8, slide: false, enabled: true },
-      { note: 43, velocity: 0.92, duration: 0.8, slide: true, enabled: true },
-      { note: 38, velocity: 0.92, duration: 0.6, slide: false, enabled: true },
-      { note: 36, velocity: 0.92, duration: 0.8, slide: false, enabled: true },
+      { note: 36, velocity: 0.92, duration: 0.8, slide: false, accent: true, enabled: true },
+      { note: 36, velocity: 0.85, duration: 0.5, slide: false, accent: false, enabled: true },
+      { note: 40, velocity: 0.92, duration: 0.8, slide: true, accent: false, enabled: true },
+      { note: 43, velocity: 0.92, duration: 0.8, slide: false, accent: true, enabled: true },
+      { note: 41, velocity: 0.92, duration: 0.8, slide: true, accent: false, enabled: true },
+      { note: 38, velocity: 0.92, duration: 0.6, slide: false, accent: false, enabled: true },
+      { note: 0, velocity: 0.92, duration: 0.5, slide: false, accent: false, enabled: false },
+      { note: 38, velocity: 0.92, duration: 0.8, slide: true, accent: false, enabled: true },
+      { note: 43, velocity: 0.92, duration: 0.8, slide: false, accent: true, enabled: true },
+      { note: 41, velocity: 0.92, duration: 0.8, slide: true, accent: false, enabled: true },
+      { note: 39, velocity: 0.88, duration: 0.6, slide: false, accent: false, enabled: true },
+      { note: 36, velocity: 0.92, duration: 1.2, slide: false, accent: true, enabled: true },
+      { note: 40, velocity: 0.92, duration: 0.8, slide: false, accent: false, enabled: true },
+      { note: 43, velocity: 0.92, duration: 0.8, slide: true, accent: true, enabled: true },
+      { note: 38, velocity: 0.92, duration: 0.6, slide: false, accent: false, enabled: true },
+      { note: 36, velocity: 0.92, duration: 0.8, slide: false, accent: false, enabled: true },
     ],
   },
   padAmbient: {
@@ -100,6 +170,19 @@ const PRESETS: { [key: string]: PresetDefinition } = {
       oscillatorType: 'sine',
       frequency: 440,
       volume: 0.15,
+      wavetable: DEFAULT_WAVETABLE,
+      wavetablePosition: 0,
+      osc1Level: 1,
+      osc2Type: 'sawtooth',
+      osc2Level: 0.6,
+      osc2Octave: 0,
+      osc2Semitone: 0,
+      osc2Fine: 7,
+      osc2Sync: false,
+      subLevel: 0,
+      subOctave: 1,
+      noiseLevel: 0,
+      noiseType: 'white',
       attack: 0.5,
       decay: 0.8,
       sustain: 0.6,
@@ -107,31 +190,62 @@ const PRESETS: { [key: string]: PresetDefinition } = {
       cutoff: 4000,
       resonance: 1,
       filterType: 'lowpass',
+      filterAttack: 0.8,
+      filterDecay: 1.5,
+      filterSustain: 0.4,
+      filterRelease: 1.2,
+      filterEnvAmount: 0.15,
+      filterKeyTrack: 0.2,
       lfoRate: 1.2,
       lfoAmount: 0.35,
-      detuneAmount: 0.2,
+      lfoWaveform: 'triangle',
+      lfoDestination: 'pitch',
+      lfoRetrigger: false,
+      lfoSync: false,
+      lfoSyncDivision: '1/2',
+      detuneAmount: 20,
       ringModAmount: 0,
+      ringModMode: 'track',
+      ringModRatio: 2,
+      ringModFrequency: 440,
       wetness: 0.6,
       coarseness: 0.3,
+      driveCurve: 'soft',
+      crushBits: 16,
+      crushRate: 0,
+      voiceMode: 'poly',
+      glideTime: 0.3,
+      maxPolyphony: 12,
+      voiceStealing: 'quietest',
+      unisonVoices: 1,
+      unisonDetune: 20,
+      unisonCurve: 0.5,
+      unisonSpread: 0.7,
+      accentAmount: 0.2,
+      velocityToFilter: 0.1,
+      reverbDecay: 6,
+      reverbPreDelay: 0.05,
+      modMatrix: DEFAULT_MOD_MATRIX,
+      ...DEFAULT_INSERT_PARAMS,
     },
     tempo: 60,
     sequencerSteps: [
-      { note: 48, velocity: 0.6, duration: 1.0, slide: false, enabled: true },
-      { note: 0, velocity: 0.6, duration: 1.0, slide: false, enabled: false },
-      { note: 52, velocity: 0.6, duration: 1.0, slide: false, enabled: true },
-      { note: 0, velocity: 0.6, duration: 1.0, slide: false, enabled: false },
-      { note: 55, velocity: 0.6, duration: 1.0, slide: false, enabled: true },
-      { note: 0, velocity: 0.6, duration: 1.0, slide: false, enabled: false },
-      { note: 60, velocity: 0.6, duration: 1.0, slide: true, enabled: true },
-      { note: 0, velocity: 0.6, duration: 1.0, slide: false, enabled: false },
-      { note: 48, velocity: 0.6, duration: 1.0, slide: false, enabled: true },
-      { note: 0, velocity: 0.6, duration: 1.0, slide: false, enabled: false },
-      { note: 52, velocity: 0.6, duration: 1.0, slide: false, enabled: true },
-      { note: 0, velocity: 0.6, duration: 1.0, slide: false, enabled: false },
-      { note: 55, velocity: 0.6, duration: 1.0, slide: false, enabled: true },
-      { note: 0, velocity: 0.6, duration: 1.0, slide: false, enabled: false },
-      { note: 57, velocity: 0.6, duration: 1.0, slide: true, enabled: true },
-      { note: 0, velocity: 0.6, duration: 1.0, slide: false, enabled: false },
+      { note: 48, velocity: 0.6, duration: 1.0, slide: false, accent: false, enabled: true },
+      { note: 0, velocity: 0.6, duration: 1.0, slide: false, accent: false, enabled: false },
+      { note: 52, velocity: 0.6, duration: 1.0, slide: false, accent: false, enabled: true },
+      { note: 0, velocity: 0.6, duration: 1.0, slide: false, accent: false, enabled: false },
+      { note: 55, velocity: 0.6, duration: 1.0, slide: false, accent: false, enabled: true },
+      { note: 0, velocity: 0.6, duration: 1.0, slide: false, accent: false, enabled: false },
+      { note: 60, velocity: 0.6, duration: 1.0, slide: true, accent: false, enabled: true },
+      { note: 0, velocity: 0.6, duration: 1.0, slide: false, accent: false, enabled: false },
+      { note: 48, velocity: 0.6, duration: 1.0, slide: false, accent: false, enabled: true },
+      { note: 0, velocity: 0.6, duration: 1.0, slide: false, accent: false, enabled: false },
+      { note: 52, velocity: 0.6, duration: 1.0, slide: false, accent: false, enabled: true },
+      { note: 0, velocity: 0.6, duration: 1.0, slide: false, accent: false, enabled: false },
+      { note: 55, velocity: 0.6, duration: 1.0, slide: false, accent: false, enabled: true },
+      { note: 0, velocity: 0.6, duration: 1.0, slide: false, accent: false, enabled: false },
+      { note: 57, velocity: 0.6, duration: 1.0, slide: true, accent: false, enabled: true },
+      { note: 0, velocity: 0.6, duration: 1.0, slide: false, accent: false, enabled: false },
     ],
   },
   leadBright: {
@@ -140,6 +254,19 @@ const PRESETS: { [key: string]: PresetDefinition } = {
       oscillatorType: 'square',
       frequency: 440,
       volume: 0.22,
+      wavetable: DEFAULT_WAVETABLE,
+      wavetablePosition: 0,
+      osc1Level: 1,
+      osc2Type: 'sawtooth',
+      osc2Level: 0.5,
+      osc2Octave: 0,
+      osc2Semitone: 7,
+      osc2Fine: 0,
+      osc2Sync: false,
+      subLevel: 0,
+      subOctave: 1,
+      noiseLevel: 0,
+      noiseType: 'white',
       attack: 0.005,
       decay: 0.12,
       sustain: 0.4,
@@ -147,31 +274,62 @@ const PRESETS: { [key: string]: PresetDefinition } = {
       cutoff: 5000,
       resonance: 3,
       filterType: 'lowpass',
+      filterAttack: 0.005,
+      filterDecay: 0.3,
+      filterSustain: 0.2,
+      filterRelease: 0.15,
+      filterEnvAmount: 0.3,
+      filterKeyTrack: 0.5,
       lfoRate: 7,
       lfoAmount: 0.12,
-      detuneAmount: 0.15,
+      lfoWaveform: 'sine',
+      lfoDestination: 'pulseWidth',
+      lfoRetrigger: true,
+      lfoSync: false,
+      lfoSyncDivision: '1/8',
+      detuneAmount: 15,
       ringModAmount: 0,
+      ringModMode: 'track',
+      ringModRatio: 2,
+      ringModFrequency: 440,
       wetness: 0.2,
       coarseness: 0.7,
+      driveCurve: 'hard',
+      crushBits: 16,
+      crushRate: 0,
+      voiceMode: 'poly',
+      glideTime: 0.05,
+      maxPolyphony: 8,
+      voiceStealing: 'oldest',
+      unisonVoices: 1,
+      unisonDetune: 20,
+      unisonCurve: 0.5,
+      unisonSpread: 0.7,
+      accentAmount: 0.4,
+      velocityToFilter: 0.2,
+      reverbDecay: 2,
+      reverbPreDelay: 0.02,
+      modMatrix: DEFAULT_MOD_MATRIX,
+      ...DEFAULT_INSERT_PARAMS,
     },
     tempo: 140,
     sequencerSteps: [
-      { note: 60, velocity: 0.9, duration: 0.6, slide: false, enabled: true },
-      { note: 62, velocity: 0.8, duration: 0.5, slide: false, enabled: true },
-      { note: 64, velocity: 0.85, duration: 0.7, slide: false, enabled: true },
-      { note: 65, velocity: 0.9, duration: 0.6, slide: false, enabled: true },
-      { note: 67, velocity: 0.8, duration: 0.5, slide: false, enabled: true },
-      { note: 69, velocity: 0.85, duration: 0.7, slide: false, enabled: true },
-      { note: 70, velocity: 0.9, duration: 0.6, slide: true, enabled: true },
-      { note: 72, velocity: 0.8, duration: 0.5, slide: true, enabled: true },
-      { note: 64, velocity: 0.85, duration: 0.7, slide: false, enabled: true },
-      { note: 60, velocity: 0.9, duration: 0.6, slide: false, enabled: true },
-      { note: 0, velocity: 0.8, duration: 0.5, slide: false, enabled: false },
-      { note: 62, velocity: 0.85, duration: 0.7, slide: false, enabled: true },
-      { note: 67, velocity: 0.9, duration: 0.6, slide: false, enabled: true },
-      { note: 0, velocity: 0.8, duration: 0.5, slide: false, enabled: false },
-      { note: 64, velocity: 0.85, duration: 0.7, slide: false, enabled: true },
-      { note: 60, velocity: 0.9, duration: 0.8, slide: false, enabled: true },
+      { note: 60, velocity: 0.9, duration: 0.6, slide: false, accent: true, enabled: true },
+      { note: 62, velocity: 0.8, duration: 0.5, slide: false, accent: false, enabled: true },
+      { note: 64, velocity: 0.85, duration: 0.7, slide: false, accent: false, enabled: true },
+      { note: 65, velocity: 0.9, duration: 0.6, slide: false, accent: false, enabled: true },
+      { note: 67, velocity: 0.8, duration: 0.5, slide: false, accent: false, enabled: true },
+      { note: 69, velocity: 0.85, duration: 0.7, slide: false, accent: false, enabled: true },
+      { note: 70, velocity: 0.9, duration: 0.6, slide: true, accent: true, enabled: true },
+      { note: 72, velocity: 0.8, duration: 0.5, slide: true, accent: false, enabled: true },
+      { note: 64, velocity: 0.85, duration: 0.7, slide: false, accent: false, enabled: true },
+      { note: 60, velocity: 0.9, duration: 0.6, slide: false, accent: false, enabled: true },
+      { note: 0, velocity: 0.8, duration: 0.5, slide: false, accent: false, enabled: false },
+      { note: 62, velocity: 0.85, duration: 0.7, slide: false, accent: false, enabled: true },
+      { note: 67, velocity: 0.9, duration: 0.6, slide: false, accent: false, enabled: true },
+      { note: 0, velocity: 0.8, duration: 0.5, slide: false, accent: false, enabled: false },
+      { note: 64, velocity: 0.85, duration: 0.7, slide: false, accent: false, enabled: true },
+      { note: 60, velocity: 0.9, duration: 0.8, slide: false, accent: true, enabled: true },
     ],
   },
   bassDeep: {
@@ -180,6 +338,19 @@ const PRESETS: { [key: string]: PresetDefinition } = {
       oscillatorType: 'sawtooth',
       frequency: 440,
       volume: 0.35,
+      wavetable: DEFAULT_WAVETABLE,
+      wavetablePosition: 0,
+      osc1Level: 1,
+      osc2Type: 'square',
+      osc2Level: 0,
+      osc2Octave: 0,
+      osc2Semitone: 0,
+      osc2Fine: 0,
+      osc2Sync: false,
+      subLevel: 0.6,
+      subOctave: 1,
+      noiseLevel: 0,
+      noiseType: 'white',
       attack: 0.005,
       decay: 0.2,
       sustain: 0.2,
@@ -187,31 +358,62 @@ const PRESETS: { [key: string]: PresetDefinition } = {
       cutoff: 900,
       resonance: 12,
       filterType: 'lowpass',
+      filterAttack: 0.002,
+      filterDecay: 0.3,
+      filterSustain: 0.05,
+      filterRelease: 0.2,
+      filterEnvAmount: 0.45,
+      filterKeyTrack: 0.2,
       lfoRate: 2.5,
       lfoAmount: 0.2,
-      detuneAmount: 0.1,
+      lfoWaveform: 'triangle',
+      lfoDestination: 'cutoff',
+      lfoRetrigger: false,
+      lfoSync: true,
+      lfoSyncDivision: '1/2',
+      detuneAmount: 10,
       ringModAmount: 0,
+      ringModMode: 'track',
+      ringModRatio: 2,
+      ringModFrequency: 440,
       wetness: 0.15,
       coarseness: 0.8,
+      driveCurve: 'soft',
+      crushBits: 14,
+      crushRate: 0,
+      voiceMode: 'mono',
+      glideTime: 0.08,
+      maxPolyphony: 4,
+      voiceStealing: 'oldest',
+      unisonVoices: 1,
+      unisonDetune: 20,
+      unisonCurve: 0.5,
+      unisonSpread: 0.7,
+      accentAmount: 0.6,
+      velocityToFilter: 0.3,
+      reverbDecay: 1.2,
+      reverbPreDelay: 0.01,
+      modMatrix: DEFAULT_MOD_MATRIX,
+      ...DEFAULT_INSERT_PARAMS,
     },
     tempo: 95,
     sequencerSteps: [
-      { note: 24, velocity: 0.95, duration: 0.8, slide: false, enabled: true },
-      { note: 0, velocity: 0.95, duration: 0.4, slide: false, enabled: false },
-      { note: 29, velocity: 0.92, duration: 0.8, slide: true, enabled: true },
-      { note: 0, velocity: 0.95, duration: 0.4, slide: false, enabled: false },
-      { note: 26, velocity: 0.93, duration: 0.8, slide: true, enabled: true },
-      { note: 0, velocity: 0.95, duration: 0.4, slide: false, enabled: false },
-      { note: 22, velocity: 0.92, duration: 0.8, slide: false, enabled: true },
-      { note: 0, velocity: 0.95, duration: 0.4, slide: false, enabled: false },
-      { note: 24, velocity: 0.95, duration: 0.8, slide: false, enabled: true },
-      { note: 0, velocity: 0.95, duration: 0.4, slide: false, enabled: false },
-      { note: 31, velocity: 0.93, duration: 0.8, slide: true, enabled: true },
-      { note: 0, velocity: 0.95, duration: 0.4, slide: false, enabled: false },
-      { note: 26, velocity: 0.92, duration: 0.8, slide: true, enabled: true },
-      { note: 0, velocity: 0.95, duration: 0.4, slide: false, enabled: false },
-      { note: 24, velocity: 0.93, duration: 1.0, slide: false, enabled: true },
-      { note: 0, velocity: 0.95, duration: 0.4, slide: false, enabled: false },
+      { note: 24, velocity: 0.95, duration: 0.8, slide: false, accent: true, enabled: true },
+      { note: 0, velocity: 0.95, duration: 0.4, slide: false, accent: false, enabled: false },
+      { note: 29, velocity: 0.92, duration: 0.8, slide: true, accent: false, enabled: true },
+      { note: 0, velocity: 0.95, duration: 0.4, slide: false, accent: false, enabled: false },
+      { note: 26, velocity: 0.93, duration: 0.8, slide: true, accent: false, enabled: true },
+      { note: 0, velocity: 0.95, duration: 0.4, slide: false, accent: false, enabled: false },
+      { note: 22, velocity: 0.92, duration: 0.8, slide: false, accent: false, enabled: true },
+      { note: 0, velocity: 0.95, duration: 0.4, slide: false, accent: false, enabled: false },
+      { note: 24, velocity: 0.95, duration: 0.8, slide: false, accent: true, enabled: true },
+      { note: 0, velocity: 0.95, duration: 0.4, slide: false, accent: false, enabled: false },
+      { note: 31, velocity: 0.93, duration: 0.8, slide: true, accent: true, enabled: true },
+      { note: 0, velocity: 0.95, duration: 0.4, slide: false, accent: false, enabled: false },
+      { note: 26, velocity: 0.92, duration: 0.8, slide: true, accent: false, enabled: true },
+      { note: 0, velocity: 0.95, duration: 0.4, slide: false, accent: false, enabled: false },
+      { note: 24, velocity: 0.93, duration: 1.0, slide: false, accent: false, enabled: true },
+      { note: 0, velocity: 0.95, duration: 0.4, slide: false, accent: false, enabled: false },
     ],
   },
   pluckStaccato: {
@@ -220,6 +422,19 @@ const PRESETS: { [key: string]: PresetDefinition } = {
       oscillatorType: 'triangle',
       frequency: 440,
       volume: 0.24,
+      wavetable: DEFAULT_WAVETABLE,
+      wavetablePosition: 0,
+      osc1Level: 1,
+      osc2Type: 'triangle',
+      osc2Level: 0.4,
+      osc2Octave: 1,
+      osc2Semitone: 0,
+      osc2Fine: 0,
+      osc2Sync: false,
+      subLevel: 0,
+      subOctave: 1,
+      noiseLevel: 0.08,
+      noiseType: 'pink',
       attack: 0.002,
       decay: 0.08,
       sustain: 0.05,
@@ -227,31 +442,62 @@ const PRESETS: { [key: string]: PresetDefinition } = {
       cutoff: 3500,
       resonance: 4,
       filterType: 'highpass',
+      filterAttack: 0.001,
+      filterDecay: 0.1,
+      filterSustain: 0,
+      filterRelease: 0.05,
+      filterEnvAmount: 0.5,
+      filterKeyTrack: 0.5,
       lfoRate: 5,
       lfoAmount: 0.1,
-      detuneAmount: 0.1,
+      lfoWaveform: 'triangle',
+      lfoDestination: 'pitch',
+      lfoRetrigger: false,
+      lfoSync: false,
+      lfoSyncDivision: '1/8',
+      detuneAmount: 10,
       ringModAmount: 0,
+      ringModMode: 'track',
+      ringModRatio: 2,
+      ringModFrequency: 440,
       wetness: 0.1,
       coarseness: 0.4,
+      driveCurve: 'soft',
+      crushBits: 16,
+      crushRate: 0,
+      voiceMode: 'poly',
+      glideTime: 0.03,
+      maxPolyphony: 8,
+      voiceStealing: 'quietest',
+      unisonVoices: 1,
+      unisonDetune: 20,
+      unisonCurve: 0.5,
+      unisonSpread: 0.7,
+      accentAmount: 0.5,
+      velocityToFilter: 0.3,
+      reverbDecay: 1,
+      reverbPreDelay: 0.01,
+      modMatrix: DEFAULT_MOD_MATRIX,
+      ...DEFAULT_INSERT_PARAMS,
     },
     tempo: 160,
     sequencerSteps: [
-      { note: 54, velocity: 0.9, duration: 0.3, slide: false, enabled: true },
-      { note: 57, velocity: 0.8, duration: 0.3, slide: false, enabled: true },
-      { note: 59, velocity: 0.85, duration: 0.3, slide: false, enabled: true },
-      { note: 54, velocity: 0.9, duration: 0.3, slide: false, enabled: true },
-      { note: 62, velocity: 0.8, duration: 0.3, slide: false, enabled: true },
-      { note: 57, velocity: 0.85, duration: 0.3, slide: false, enabled: true },
-      { note: 54, velocity: 0.9, duration: 0.3, slide: false, enabled: true },
-      { note: 0, velocity: 0.8, duration: 0.3, slide: false, enabled: false },
-      { note: 59, velocity: 0.85, duration: 0.3, slide: false, enabled: true },
-      { note: 54, velocity: 0.9, duration: 0.3, slide: false, enabled: true },
-      { note: 57, velocity: 0.8, duration: 0.3, slide: false, enabled: true },
-      { note: 62, velocity: 0.85, duration: 0.3, slide: false, enabled: true },
-      { note: 54, velocity: 0.9, duration: 0.3, slide: false, enabled: true },
-      { note: 59, velocity: 0.8, duration: 0.3, slide: false, enabled: true },
-      { note: 57, velocity: 0.85, duration: 0.3, slide: false, enabled: true },
-      { note: 54, velocity: 0.9, duration: 0.3, slide: false, enabled: true },
+      { note: 54, velocity: 0.9, duration: 0.3, slide: false, accent: true, enabled: true },
+      { note: 57, velocity: 0.8, duration: 0.3, slide: false, accent: false, enabled: true },
+      { note: 59, velocity: 0.85, duration: 0.3, slide: false, accent: false, enabled: true },
+      { note: 54, velocity: 0.9, duration: 0.3, slide: false, accent: false, enabled: true },
+      { note: 62, velocity: 0.8, duration: 0.3, slide: false, accent: false, enabled: true },
+      { note: 57, velocity: 0.85, duration: 0.3, slide: false, accent: false, enabled: true },
+      { note: 54, velocity: 0.9, duration: 0.3, slide: false, accent: false, enabled: true },
+      { note: 0, velocity: 0.8, duration: 0.3, slide: false, accent: false, enabled: false },
+      { note: 59, velocity: 0.85, duration: 0.3, slide: false, accent: false, enabled: true },
+      { note: 54, velocity: 0.9, duration: 0.3, slide: false, accent: true, enabled: true },
+      { note: 57, velocity: 0.8, duration: 0.3, slide: false, accent: false, enabled: true },
+      { note: 62, velocity: 0.85, duration: 0.3, slide: false, accent: false, enabled: true },
+      { note: 54, velocity: 0.9, duration: 0.3, slide: false, accent: false, enabled: true },
+      { note: 59, velocity: 0.8, duration: 0.3, slide: false, accent: false, enabled: true },
+      { note: 57, velocity: 0.85, duration: 0.3, slide: false, accent: false, enabled: true },
+      { note: 54, velocity: 0.9, duration: 0.3, slide: false, accent: false, enabled: true },
     ],
   },
   experimental: {
@@ -260,6 +506,19 @@ const PRESETS: { [key: string]: PresetDefinition } = {
       oscillatorType: 'square',
       frequency: 440,
       volume: 0.18,
+      wavetable: DEFAULT_WAVETABLE,
+      wavetablePosition: 0,
+      osc1Level: 0.6,
+      osc2Type: 'sawtooth',
+      osc2Level: 0.7,
+      osc2Octave: 1,
+      osc2Semitone: 5,
+      osc2Fine: 0,
+      osc2Sync: true,
+      subLevel: 0,
+      subOctave: 2,
+      noiseLevel: 0.15,
+      noiseType: 'white',
       attack: 0.08,
       decay: 0.2,
       sustain: 0.25,
@@ -267,62 +526,122 @@ const PRESETS: { [key: string]: PresetDefinition } = {
       cutoff: 2000,
       resonance: 5,
       filterType: 'bandpass',
+      filterAttack: 0.05,
+      filterDecay: 0.4,
+      filterSustain: 0.3,
+      filterRelease: 0.2,
+      filterEnvAmount: -0.4,
+      filterKeyTrack: 0,
       lfoRate: 6,
       lfoAmount: 0.4,
-      detuneAmount: 0.3,
+      lfoWaveform: 'sampleHold',
+      lfoDestination: 'cutoff',
+      lfoRetrigger: true,
+      lfoSync: true,
+      lfoSyncDivision: '1/16',
+      detuneAmount: 30,
       ringModAmount: 0.6,
+      ringModMode: 'track',
+      ringModRatio: 1.5,
+      ringModFrequency: 440,
       wetness: 0.4,
       coarseness: 0.9,
+      driveCurve: 'fold',
+      crushBits: 6,
+      crushRate: 0.3,
+      voiceMode: 'mono',
+      glideTime: 0.12,
+      maxPolyphony: 6,
+      voiceStealing: 'oldest',
+      unisonVoices: 1,
+      unisonDetune: 20,
+      unisonCurve: 0.5,
+      unisonSpread: 0.7,
+      accentAmount: 0.5,
+      velocityToFilter: 0.3,
+      reverbDecay: 4,
+      reverbPreDelay: 0.08,
+      modMatrix: DEFAULT_MOD_MATRIX,
+      ...DEFAULT_INSERT_PARAMS,
     },
     tempo: 110,
     sequencerSteps: [
-      { note: 45, velocity: 0.8, duration: 0.7, slide: false, enabled: true },
-      { note: 0, velocity: 0.8, duration: 0.3, slide: false, enabled: false },
-      { note: 50, velocity: 0.7, duration: 0.7, slide: true, enabled: true },
-      { note: 0, velocity: 0.8, duration: 0.3, slide: false, enabled: false },
-      { note: 47, velocity: 0.75, duration: 0.7, slide: true, enabled: true },
-      { note: 0, velocity: 0.8, duration: 0.3, slide: false, enabled: false },
-      { note: 52, velocity: 0.8, duration: 0.7, slide: false, enabled: true },
-      { note: 0, velocity: 0.8, duration: 0.3, slide: false, enabled: false },
-      { note: 43, velocity: 0.75, duration: 0.7, slide: true, enabled: true },
-      { note: 0, velocity: 0.8, duration: 0.3, slide: false, enabled: false },
-      { note: 48, velocity: 0.8, duration: 0.7, slide: false, enabled: true },
-      { note: 0, velocity: 0.8, duration: 0.3, slide: false, enabled: false },
-      { note: 50, velocity: 0.7, duration: 0.7, slide: true, enabled: true },
-      { note: 0, velocity: 0.8, duration: 0.3, slide: false, enabled: false },
-      { note: 45, velocity: 0.75, duration: 0.7, slide: true, enabled: true },
-      { note: 0, velocity: 0.8, duration: 0.3, slide: false, enabled: false },
+      { note: 45, velocity: 0.8, duration: 0.7, slide: false, accent: false, enabled: true },
+      { note: 0, velocity: 0.8, duration: 0.3, slide: false, accent: false, enabled: false },
+      { note: 50, velocity: 0.7, duration: 0.7, slide: true, accent: true, enabled: true },
+      { note: 0, velocity: 0.8, duration: 0.3, slide: false, accent: false, enabled: false },
+      { note: 47, velocity: 0.75, duration: 0.7, slide: true, accent: true, enabled: true },
+      { note: 0, velocity: 0.8, duration: 0.3, slide: false, accent: false, enabled: false },
+      { note: 52, velocity: 0.8, duration: 0.7, slide: false, accent: false, enabled: true },
+      { note: 0, velocity: 0.8, duration: 0.3, slide: false, accent: false, enabled: false },
+      { note: 43, velocity: 0.75, duration: 0.7, slide: true, accent: false, enabled: true },
+      { note: 0, velocity: 0.8, duration: 0.3, slide: false, accent: false, enabled: false },
+      { note: 48, velocity: 0.8, duration: 0.7, slide: false, accent: false, enabled: true },
+      { note: 0, velocity: 0.8, duration: 0.3, slide: false, accent: false, enabled: false },
+      { note: 50, velocity: 0.7, duration: 0.7, slide: true, accent: true, enabled: true },
+      { note: 0, velocity: 0.8, duration: 0.3, slide: false, accent: false, enabled: false },
+      { note: 45, velocity: 0.75, duration: 0.7, slide: true, accent: false, enabled: true },
+      { note: 0, velocity: 0.8, duration: 0.3, slide: false, accent: false, enabled: false },
     ],
   },
 };
 
+// A rest, used to clear steps and to lengthen the pattern
+const EMPTY_STEP: SequencerNote = { note: 0, velocity: 0.8, duration: 0.5, slide: false, accent: false, enabled: true };
+
+function clampPatternLength(length: number): number {
+  return Math.max(MIN_PATTERN_STEPS, Math.min(MAX_PATTERN_STEPS, Math.round(length)));
+}
+
 // Helper function to generate a random sequence
-const generateRandomSequence = (): SequencerNote[] => {
-  return Array.from({ length: 16 }, () => ({
+const generateRandomSequence = (length: number): SequencerNote[] => {
+  return Array.from({ length }, () => ({
     note: Math.random() < 0.3 ? 0 : Math.floor(Math.random() * (40 - 20 + 1)) + 20, // Notes 20-40 or rest (30% rest)
     velocity: 0.6 + Math.random() * 0.4, // 0.6-1.0
     duration: 0.5 + Math.random() * 0.5, // 0.5-1.0
     slide: Math.random() < 0.3, // 30% chance of slide
+    accent: Math.random() < 0.2, // 20% chance of accent
     enabled: Math.random() < 0.7, // 70% enabled by default
   }));
 };
 
+const ENGINE_STORAGE_KEY = 'ts404_engine';
+
+function loadEngineType(): EngineType {
+  try {
+    return localStorage.getItem(ENGINE_STORAGE_KEY) === 'webaudio' ? 'webaudio' : 'tone';
+  } catch (e) {
+    return 'tone';
+  }
+}
+
+// Display name of a factory preset
+export function presetDisplayName(key: string): string {
+  return PRESETS[key]?.name ?? key;
+}
+
 export const useSynthesizerStore = create<SynthesizerState>((set) => {
   // Load default preset (bass deep)
   const defaultPreset = PRESETS.bassDeep;
 
   return {
-    params: defaultPreset.params,
+    params: { ...defaultPreset.params, tuning: DEFAULT_TUNING, sample: DEFAULT_SAMPLE },
     activeKeys: new Set(),
     patches: [],
+    samples: [],
     currentPatchId: null,
     isPlaying: false,
     displayText: '',
     controlMode: 'sliders', // Default to sliders
     currentPreset: 'bassDeep',
+    engineType: loadEngineType(),
+    masterVolume: 1,
+    arpeggiator: DEFAULT_ARPEGGIATOR,
     
     // Sequencer defaults
     sequencerSteps: defaultPreset.sequencerSteps,
+    sequencerTiming: DEFAULT_PATTERN_TIMING,
+    drums: { kit: DEFAULT_DRUM_KIT, pattern: emptyDrumPattern(defaultPreset.sequencerSteps.length) },
     currentStep: 0,
     tempo: defaultPreset.tempo,
     isSequencerRunning: false,
@@ -345,6 +664,8 @@ export const useSynthesizerStore = create<SynthesizerState>((set) => {
 
     setPatches: (patches) => set({ patches }),
 
+    setSamples: (samples) => set({ samples }),
+
     setCurrentPatchId: (id) => set({ currentPatchId: id }),
 
     setIsPlaying: (playing) => set({ isPlaying: playing }),
@@ -352,6 +673,22 @@ export const useSynthesizerStore = create<SynthesizerState>((set) => {
     setDisplayText: (text) => set({ displayText: text }),
 
     setControlMode: (mode) => set({ controlMode: mode }),
+
+    setArpeggiator: (settings) =>
+      set((state) => ({
+        arpeggiator: { ...state.arpeggiator, ...settings },
+      })),
+
+    setMasterVolume: (volume) => set({ masterVolume: volume }),
+
+    setEngineType: (type) => {
+      try {
+        localStorage.setItem(ENGINE_STORAGE_KEY, type);
+      } catch (e) {
+        console.warn('Failed to save engine choice:', e);
+      }
+      set({ engineType: type });
+    },
     
     setSequencerStep: (index, note) =>
       set((state) => {
@@ -360,6 +697,49 @@ export const useSynthesizerStore = create<SynthesizerState>((set) => {
         return { sequencerSteps: newSteps };
       }),
 
+    // Replaces the whole pattern, taking its length from the steps given
+    setSequencerSteps: (steps) =>
+      set((state) => {
+        const sequencerSteps = steps.slice(0, MAX_PATTERN_STEPS);
+        if (sequencerSteps.length < MIN_PATTERN_STEPS) return {};
+        return {
+          sequencerSteps,
+          drums: { ...state.drums, pattern: resizeDrumPattern(state.drums.pattern, sequencerSteps.length) },
+        };
+      }),
+
+    // Shortening drops the last steps; lengthening adds rests
+    setPatternLength: (length) =>
+      set((state) => {
+        const clamped = clampPatternLength(length);
+        return {
+          sequencerSteps: Array.from({ length: clamped }, (_, i) => state.sequencerSteps[i] ?? EMPTY_STEP),
+          drums: { ...state.drums, pattern: resizeDrumPattern(state.drums.pattern, clamped) },
+        };
+      }),
+
+    setSequencerTiming: (timing) =>
+      set((state) => ({
+        sequencerTiming: { ...state.sequencerTiming, ...timing },
+      })),
+
+    setDrumStep: (drum, index, on) =>
+      set((state) => {
+        const row = [...state.drums.pattern[drum]];
+        row[index] = on;
+        return { drums: { ...state.drums, pattern: { ...state.drums.pattern, [drum]: row } } };
+      }),
+
+    setDrumVoice: (drum, settings) =>
+      set((state) => ({
+        drums: { ...state.drums, kit: { ...state.drums.kit, [drum]: { ...state.drums.kit[drum], ...settings } } },
+      })),
+
+    setDrums: (drums) =>
+      set((state) => ({
+        drums: { ...drums, pattern: resizeDrumPattern(drums.pattern, state.sequencerSteps.length) },
+      })),
+
     setCurrentStep: (step) => set({ currentStep: step }),
 
     setTempo: (bpm) => set({ tempo: Math.max(20, Math.min(300, bpm)) }),
@@ -367,27 +747,31 @@ export const useSynthesizerStore = create<SynthesizerState>((set) => {
     setIsSequencerRunning: (running) => set({ isSequencerRunning: running }),
 
     clearSequencer: () =>
-      set({
-        sequencerSteps: Array.from({ length: 16 }, () => ({ note: 0, velocity: 0.8, duration: 0.5, slide: false, enabled: true })),
+      set((state) => ({
+        sequencerSteps: state.sequencerSteps.map(() => EMPTY_STEP),
+        drums: { ...state.drums, pattern: emptyDrumPattern(state.sequencerSteps.length) },
         currentStep: 0,
-      }),
+      })),
 
     loadPreset: (presetName: string) =>
-      set(() => {
+      set((state) => {
         const preset = PRESETS[presetName];
         if (!preset) return {};
         return {
-          params: preset.params,
+          params: { ...preset.params, tuning: state.params.tuning, sample: state.params.sample },
           tempo: preset.tempo,
           sequencerSteps: preset.sequencerSteps,
+          // Preset patterns are written in 1/16 steps of 4/4
+          sequencerTiming: DEFAULT_PATTERN_TIMING,
+          drums: { ...state.drums, pattern: resizeDrumPattern(state.drums.pattern, preset.sequencerSteps.length) },
           currentStep: 0,
           currentPreset: presetName,
         };
       }),
 
     generateRandomSequence: () =>
-      set(() => ({
-        sequencerSteps: generateRandomSequence(),
+      set((state) => ({
+        sequencerSteps: generateRandomSequence(state.sequencerSteps.length),
       })),
   };
 });
@@ -0,0 +1,148 @@
+// Microtuning shared by both engines: Scala scale (.scl) and keyboard mapping
+// (.kbm) files, built-in tunings and the MIDI note frequency table
+import { KeyboardMapping, Tuning } from './SynthEngine';
+
+export const MIDI_NOTE_COUNT = 128;
+
+// Scala's default mapping: one key per scale degree, degree 0 on middle C and the A above at 440 Hz
+export const LINEAR_MAPPING: KeyboardMapping = {
+  size: 0,
+  firstNote: 0,
+  lastNote: MIDI_NOTE_COUNT - 1,
+  middleNote: 60,
+  referenceNote: 69,
+  referenceFrequency: 440,
+  octaveDegree: 0,
+  map: [],
+};
+
+function equalSteps(steps: number): number[] {
+  return Array.from({ length: steps }, (_, i) => ((i + 1) * 1200) / steps);
+}
+
+function ratioToCents(ratio: number): number {
+  return 1200 * Math.log2(ratio);
+}
+
+// Quarter-comma meantone on C: each note is a whole number of narrowed fifths from C
+function meantone(): number[] {
+  const fifth = ratioToCents(Math.pow(5, 1 / 4));
+  const fifthsFromC = [7, 2, -3, 4, -1, 6, 1, 8, 3, -2, 5];
+  return [...fifthsFromC.map((fifths) => (((fifths * fifth) % 1200) + 1200) % 1200), 1200];
+}
+
+export const BUILT_IN_TUNINGS: Tuning[] = [
+  { name: '12-TET', description: '12-tone equal temperament', scale: equalSteps(12), mapping: LINEAR_MAPPING },
+  {
+    name: 'Just Intonation',
+    description: '5-limit just intonation on C',
+    scale: [16 / 15, 9 / 8, 6 / 5, 5 / 4, 4 / 3, 45 / 32, 3 / 2, 8 / 5, 5 / 3, 9 / 5, 15 / 8, 2].map(ratioToCents),
+    mapping: LINEAR_MAPPING,
+  },
+  {
+    name: 'Pythagorean',
+    description: 'Pythagorean tuning on C, built from pure fifths',
+    scale: [256 / 243, 9 / 8, 32 / 27, 81 / 64, 4 / 3, 729 / 512, 3 / 2, 128 / 81, 27 / 16, 16 / 9, 243 / 128, 2].map(ratioToCents),
+    mapping: LINEAR_MAPPING,
+  },
+  { name: 'Meantone', description: 'Quarter-comma meantone on C', scale: meantone(), mapping: LINEAR_MAPPING },
+  { name: '19-TET', description: '19-tone equal temperament', scale: equalSteps(19), mapping: LINEAR_MAPPING },
+  { name: '24-TET', description: 'Quarter-tone equal temperament', scale: equalSteps(24), mapping: LINEAR_MAPPING },
+  { name: 'Slendro', description: 'Javanese slendro as 5-tone equal temperament', scale: equalSteps(5), mapping: LINEAR_MAPPING },
+];
+
+export const DEFAULT_TUNING = BUILT_IN_TUNINGS[0];
+
+// Scala files use '!' for comment lines
+function scalaLines(text: string): string[] {
+  return text
+    .split(/\r?\n/)
+    .filter((line) => !line.startsWith('!'))
+    .map((line) => line.trim());
+}
+
+// A pitch line is in cents when it has a decimal point, otherwise a ratio like 3/2 or 2
+function parsePitch(line: string): number {
+  const token = line.split(/\s+/)[0];
+  if (token.includes('.')) {
+    const cents = Number(token);
+    if (Number.isFinite(cents)) return cents;
+  } else {
+    const [numerator, denominator = '1'] = token.split('/');
+    const ratio = Number(numerator) / Number(denominator);
+    if (Number.isFinite(ratio) && ratio > 0) return ratioToCents(ratio);
+  }
+  throw new Error(`Invalid pitch "${line}"`);
+}
+
+// Parses a .scl file; the scale's last pitch is its period, usually the octave
+export function parseScl(text: string, name: string): Pick<Tuning, 'name' | 'description' | 'scale'> {
+  const lines = scalaLines(text);
+  // The description may be blank, so only the lines after it skip empty ones
+  const description = lines[0] ?? '';
+  const rest = lines.slice(1).filter((line) => line !== '');
+  const count = Number(rest[0]);
+  if (!Number.isInteger(count) || count < 1) {
+    throw new Error('The scale has no notes');
+  }
+  const pitches = rest.slice(1, count + 1);
+  if (pitches.length < count) {
+    throw new Error(`The scale lists ${pitches.length} of its ${count} notes`);
+  }
+  return { name, description, scale: pitches.map(parsePitch) };
+}
+
+// Parses a .kbm file
+export function parseKbm(text: string): KeyboardMapping {
+  const lines = scalaLines(text).filter((line) => line !== '');
+  const header = lines.slice(0, 7).map((line) => Number(line.split(/\s+/)[0]));
+  if (header.length < 7 || header.some((value) => !Number.isFinite(value))) {
+    throw new Error('The keyboard mapping header is incomplete');
+  }
+  const [size, firstNote, lastNote, middleNote, referenceNote, referenceFrequency, octaveDegree] = header;
+  // Entries left out at the end of the map are unmapped keys, like 'x'
+  const map = Array.from({ length: size }, (_, i) => {
+    const entry = lines[7 + i]?.split(/\s+/)[0];
+    return entry === undefined || entry === 'x' ? null : Number(entry);
+  });
+  return { size, firstNote, lastNote, middleNote, referenceNote, referenceFrequency, octaveDegree, map };
+}
+
+// Cents above degree 0 of any scale degree, repeating the scale every period
+function degreeCents(scale: number[], degree: number): number {
+  const period = scale[scale.length - 1];
+  const periods = Math.floor(degree / scale.length);
+  const index = degree - periods * scale.length;
+  return periods * period + (index === 0 ? 0 : scale[index - 1]);
+}
+
+// Cents above the middle note's degree 0 for a key, or null when the mapping leaves it out
+function keyCents(tuning: Tuning, note: number): number | null {
+  const { scale, mapping } = tuning;
+  const offset = note - mapping.middleNote;
+  if (mapping.size === 0) {
+    return degreeCents(scale, offset);
+  }
+
+  const repeats = Math.floor(offset / mapping.size);
+  const degree = mapping.map[offset - repeats * mapping.size];
+  if (degree === null || degree === undefined) return null;
+  const octaveDegree = mapping.octaveDegree > 0 ? mapping.octaveDegree : scale.length;
+  return repeats * degreeCents(scale, octaveDegree) + degreeCents(scale, degree);
+}
+
+// Frequency of every MIDI note; null marks keys that don't sound
+export function buildTuningTable(tuning: Tuning): (number | null)[] {
+  const { mapping } = tuning;
+  const referenceCents = keyCents(tuning, mapping.referenceNote) ?? 0;
+  return Array.from({ length: MIDI_NOTE_COUNT }, (_, note) => {
+    if (note < mapping.firstNote || note > mapping.lastNote) return null;
+    const cents = keyCents(tuning, note);
+    return cents === null ? null : mapping.referenceFrequency * Math.pow(2, (cents - referenceCents) / 1200);
+  });
+}
+
+// Table lookup with 12-TET for notes outside the MIDI range
+export function tunedFrequency(table: (number | null)[], note: number): number {
+  return table[note] ?? 440 * Math.pow(2, (note - 69) / 12);
+}
@@ -0,0 +1,50 @@
+// Unison helpers shared by both engines. Every unison copy is a full voice, so
+// copies count against the polyphony limit and CPU grows with voices, not notes.
+import { SynthesizerParams } from './SynthEngine';
+import { clampPolyphony } from './voiceStealing';
+
+export const MAX_UNISON = 8;
+
+// Longest delay used to randomize a copy's start phase
+export const MAX_PHASE_DELAY = 0.02;
+
+type UnisonParams = Pick<SynthesizerParams, 'unisonVoices' | 'unisonDetune' | 'unisonCurve' | 'unisonSpread' | 'maxPolyphony'>;
+
+// Copies per note, never more than the polyphony limit allows
+export function unisonCount(params: UnisonParams): number {
+  const count = Math.max(1, Math.min(MAX_UNISON, Math.round(params.unisonVoices)));
+  return Math.min(count, clampPolyphony(params.maxPolyphony));
+}
+
+// Notes that can sound at once with the current unison setting
+export function unisonNoteLimit(params: UnisonParams): number {
+  return Math.floor(clampPolyphony(params.maxPolyphony) / unisonCount(params));
+}
+
+// Copy positions spread evenly from -1 to 1; a single voice sits in the middle
+export function unisonPositions(count: number): number[] {
+  if (count <= 1) return [0];
+  return Array.from({ length: count }, (_, i) => (i / (count - 1)) * 2 - 1);
+}
+
+// Detune of a copy in cents. A curve of 0 spaces the copies evenly; higher values
+// pull the inner copies towards the centre and leave the outer ones wide, supersaw style
+export function unisonDetuneCents(params: UnisonParams, position: number): number {
+  const exponent = 1 + Math.max(0, Math.min(1, params.unisonCurve)) * 2;
+  return Math.sign(position) * Math.pow(Math.abs(position), exponent) * params.unisonDetune;
+}
+
+export function unisonPan(params: UnisonParams, position: number): number {
+  return position * Math.max(0, Math.min(1, params.unisonSpread));
+}
+
+// Level of each copy, so stacking keeps roughly the loudness of a single voice
+export function unisonGain(count: number): number {
+  return 1 / Math.sqrt(count);
+}
+
+// Delay of up to one cycle that starts a copy at a random point of its waveform
+export function unisonPhaseDelay(count: number, frequency: number): number {
+  if (count <= 1) return 0;
+  return Math.random() * Math.min(MAX_PHASE_DELAY, 1 / Math.max(1, frequency));
+}
@@ -0,0 +1,33 @@
+// Voice stealing helpers shared by both engines
+import { VoiceStealing } from './SynthEngine';
+
+// Fade applied to a voice that is taken over while still sounding, to avoid clicks
+export const STEAL_FADE_TIME = 0.005;
+
+export const MAX_POLYPHONY = 16;
+
+// Clamps a polyphony setting to a whole number of voices the engines support
+export function clampPolyphony(maxPolyphony: number): number {
+  return Math.max(1, Math.min(MAX_POLYPHONY, Math.round(maxPolyphony)));
+}
+
+interface StealCandidate {
+  startedAt: number;
+}
+
+// Picks the voice to take over: the one started first, or the one with the lowest level
+export function pickVoiceToSteal<T extends StealCandidate>(
+  voices: T[],
+  strategy: VoiceStealing,
+  level: (voice: T) => number
+): T | undefined {
+  let chosen: T | undefined;
+  voices.forEach((voice) => {
+    if (!chosen) {
+      chosen = voice;
+    } else if (strategy === 'quietest' ? level(voice) < level(chosen) : voice.startedAt < chosen.startedAt) {
+      chosen = voice;
+    }
+  });
+  return chosen;
+}
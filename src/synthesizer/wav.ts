@@ -0,0 +1,127 @@
+// WAV file encoding for rendered and recorded audio
+
+export type WavFormat = 'pcm16' | 'pcm24' | 'float32';
+
+export const WAV_FORMATS: { value: WavFormat; label: string }[] = [
+  { value: 'pcm16', label: '16-bit' },
+  { value: 'pcm24', label: '24-bit' },
+  { value: 'float32', label: '32-bit float' },
+];
+
+// Text written to the file's LIST/INFO chunk
+export interface WavMetadata {
+  title?: string; // INAM
+  comment?: string; // ICMT
+  date?: string; // ICRD
+  software?: string; // ISFT
+}
+
+const INFO_FIELDS: [keyof WavMetadata, string][] = [
+  ['title', 'INAM'],
+  ['comment', 'ICMT'],
+  ['date', 'ICRD'],
+  ['software', 'ISFT'],
+];
+
+const WAVE_FORMAT_PCM = 1;
+const WAVE_FORMAT_IEEE_FLOAT = 3;
+
+function bytesPerSample(format: WavFormat): number {
+  return format === 'pcm16' ? 2 : format === 'pcm24' ? 3 : 4;
+}
+
+function writeString(view: DataView, offset: number, text: string) {
+  for (let i = 0; i < text.length; i++) {
+    view.setUint8(offset + i, text.charCodeAt(i));
+  }
+}
+
+// LIST/INFO subchunks as [id, null-terminated ASCII text]
+function infoEntries(metadata: WavMetadata): [string, string][] {
+  return INFO_FIELDS.filter(([field]) => metadata[field]).map(([field, id]) => [
+    id,
+    metadata[field]!.replace(/[^\x20-\x7e]/g, '?') + '\0',
+  ]);
+}
+
+// Subchunks start on even offsets, so odd-sized ones are followed by a pad byte
+function paddedSize(size: number): number {
+  return size + (size % 2);
+}
+
+// Interleaves the buffer's channels into a RIFF WAVE file, with an INFO chunk when metadata is given
+export function encodeWav(buffer: AudioBuffer, format: WavFormat, metadata: WavMetadata = {}): Blob {
+  const channels = buffer.numberOfChannels;
+  const sampleBytes = bytesPerSample(format);
+  const blockAlign = channels * sampleBytes;
+  const dataBytes = buffer.length * blockAlign;
+  const info = infoEntries(metadata);
+  const infoBytes = info.length > 0 ? 12 + info.reduce((total, [, text]) => total + 8 + paddedSize(text.length), 0) : 0;
+  const headerBytes = 44 + infoBytes;
+  const view = new DataView(new ArrayBuffer(headerBytes + dataBytes));
+
+  writeString(view, 0, 'RIFF');
+  view.setUint32(4, headerBytes - 8 + dataBytes, true);
+  writeString(view, 8, 'WAVE');
+
+  writeString(view, 12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, format === 'float32' ? WAVE_FORMAT_IEEE_FLOAT : WAVE_FORMAT_PCM, true);
+  view.setUint16(22, channels, true);
+  view.setUint32(24, buffer.sampleRate, true);
+  view.setUint32(28, buffer.sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, sampleBytes * 8, true);
+
+  let offset = 36;
+  if (info.length > 0) {
+    writeString(view, offset, 'LIST');
+    view.setUint32(offset + 4, infoBytes - 8, true);
+    writeString(view, offset + 8, 'INFO');
+    offset += 12;
+    info.forEach(([id, text]) => {
+      writeString(view, offset, id);
+      view.setUint32(offset + 4, text.length, true);
+      writeString(view, offset + 8, text);
+      offset += 8 + paddedSize(text.length);
+    });
+  }
+
+  writeString(view, offset, 'data');
+  view.setUint32(offset + 4, dataBytes, true);
+  offset += 8;
+
+  const data = Array.from({ length: channels }, (_, channel) => buffer.getChannelData(channel));
+  for (let i = 0; i < buffer.length; i++) {
+    for (let channel = 0; channel < channels; channel++) {
+      const sample = data[channel][i];
+      if (format === 'float32') {
+        view.setFloat32(offset, sample, true);
+      } else {
+        // Integer formats clip at full scale
+        const clipped = Math.max(-1, Math.min(1, sample));
+        if (format === 'pcm16') {
+          view.setInt16(offset, Math.round(clipped * 0x7fff), true);
+        } else {
+          const value = Math.round(clipped * 0x7fffff);
+          view.setUint8(offset, value & 0xff);
+          view.setUint8(offset + 1, (value >> 8) & 0xff);
+          view.setUint8(offset + 2, (value >> 16) & 0xff);
+        }
+      }
+      offset += sampleBytes;
+    }
+  }
+
+  return new Blob([view], { type: 'audio/wav' });
+}
+
+// Saves a file through a temporary download link
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
@@ -0,0 +1,80 @@
+// Wavetable helpers shared by both engines: harmonic frames, morphing between
+// them and importing single-cycle WAV files
+import { WavetableFrame } from './SynthEngine';
+
+// Harmonics per frame and frames per wavetable
+export const WAVETABLE_PARTIALS = 32;
+export const WAVETABLE_MAX_FRAMES = 8;
+
+// Longest file accepted as a single cycle; anything longer is not one period of a wave
+const MAX_SINGLE_CYCLE_SECONDS = 0.1;
+
+function harmonicSeries(amplitude: (harmonic: number) => number): WavetableFrame {
+  return Array.from({ length: WAVETABLE_PARTIALS }, (_, i) => amplitude(i + 1));
+}
+
+// A sawtooth morphing into a square
+export const DEFAULT_WAVETABLE: WavetableFrame[] = [
+  harmonicSeries((n) => 1 / n),
+  harmonicSeries((n) => (n % 2 === 1 ? 1 / n : 0)),
+];
+
+// An empty frame with only the fundamental, for the harmonic editor
+export function sineFrame(): WavetableFrame {
+  return harmonicSeries((n) => (n === 1 ? 1 : 0));
+}
+
+// Partials for a position between 0 (first frame) and 1 (last frame),
+// crossfading linearly between the two nearest frames
+export function morphPartials(frames: WavetableFrame[], position: number): number[] {
+  if (frames.length === 0) return sineFrame();
+  if (frames.length === 1) return [...frames[0]];
+
+  const scaled = Math.max(0, Math.min(1, position)) * (frames.length - 1);
+  const index = Math.min(frames.length - 2, Math.floor(scaled));
+  const mix = scaled - index;
+  const from = frames[index];
+  const to = frames[index + 1];
+  return Array.from({ length: WAVETABLE_PARTIALS }, (_, i) => (from[i] ?? 0) * (1 - mix) + (to[i] ?? 0) * mix);
+}
+
+// Builds a PeriodicWave for the raw engine; harmonics are sine phase, like Tone's custom partials
+export function createWavetableWave(context: BaseAudioContext, partials: number[]): PeriodicWave {
+  const real = new Float32Array(partials.length + 1);
+  const imag = new Float32Array(partials.length + 1);
+  partials.forEach((amplitude, i) => {
+    imag[i + 1] = amplitude;
+  });
+  return context.createPeriodicWave(real, imag);
+}
+
+// Harmonic magnitudes of a buffer holding exactly one cycle, scaled so the
+// loudest is 1. The phase of each harmonic is not kept.
+export function framePartialsFromCycle(samples: Float32Array): WavetableFrame {
+  const length = samples.length;
+  const magnitudes = harmonicSeries((n) => {
+    let real = 0;
+    let imag = 0;
+    for (let i = 0; i < length; i++) {
+      const angle = (2 * Math.PI * n * i) / length;
+      real += samples[i] * Math.cos(angle);
+      imag += samples[i] * Math.sin(angle);
+    }
+    return Math.sqrt(real * real + imag * imag);
+  });
+
+  const peak = Math.max(...magnitudes);
+  if (peak <= 0) {
+    throw new Error('The wave is silent');
+  }
+  return magnitudes.map((magnitude) => magnitude / peak);
+}
+
+// Decodes a single-cycle WAV file into a wavetable frame
+export async function importSingleCycleWav(context: BaseAudioContext, file: File): Promise<WavetableFrame> {
+  const buffer = await context.decodeAudioData(await file.arrayBuffer());
+  if (buffer.duration > MAX_SINGLE_CYCLE_SECONDS) {
+    throw new Error(`${file.name} is ${buffer.duration.toFixed(2)}s long, too long for a single cycle`);
+  }
+  return framePartialsFromCycle(buffer.getChannelData(0));
+}
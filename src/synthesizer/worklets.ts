@@ -0,0 +1,316 @@
+// AudioWorklet processors shared by both engines
+//
+// All processors live in a single module because Tone.js only loads one
+// worklet module per context. The source is kept as a string and loaded
+// through a Blob URL so no extra build step is needed.
+
+export const CRUSHER_PROCESSOR = 'ts404-crusher';
+export const SYNC_OSCILLATOR_PROCESSOR = 'ts404-sync-osc';
+export const LADDER_FILTER_PROCESSOR = 'ts404-ladder';
+export const RECORDER_PROCESSOR = 'ts404-recorder';
+
+// Frames the recorder collects before posting them to the main thread
+export const RECORDER_BATCH_FRAMES = 4096;
+
+const PROCESSOR_SOURCE = `
+class CrusherProcessor extends AudioWorkletProcessor {
+  static get parameterDescriptors() {
+    return [
+      { name: 'bits', defaultValue: 16, minValue: 1, maxValue: 16, automationRate: 'k-rate' },
+      { name: 'downsample', defaultValue: 1, minValue: 1, maxValue: 64, automationRate: 'k-rate' },
+    ];
+  }
+
+  constructor() {
+    super();
+    this.held = [];
+    this.phase = 0;
+  }
+
+  process(inputs, outputs, parameters) {
+    const input = inputs[0];
+    const output = outputs[0];
+    const levels = Math.pow(2, parameters.bits[0] - 1);
+    const downsample = parameters.downsample[0];
+    const frames = output[0] ? output[0].length : 0;
+
+    for (let channel = 0; channel < output.length; channel++) {
+      const inChannel = input[channel] || input[0];
+      const outChannel = output[channel];
+      let phase = this.phase;
+      let held = this.held[channel] || 0;
+      for (let i = 0; i < frames; i++) {
+        // Sample-and-hold at the reduced rate, then quantize to the bit depth
+        phase += 1;
+        if (phase >= downsample) {
+          phase -= downsample;
+          const sample = inChannel ? inChannel[i] : 0;
+          held = Math.round(sample * levels) / levels;
+        }
+        outChannel[i] = held;
+      }
+      this.held[channel] = held;
+      if (channel === output.length - 1) {
+        this.phase = phase;
+      }
+    }
+    return true;
+  }
+}
+
+registerProcessor('${CRUSHER_PROCESSOR}', CrusherProcessor);
+
+// Hard-synced oscillator: a hidden master runs at 'frequency' and restarts the
+// audible slave, running at frequency * ratio, every time it completes a cycle.
+// Shapes: 0 sine, 1 triangle, 2 sawtooth, 3 square.
+class SyncOscillatorProcessor extends AudioWorkletProcessor {
+  static get parameterDescriptors() {
+    return [
+      { name: 'frequency', defaultValue: 440, minValue: 0, maxValue: 20000, automationRate: 'a-rate' },
+      { name: 'ratio', defaultValue: 1, minValue: 0.0625, maxValue: 16, automationRate: 'a-rate' },
+      { name: 'detune', defaultValue: 0, minValue: -4800, maxValue: 4800, automationRate: 'a-rate' },
+      { name: 'shape', defaultValue: 2, minValue: 0, maxValue: 3, automationRate: 'k-rate' },
+    ];
+  }
+
+  constructor() {
+    super();
+    this.masterPhase = 0;
+    this.slavePhase = 0;
+  }
+
+  process(inputs, outputs, parameters) {
+    const output = outputs[0];
+    if (!output || output.length === 0) return true;
+
+    const out = output[0];
+    const shape = Math.round(parameters.shape[0]);
+    const frequency = parameters.frequency;
+    const ratio = parameters.ratio;
+    const detune = parameters.detune;
+    const constantDetune = detune.length === 1 ? Math.pow(2, detune[0] / 1200) : 0;
+
+    for (let i = 0; i < out.length; i++) {
+      const detuneFactor = constantDetune || Math.pow(2, detune[i] / 1200);
+      const increment = (frequency.length > 1 ? frequency[i] : frequency[0]) * detuneFactor / sampleRate;
+      const slaveRatio = ratio.length > 1 ? ratio[i] : ratio[0];
+
+      this.masterPhase += increment;
+      if (this.masterPhase >= 1) {
+        // Restart the slave, carrying over the fraction of a sample past the reset
+        this.masterPhase -= Math.floor(this.masterPhase);
+        this.slavePhase = this.masterPhase * slaveRatio;
+      } else {
+        this.slavePhase += increment * slaveRatio;
+      }
+      this.slavePhase -= Math.floor(this.slavePhase);
+
+      const phase = this.slavePhase;
+      switch (shape) {
+        case 0:
+          out[i] = Math.sin(2 * Math.PI * phase);
+          break;
+        case 1:
+          out[i] = 1 - 4 * Math.abs(phase - 0.5);
+          break;
+        case 3:
+          out[i] = phase < 0.5 ? 1 : -1;
+          break;
+        default:
+          out[i] = 2 * phase - 1;
+      }
+    }
+
+    for (let channel = 1; channel < output.length; channel++) {
+      output[channel].set(out);
+    }
+    return true;
+  }
+}
+
+registerProcessor('${SYNC_OSCILLATOR_PROCESSOR}', SyncOscillatorProcessor);
+
+// Cheap tanh for the ladder stages, exact enough below clipping and hard-limited beyond
+function saturate(x) {
+  if (x > 3) return 1;
+  if (x < -3) return -1;
+  const x2 = x * x;
+  return x * (27 + x2) / (27 + 9 * x2);
+}
+
+// Side taps of a half-band lowpass, windowed sinc with a Blackman window. Tap k
+// weights the samples k - 0.5 either side of the point between two input samples;
+// the taps sum to 0.5, so a pair of neighbours in step passes at unity gain.
+const HALF_BAND_TAPS = 6;
+function halfBandTaps() {
+  const taps = [];
+  let sum = 0;
+  for (let k = 1; k <= HALF_BAND_TAPS; k++) {
+    const j = 2 * k - 1;
+    const x = Math.PI * j / 2;
+    const phase = Math.PI * j / (2 * HALF_BAND_TAPS);
+    const window = 0.42 + 0.5 * Math.cos(phase) + 0.08 * Math.cos(2 * phase);
+    taps.push(Math.sin(x) / x * window);
+    sum += taps[k - 1];
+  }
+  return taps.map((tap) => tap * 0.5 / sum);
+}
+
+// Transistor ladder lowpass, 24 dB/oct: four saturating one-pole stages with
+// global feedback, run at twice the sample rate. The input is interpolated up
+// and the output filtered back down with the same half-band lowpass, so the
+// harmonics the saturation adds above the original Nyquist don't fold back. 'cutoff' and 'detune' are
+// audio-rate so envelopes and LFOs can sweep it smoothly. 'resonance' takes the
+// same Q value as the biquad filters and maps it onto the feedback amount,
+// which reaches self-oscillation around Q 30.
+class LadderFilterProcessor extends AudioWorkletProcessor {
+  static get parameterDescriptors() {
+    return [
+      { name: 'cutoff', defaultValue: 1000, minValue: 0, maxValue: 22050, automationRate: 'a-rate' },
+      { name: 'detune', defaultValue: 0, minValue: -9600, maxValue: 9600, automationRate: 'a-rate' },
+      { name: 'resonance', defaultValue: 1, minValue: 0, maxValue: 100, automationRate: 'k-rate' },
+    ];
+  }
+
+  constructor() {
+    super();
+    this.stages = [0, 0, 0, 0];
+    this.taps = halfBandTaps();
+    this.inputHistory = new Float32Array(2 * HALF_BAND_TAPS);
+    this.outputHistory = new Float32Array(4 * HALF_BAND_TAPS - 1);
+  }
+
+  // One step of the ladder at the oversampled rate
+  tick(x, coefficient, feedback) {
+    const s = this.stages;
+    const u = saturate(x - feedback * s[3]);
+    const t0 = saturate(s[0]);
+    const t1 = saturate(s[1]);
+    const t2 = saturate(s[2]);
+    s[0] += coefficient * (u - t0);
+    s[1] += coefficient * (t0 - t1);
+    s[2] += coefficient * (t1 - t2);
+    s[3] += coefficient * (t2 - saturate(s[3]));
+    return s[3];
+  }
+
+  process(inputs, outputs, parameters) {
+    const input = inputs[0];
+    const output = outputs[0];
+    if (!output || output.length === 0) return true;
+
+    const out = output[0];
+    const source = input && input.length > 0 ? input[0] : null;
+    const cutoff = parameters.cutoff;
+    const detune = parameters.detune;
+    const oversampledRate = sampleRate * 2;
+
+    // Feedback approaches 4, where the ladder rings on its own, as Q rises. The
+    // input is boosted with the feedback to make up part of the passband loss.
+    const feedback = 4.2 * (1 - Math.exp(-parameters.resonance[0] / 10));
+    const compensation = 1 + feedback * 0.5;
+
+    const taps = this.taps;
+    const inputs2x = this.inputHistory;
+    const outputs2x = this.outputHistory;
+    const center = 2 * HALF_BAND_TAPS - 1;
+    let coefficient = -1;
+    for (let i = 0; i < out.length; i++) {
+      if (coefficient < 0 || cutoff.length > 1 || detune.length > 1) {
+        const hz = (cutoff.length > 1 ? cutoff[i] : cutoff[0]) * Math.pow(2, (detune.length > 1 ? detune[i] : detune[0]) / 1200);
+        const clamped = Math.min(Math.max(hz, 10), oversampledRate * 0.2);
+        coefficient = 1 - Math.exp(-2 * Math.PI * clamped / oversampledRate);
+      }
+
+      // Upsample: an input sample, then the point halfway to the next one
+      inputs2x.copyWithin(0, 1);
+      inputs2x[inputs2x.length - 1] = source ? source[i] * compensation : 0;
+      const onSample = inputs2x[HALF_BAND_TAPS - 1];
+      let between = 0;
+      for (let k = 1; k <= HALF_BAND_TAPS; k++) {
+        between += taps[k - 1] * (inputs2x[HALF_BAND_TAPS - 1 + k] + inputs2x[HALF_BAND_TAPS - k]);
+      }
+
+      outputs2x.copyWithin(0, 2);
+      outputs2x[outputs2x.length - 2] = this.tick(onSample, coefficient, feedback);
+      outputs2x[outputs2x.length - 1] = this.tick(between, coefficient, feedback);
+
+      // Downsample: lowpass the ladder's output and keep every other sample
+      let y = 0.5 * outputs2x[center];
+      for (let k = 1; k <= HALF_BAND_TAPS; k++) {
+        y += 0.5 * taps[k - 1] * (outputs2x[center - (2 * k - 1)] + outputs2x[center + (2 * k - 1)]);
+      }
+      out[i] = y;
+    }
+
+    for (let channel = 1; channel < output.length; channel++) {
+      output[channel].set(out);
+    }
+    return true;
+  }
+}
+
+registerProcessor('${LADDER_FILTER_PROCESSOR}', LadderFilterProcessor);
+
+// Recorder tap: copies its stereo input into batches and posts them to the
+// main thread. Its output stays silent; it is only connected so it keeps running.
+// Messages: 'start', 'stop' (posts what is left, then { done: true }).
+class RecorderProcessor extends AudioWorkletProcessor {
+  constructor() {
+    super();
+    this.recording = false;
+    this.left = new Float32Array(${RECORDER_BATCH_FRAMES});
+    this.right = new Float32Array(${RECORDER_BATCH_FRAMES});
+    this.filled = 0;
+    this.port.onmessage = (event) => {
+      if (event.data === 'start') {
+        this.recording = true;
+        this.filled = 0;
+      } else if (event.data === 'stop') {
+        this.recording = false;
+        this.flush();
+        this.port.postMessage({ done: true });
+      }
+    };
+  }
+
+  flush() {
+    if (this.filled === 0) return;
+    const left = this.left.slice(0, this.filled);
+    const right = this.right.slice(0, this.filled);
+    this.port.postMessage({ left, right }, [left.buffer, right.buffer]);
+    this.filled = 0;
+  }
+
+  process(inputs, outputs) {
+    if (!this.recording) return true;
+
+    // An input with no channels is silence, which still takes up time in the take
+    const input = inputs[0] || [];
+    const left = input[0];
+    const right = input[1] || input[0];
+    const frames = left ? left.length : outputs[0][0].length;
+    for (let i = 0; i < frames; i++) {
+      this.left[this.filled] = left ? left[i] : 0;
+      this.right[this.filled] = right ? right[i] : 0;
+      this.filled++;
+      if (this.filled === ${RECORDER_BATCH_FRAMES}) {
+        this.flush();
+      }
+    }
+    return true;
+  }
+}
+
+registerProcessor('${RECORDER_PROCESSOR}', RecorderProcessor);
+`;
+
+let moduleUrl: string | null = null;
+
+export function getWorkletModuleUrl(): string {
+  if (!moduleUrl) {
+    const blob = new Blob([PROCESSOR_SOURCE], { type: 'application/javascript' });
+    moduleUrl = URL.createObjectURL(blob);
+  }
+  return moduleUrl;
+}